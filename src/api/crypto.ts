@@ -10,6 +10,8 @@ export interface CryptoImplementation {
     hashBlake3(input: Uint8Array): Promise<Uint8Array>;
     hashBlake3Sync(input: Uint8Array): Uint8Array;
     hashBlake3Blob(blob: Blob): Promise<Uint8Array>;
+    /// Returns an incremental hasher for inputs that arrive in pieces
+    newHasherBlake3(): HasherBlake3;
 
     verifyEd25519(
         publicKey: Uint8Array,
@@ -37,6 +39,11 @@ export interface CryptoImplementation {
     // TODO maybe add AES-GCM cipher for large blobs
 }
 
+export interface HasherBlake3 {
+    update(input: Uint8Array): unknown;
+    digest(): Uint8Array;
+}
+
 export class KeyPairEd25519 {
     readonly privKey: Uint8Array;
     readonly pubKey: Uint8Array;
@@ -1,5 +1,5 @@
 import { BLAKE3, blake3 } from '@noble/hashes/blake3';
-import { CryptoImplementation, KeyPairEd25519 } from "../crypto.js";
+import { CryptoImplementation, HasherBlake3, KeyPairEd25519 } from "../crypto.js";
 import { xchacha20poly1305 } from '@noble/ciphers/chacha';
 import * as ed from '@noble/ed25519';
 
@@ -26,6 +26,9 @@ export class JSCryptoImplementation implements CryptoImplementation {
         }
         return blake3Hasher.digest();
     }
+    newHasherBlake3(): HasherBlake3 {
+        return new BLAKE3();
+    }
     // TODO(perf): use ed25519 web APIs if available
     async verifyEd25519(publicKey: Uint8Array, message: Uint8Array, signature: Uint8Array): Promise<boolean> {
         return await ed.verifyAsync(signature, message, publicKey);
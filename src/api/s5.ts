@@ -18,9 +18,20 @@ export interface S5APIInterface {
     /// Does not have a file size limit and can handle large files efficiently
     uploadBlob(blob: Blob): Promise<BlobIdentifier>;
 
+    /// Upload a blob from a stream without buffering it in memory
+    ///
+    /// The BLAKE3 hash and size are computed while the bytes are sent,
+    /// a stream can only be read once so the upload is not retried
+    uploadBlobStream(stream: ReadableStream<Uint8Array>): Promise<BlobIdentifier>;
+
     /// Downloads a full file blob to memory, you should only use this if they are smaller than 1 MB
     downloadBlobAsBytes(hash: Uint8Array): Promise<Uint8Array>;
 
+    /// Downloads `length` bytes of a blob starting at `offset` using HTTP Range requests
+    ///
+    /// The returned bytes are not hash-verified, callers need their own integrity check
+    downloadBlobRange(hash: Uint8Array, offset: number, length: number): Promise<Uint8Array>;
+
     pinHash(hash: Uint8Array): Promise<void>;
     unpinHash(hash: Uint8Array): Promise<void>;
 
@@ -0,0 +1,26 @@
+/**
+ * Node.js-only S5.js API - local folder sync
+ *
+ * Kept out of the other entry points because it uses node:fs, which browser
+ * bundles can't include.
+ *
+ * @example
+ * ```typescript
+ * import { S5 } from 's5';
+ * import { FS5Sync } from 's5/node';
+ *
+ * const s5 = await S5.create();
+ * await s5.recoverIdentityFromSeedPhrase(seedPhrase);
+ *
+ * const sync = new FS5Sync(s5.fs, { localDir: './notes', remotePath: 'home/notes' });
+ * const result = await sync.sync();
+ * ```
+ */
+
+export { FS5Sync } from '../fs/fs5-sync.js';
+export type {
+  FS5SyncOptions,
+  SyncRunOptions,
+  SyncAction,
+  SyncResult
+} from '../fs/fs5-sync.js';
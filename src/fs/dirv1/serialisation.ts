@@ -93,6 +93,11 @@ export class DirV1Serialiser {
       result.set(DIR_REF_KEYS.TS_NANOS, dirRef.ts_nanos);
     }
     
+    // Key 22: extra fields (optional)
+    if (dirRef.extra !== undefined && dirRef.extra.size > 0) {
+      result.set(DIR_REF_KEYS.EXTRA, dirRef.extra);
+    }
+    
     return result;
   }
   
@@ -106,9 +111,9 @@ export class DirV1Serialiser {
       if (link.hash) result.set(link.hash, 1);
     } else if (link.type === 'resolver_registry') {
       result[0] = DIR_LINK_TYPES.RESOLVER_REGISTRY;
-      if (link.hash) result.set(link.hash, 1);
+      if (link.publicKey) result.set(link.publicKey, 1);
     } else if (link.type === 'mutable_registry_ed25519') {
-      result[0] = DIR_LINK_TYPES.RESOLVER_REGISTRY; // 0xed
+      result[0] = DIR_LINK_TYPES.MUTABLE_REGISTRY_ED25519;
       if (link.publicKey) result.set(link.publicKey, 1);
     }
     
@@ -181,6 +186,17 @@ export class DirV1Serialiser {
   }
   
   // Deserialise CBOR bytes to DirV1
+  private static headerMapToObject(value: any): any {
+    if (value instanceof Map) {
+      const obj: Record<string, any> = {};
+      for (const [k, v] of value) {
+        obj[k] = this.headerMapToObject(v);
+      }
+      return obj;
+    }
+    return value;
+  }
+
   static deserialise(data: Uint8Array): DirV1 {
     // Check minimum length for magic bytes
     if (data.length < 2) {
@@ -207,8 +223,8 @@ export class DirV1Serialiser {
       throw new Error('Invalid DirV1 magic string');
     }
     
-    // Convert header Map to object if needed
-    const headerObj = header instanceof Map ? Object.fromEntries(header) : header;
+    // Convert header Maps (including nested ones like sharding.root) back to objects
+    const headerObj = this.headerMapToObject(header);
     
     // Deserialise directories
     const dirs = this.deserialiseDirs(dirsMap);
@@ -274,6 +290,11 @@ export class DirV1Serialiser {
       dirRef.ts_nanos = tsNanos;
     }
     
+    const extra = dirRefMap.get(DIR_REF_KEYS.EXTRA);
+    if (extra instanceof Map) {
+      dirRef.extra = extra;
+    }
+    
     return dirRef;
   }
   
@@ -289,10 +310,10 @@ export class DirV1Serialiser {
     let type: DirLink['type'];
     if (typeBytes === DIR_LINK_TYPES.FIXED_HASH_BLAKE3) {
       return { type: 'fixed_hash_blake3', hash: hashOrKey };
-    } else if (typeBytes === DIR_LINK_TYPES.RESOLVER_REGISTRY) {
-      // 0xed can be either resolver_registry or mutable_registry_ed25519
-      // In the test vectors, 0xed is used for mutable_registry_ed25519
+    } else if (typeBytes === DIR_LINK_TYPES.MUTABLE_REGISTRY_ED25519) {
       return { type: 'mutable_registry_ed25519', publicKey: hashOrKey };
+    } else if (typeBytes === DIR_LINK_TYPES.RESOLVER_REGISTRY) {
+      return { type: 'resolver_registry', publicKey: hashOrKey };
     } else {
       throw new Error(`Unknown DirLink type: 0x${typeBytes.toString(16)}`);
     }
@@ -14,8 +14,8 @@ export interface FileRef {
 
 export interface DirLink {
   type: 'fixed_hash_blake3' | 'resolver_registry' | 'mutable_registry_ed25519';
-  hash?: Uint8Array; // 32 bytes - for fixed_hash_blake3 and resolver_registry
-  publicKey?: Uint8Array; // 32 bytes - for mutable_registry_ed25519
+  hash?: Uint8Array; // 32 bytes - for fixed_hash_blake3
+  publicKey?: Uint8Array; // 32 bytes - for mutable_registry_ed25519 and resolver_registry
 }
 
 export interface DirRef {
@@ -47,9 +47,17 @@ export interface HAMTShardingConfig {
  */
 export interface DirHeader {
   sharding?: HAMTShardingConfig;
+  policy?: DirectoryPolicy;  // Set with FS5.setDirectoryPolicy(), inherited by subdirectories
   [key: string]: any;  // Allow other extensions
 }
 
+/**
+ * Rules for files written to a directory and its subdirectories
+ */
+export interface DirectoryPolicy {
+  encryptFiles?: boolean;  // Encrypt new files with a per-file XChaCha20 key when put() is called without encryption options
+}
+
 export interface DirV1 {
   magic: string; // "S5.pro"
   header: DirHeader;
@@ -73,13 +81,15 @@ export const FILE_REF_KEYS = {
 export const DIR_REF_KEYS = {
   LINK: 2,
   TS_SECONDS: 7,
-  TS_NANOS: 8
+  TS_NANOS: 8,
+  EXTRA: 22
 } as const;
 
 // DirLink type bytes
 export const DIR_LINK_TYPES = {
   FIXED_HASH_BLAKE3: 0x1e,
-  RESOLVER_REGISTRY: 0xed
+  MUTABLE_REGISTRY_ED25519: 0xed,
+  RESOLVER_REGISTRY: 0x25  // Registry entry whose data is another 33-byte DirLink
 } as const;
 
 // BlobLocation types
@@ -109,8 +119,56 @@ export interface PutOptions {
     algorithm: 'xchacha20-poly1305';
     key?: Uint8Array;  // If not provided, will be auto-generated
   };
+  keepVersions?: number;  // Previous versions to keep in FileRef.prev (0 = drop history, unset = keep as many as the file already has)
+  clearAttributes?: boolean;  // Drop the extended attributes of the file being replaced
+  ifMatch?: Uint8Array | number;  // Only write if the current file has this hash, or timestamp (ms, weak: matches any write in the same second, prefer the hash)
+  ifNoneMatch?: '*';  // Only write if no file exists at the path yet (create-only)
+  outboard?: boolean;  // Store a Bao outboard so reads verify the file in 256 KiB pieces (default: FS5 outboard)
+}
+
+// Changes staged inside FS5.transaction(), names are relative to its directory
+export interface DirectoryTransaction {
+  put(name: string, data: any, options?: PutOptions): void;
+  delete(name: string): void;
+  createDirectory(name: string): void;
+}
+
+export interface DeleteOptions {
+  ifMatch?: Uint8Array | number;  // Only delete if the current file has this hash, or timestamp (ms, weak like PutOptions.ifMatch)
+  soft?: boolean;  // Move the entry to home/.trash instead of removing it (default: FS5 softDelete)
+}
+
+export interface FS5Options {
+  softDelete?: boolean;  // Make delete() move entries to home/.trash by default
+  trashRetention?: number;  // Milliseconds, soft deletes also empty trash entries older than this
+  root?: string;  // fs5:// URI of a directory that all paths are relative to, instead of the identity's root
+  outboard?: boolean;  // Store Bao outboards for new files larger than 256 KiB, see PutOptions.outboard
+}
+
+export interface ShareLinkOptions {
+  writable?: boolean;  // Include the write key so the link can be used to make changes
+}
+
+export interface RotateKeysOptions {
+  recursive?: boolean;  // Rotate the keys of all subdirectories too (default: false)
+  reencryptFiles?: boolean;  // Move files with their own XChaCha20 key to fresh keys and blobs (default: false)
+}
+
+export interface TrashEntry {
+  id: string;  // Name of the entry in home/.trash, used with restore()
+  path: string;  // Where the entry was deleted from
+  deletedAt: number;  // Milliseconds since epoch
+  type: 'file' | 'directory';
+  size?: number;  // Files only
 }
 
+export interface EmptyTrashOptions {
+  olderThan?: number;  // Only remove entries deleted more than this many milliseconds ago
+}
+
+// How put() encoded the file contents, stored in FileRef.extra so get() can decode them exactly
+export type FileEncoding = 'bytes' | 'text' | 'json' | 'cbor';
+
 export interface ListResult {
   name: string;
   type: 'file' | 'directory';
@@ -120,14 +178,90 @@ export interface ListResult {
   cursor?: string;
 }
 
+export interface VersionInfo {
+  version: number;  // 0 = current, 1 = the version before it, ...
+  hash: Uint8Array;
+  size: number;
+  mediaType?: string;
+  timestamp?: number;
+}
+
+export interface WatchEvent {
+  type: 'added' | 'modified' | 'removed';
+  name: string;
+  path: string;
+  entryType: 'file' | 'directory';
+  revision: number;  // Registry revision of the directory that contains the change
+}
+
+export interface WatchOptions {
+  signal?: AbortSignal;  // Ends the iteration when aborted
+}
+
+export interface FindQuery {
+  glob?: string;  // Pattern matched against the path relative to the search root, e.g. "**/*.jpg"
+  mediaType?: string;  // Exact media type, or a prefix ending in "/" like "image/"
+  minSize?: number;  // Bytes, inclusive
+  maxSize?: number;  // Bytes, inclusive
+  modifiedAfter?: number;  // Milliseconds since epoch, inclusive
+  modifiedBefore?: number;  // Milliseconds since epoch, inclusive
+  limit?: number;  // Maximum number of results
+  cursor?: string;  // Resume after the result this cursor was returned with
+}
+
+export interface FindResult {
+  path: string;
+  name: string;
+  size: number;
+  mediaType?: string;
+  timestamp?: number;  // Milliseconds since epoch
+  fileRef: FileRef;
+  cursor: string;
+}
+
+export interface DiffEntry {
+  type: 'added' | 'removed' | 'modified' | 'moved';
+  entryType: 'file' | 'directory';
+  path: string;  // Relative to the compared roots: the old path for removed entries, the new one otherwise
+  from?: string;  // Old relative path of a moved entry
+  hash?: Uint8Array;  // File hash, the new one for modified files
+  previousHash?: Uint8Array;  // File hash before a modification
+}
+
+export interface DiskUsageOptions {
+  largestFiles?: number;  // How many of the largest files to report (default: 10)
+  cache?: boolean;  // Reuse and store results in the directory's DirRef.extra (not available for top-level directories); storing it writes the parent directory
+}
+
+export interface DiskUsageTotals {
+  files: number;
+  directories: number;
+  totalSize: number;  // Bytes
+}
+
+export interface DiskUsage extends DiskUsageTotals {
+  path: string;
+  encryptedFiles: number;
+  plainFiles: number;
+  shardedDirectories: number;  // HAMT-sharded directories, including the measured one
+  mediaTypes: Record<string, { files: number; totalSize: number }>;  // Files without a media type count as "unknown"
+  largestFiles: { path: string; size: number; mediaType?: string }[];  // Largest first
+  subdirectories: Record<string, DiskUsageTotals>;  // Totals for each direct subdirectory
+  cached: boolean;  // Whether the result came from the cache
+}
+
 export interface GetOptions {
   defaultMediaType?: string;
 }
 
+export type ListSortBy = 'name' | 'timestamp' | 'size';
+
 export interface ListOptions {
   limit?: number;
   cursor?: string;
-  // filter?: (item: ListResult) => boolean; // Reserved for future
+  sortBy?: ListSortBy;  // Files and directories sorted together, entries without a size or timestamp count as 0
+  order?: 'asc' | 'desc';  // Default: asc (setting only order sorts by name)
+  filter?: (item: ListResult) => boolean;  // Only items it returns true for are yielded and count towards limit
 }
 
 // Internal cursor data structure
@@ -136,4 +270,7 @@ export interface CursorData {
   type: 'file' | 'directory'; // Type of last item
   timestamp?: number; // For stability checks
   path?: number[]; // HAMT path for cursor positioning
+  sortBy?: ListSortBy; // Sort key of a sorted listing
+  order?: 'asc' | 'desc'; // Sort order of a sorted listing
+  sortValue?: number; // Timestamp or size of the last item in a sorted listing
 }
\ No newline at end of file
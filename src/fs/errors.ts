@@ -0,0 +1,27 @@
+/**
+ * Thrown when a conditional write or delete finds the file in a different
+ * state than the caller expected (see PutOptions.ifMatch / ifNoneMatch).
+ * The current state is included so callers can reload, merge and retry.
+ * Retry with `ifMatch: currentHash` rather than the timestamp: timestamps
+ * have second precision, so they can't detect a write in the same second.
+ */
+export class PreconditionFailedError extends Error {
+  readonly path: string;
+  /** Hash of the file currently stored at the path, undefined if there is none */
+  readonly currentHash?: Uint8Array;
+  /** Timestamp of the file currently stored at the path, in milliseconds (whole seconds) */
+  readonly currentTimestamp?: number;
+
+  constructor(
+    message: string,
+    path: string,
+    currentHash?: Uint8Array,
+    currentTimestamp?: number
+  ) {
+    super(message);
+    this.name = "PreconditionFailedError";
+    this.path = path;
+    this.currentHash = currentHash;
+    this.currentTimestamp = currentTimestamp;
+  }
+}
@@ -0,0 +1,505 @@
+/**
+ * FS5Sync - Mirror a local folder to an FS5 directory and back (Node.js only)
+ *
+ * Changes are detected by comparing BLAKE3 hashes of local files with the
+ * hashes stored in the remote FileRefs. A state file remembers the hashes from
+ * the last run, so deletions can be told apart from new files and edits made
+ * on both sides are detected as conflicts.
+ *
+ * @example
+ * ```typescript
+ * import { FS5Sync } from 's5/node';
+ *
+ * const sync = new FS5Sync(s5.fs, {
+ *   localDir: './project',
+ *   remotePath: 'home/project',
+ *   exclude: ['node_modules/**', '**\/*.log'],
+ * });
+ *
+ * const plan = await sync.sync({ dryRun: true });
+ * console.log(plan.actions);
+ * await sync.sync();
+ * ```
+ */
+
+import { createReadStream } from 'node:fs';
+import { mkdir, readdir, readFile, rename, rm, stat, writeFile } from 'node:fs/promises';
+import { dirname, isAbsolute, join, relative, resolve, sep } from 'node:path';
+import { Readable } from 'node:stream';
+import { TRASH_PATH, type FS5 } from './fs5.js';
+import type { FileRef } from './dirv1/types.js';
+import { globToRegExp } from './utils/glob.js';
+import { base64UrlNoPaddingEncode } from '../util/base64.js';
+import { debug } from '../util/debug.js';
+
+/**
+ * Options for an FS5Sync instance
+ */
+export interface FS5SyncOptions {
+  /** Local folder to sync */
+  localDir: string;
+  /** FS5 directory to sync with (e.g., "home/project") */
+  remotePath: string;
+  /** Glob patterns of relative paths to sync (default: everything) */
+  include?: string[];
+  /** Glob patterns of relative paths to leave alone */
+  exclude?: string[];
+  /** Where to keep the sync state (default: ".s5sync.json" inside localDir) */
+  stateFile?: string;
+}
+
+/**
+ * Options for a single sync run
+ */
+export interface SyncRunOptions {
+  /** Only plan the actions, without changing anything on either side */
+  dryRun?: boolean;
+}
+
+/**
+ * A change applied (or planned, in a dry run) by a sync run
+ */
+export interface SyncAction {
+  type: 'upload' | 'download' | 'delete-remote' | 'delete-local' | 'conflict';
+  /** Path relative to the synced folders */
+  path: string;
+  /** For conflicts: where the local version was saved on both sides */
+  conflictPath?: string;
+}
+
+/**
+ * Result of a sync run
+ */
+export interface SyncResult {
+  actions: SyncAction[];
+  /** Actions that failed, they are retried on the next run */
+  errors: Array<{ path: string; error: Error }>;
+  dryRun: boolean;
+}
+
+/**
+ * Persisted state: hashes of the files as they were after the last run
+ */
+interface SyncState {
+  version: 1;
+  remotePath: string;
+  files: Record<string, { hash: string; size: number; mtimeMs: number }>;
+}
+
+interface LocalFile {
+  hash: string;
+  size: number;
+  mtimeMs: number;
+}
+
+interface RemoteFile {
+  /** BLAKE3 hash of the plaintext */
+  hash: string;
+  /** FileRef.hash, used for conditional writes */
+  refHash: Uint8Array;
+}
+
+type SyncDirection = 'push' | 'pull' | 'both';
+
+/**
+ * Sync engine between a local folder and an FS5 directory
+ */
+export class FS5Sync {
+  private fs5: FS5;
+  private localDir: string;
+  private remotePath: string;
+  private stateFile: string;
+  private include?: RegExp[];
+  private exclude: RegExp[];
+
+  /**
+   * Create an FS5Sync instance
+   *
+   * @param fs5 - The FS5 instance to sync with
+   * @param options - Folders, filters and state file location
+   */
+  constructor(fs5: FS5, options: FS5SyncOptions) {
+    if (!fs5) {
+      throw new Error('FS5 instance is required');
+    }
+    this.fs5 = fs5;
+    this.localDir = resolve(options.localDir);
+    this.remotePath = options.remotePath.replace(/^\/+|\/+$/g, '');
+    this.stateFile = resolve(options.stateFile ?? join(options.localDir, '.s5sync.json'));
+    this.include = options.include?.map(globToRegExp);
+    this.exclude = (options.exclude ?? []).map(globToRegExp);
+  }
+
+  /**
+   * Make the remote directory match the local folder. Files deleted locally
+   * since the last run are deleted remotely, remote-only files are kept.
+   */
+  async push(options: SyncRunOptions = {}): Promise<SyncResult> {
+    return this._run('push', options);
+  }
+
+  /**
+   * Make the local folder match the remote directory. Files deleted remotely
+   * since the last run are deleted locally, local-only files are kept.
+   */
+  async pull(options: SyncRunOptions = {}): Promise<SyncResult> {
+    return this._run('pull', options);
+  }
+
+  /**
+   * Two-way sync: changes on either side are copied to the other. When a file
+   * changed on both sides, the remote version stays at its path and the local
+   * version is saved next to it as a conflict copy on both sides.
+   */
+  async sync(options: SyncRunOptions = {}): Promise<SyncResult> {
+    return this._run('both', options);
+  }
+
+  private async _run(direction: SyncDirection, options: SyncRunOptions): Promise<SyncResult> {
+    const state = await this._loadState();
+    const local = await this._scanLocal(state);
+    const remote = await this._scanRemote();
+    const dryRun = options.dryRun ?? false;
+    const result: SyncResult = { actions: [], errors: [], dryRun };
+
+    const paths = new Set([...local.keys(), ...remote.keys(), ...Object.keys(state.files)]);
+    for (const path of [...paths].sort()) {
+      if (!this._isIncluded(path)) {
+        continue;
+      }
+      // Remote entry names come from whoever can write the directory
+      if (!this._isSafePath(path)) {
+        result.errors.push({ path, error: new Error(`Unsafe path: ${path}`) });
+        continue;
+      }
+      const action = this._planAction(
+        direction,
+        path,
+        local.get(path)?.hash,
+        remote.get(path)?.hash,
+        state.files[path]?.hash
+      );
+
+      if (!action) {
+        // Both sides agree, remember them as the new base
+        const file = local.get(path);
+        if (file && remote.has(path)) {
+          state.files[path] = file;
+        } else if (!local.has(path) && !remote.has(path)) {
+          delete state.files[path];
+        }
+        continue;
+      }
+
+      if (action.type === 'conflict') {
+        action.conflictPath = this._conflictPath(path);
+      }
+      result.actions.push(action);
+      if (dryRun) {
+        continue;
+      }
+
+      try {
+        await this._apply(action, local.get(path), remote.get(path), state);
+      } catch (e) {
+        result.errors.push({ path, error: e instanceof Error ? e : new Error(String(e)) });
+      }
+    }
+
+    debug.fs5(' Sync complete', {
+      direction: direction,
+      localDir: this.localDir,
+      remotePath: this.remotePath,
+      actions: result.actions.length,
+      errors: result.errors.length,
+      dryRun: dryRun
+    });
+
+    if (!dryRun) {
+      await this._saveState(state);
+    }
+    return result;
+  }
+
+  /**
+   * Decide what to do with a path from the local, remote and last synced hashes
+   */
+  private _planAction(
+    direction: SyncDirection,
+    path: string,
+    localHash: string | undefined,
+    remoteHash: string | undefined,
+    baseHash: string | undefined
+  ): SyncAction | undefined {
+    if (localHash === remoteHash) {
+      return undefined;
+    }
+
+    const pushChange = (): SyncAction | undefined =>
+      localHash !== undefined
+        ? { type: 'upload', path }
+        : baseHash !== undefined
+          ? { type: 'delete-remote', path }
+          : undefined;
+    const pullChange = (): SyncAction | undefined =>
+      remoteHash !== undefined
+        ? { type: 'download', path }
+        : baseHash !== undefined
+          ? { type: 'delete-local', path }
+          : undefined;
+
+    if (direction === 'push') {
+      return pushChange();
+    }
+    if (direction === 'pull') {
+      return pullChange();
+    }
+
+    if (remoteHash === baseHash) {
+      return pushChange();
+    }
+    if (localHash === baseHash) {
+      return pullChange();
+    }
+    // Changed on both sides: an edit wins over a deletion
+    if (localHash === undefined) {
+      return { type: 'download', path };
+    }
+    if (remoteHash === undefined) {
+      return { type: 'upload', path };
+    }
+    return { type: 'conflict', path };
+  }
+
+  private async _apply(
+    action: SyncAction,
+    local: LocalFile | undefined,
+    remote: RemoteFile | undefined,
+    state: SyncState
+  ): Promise<void> {
+    const { path } = action;
+    switch (action.type) {
+      case 'upload': {
+        // Conditional, so a remote change made during the run isn't overwritten
+        await this.fs5.putStream(this._remoteFilePath(path), this._readLocalFile(path), {
+          ...(remote ? { ifMatch: remote.refHash } : { ifNoneMatch: '*' as const }),
+        });
+        state.files[path] = local!;
+        break;
+      }
+      case 'download': {
+        state.files[path] = await this._download(path);
+        break;
+      }
+      case 'delete-remote': {
+        if (remote) {
+          await this.fs5.delete(this._remoteFilePath(path), { ifMatch: remote.refHash });
+        }
+        delete state.files[path];
+        break;
+      }
+      case 'delete-local': {
+        await rm(this._localFilePath(path), { force: true });
+        delete state.files[path];
+        break;
+      }
+      case 'conflict': {
+        const conflictPath = action.conflictPath!;
+        await rename(this._localFilePath(path), this._localFilePath(conflictPath));
+        await this.fs5.putStream(
+          this._remoteFilePath(conflictPath),
+          this._readLocalFile(conflictPath),
+          { ifNoneMatch: '*' }
+        );
+        state.files[conflictPath] = {
+          ...local!,
+          mtimeMs: (await stat(this._localFilePath(conflictPath))).mtimeMs,
+        };
+        state.files[path] = await this._download(path);
+        break;
+      }
+    }
+  }
+
+  /**
+   * Download a remote file into the local folder
+   * @returns State entry for the written file
+   */
+  private async _download(path: string): Promise<LocalFile> {
+    const data = await this.fs5.getBytes(this._remoteFilePath(path));
+    if (data === undefined) {
+      throw new Error(`Path not found: ${this._remoteFilePath(path)}`);
+    }
+    const localPath = this._localFilePath(path);
+    await mkdir(dirname(localPath), { recursive: true });
+    await writeFile(localPath, data);
+    const info = await stat(localPath);
+    return {
+      hash: base64UrlNoPaddingEncode(await this.fs5.api.crypto.hashBlake3(data)),
+      size: info.size,
+      mtimeMs: info.mtimeMs,
+    };
+  }
+
+  /**
+   * List and hash the local files. Files whose size and modification time
+   * match the state are not read again.
+   */
+  private async _scanLocal(state: SyncState): Promise<Map<string, LocalFile>> {
+    const files = new Map<string, LocalFile>();
+    const walk = async (dir: string): Promise<void> => {
+      let entries;
+      try {
+        entries = await readdir(dir, { withFileTypes: true });
+      } catch (e: any) {
+        if (e?.code === 'ENOENT') {
+          return;
+        }
+        throw e;
+      }
+      for (const entry of entries) {
+        const fullPath = join(dir, entry.name);
+        if (entry.isDirectory()) {
+          await walk(fullPath);
+          continue;
+        }
+        if (!entry.isFile() || fullPath === this.stateFile) {
+          continue;
+        }
+        const path = relative(this.localDir, fullPath).split(sep).join('/');
+        if (!this._isIncluded(path)) {
+          continue;
+        }
+        const info = await stat(fullPath);
+        const known = state.files[path];
+        files.set(path, {
+          hash:
+            known && known.size === info.size && known.mtimeMs === info.mtimeMs
+              ? known.hash
+              : await this._hashLocalFile(fullPath),
+          size: info.size,
+          mtimeMs: info.mtimeMs,
+        });
+      }
+    };
+    await walk(this.localDir);
+    return files;
+  }
+
+  private async _hashLocalFile(path: string): Promise<string> {
+    const hasher = this.fs5.api.crypto.newHasherBlake3();
+    for await (const chunk of createReadStream(path)) {
+      hasher.update(chunk);
+    }
+    return base64UrlNoPaddingEncode(hasher.digest());
+  }
+
+  /**
+   * List the remote files with the BLAKE3 hash of their plaintext
+   */
+  private async _scanRemote(): Promise<Map<string, RemoteFile>> {
+    const files = new Map<string, RemoteFile>();
+    if ((await this.fs5.getMetadata(this.remotePath)) === undefined) {
+      return files;
+    }
+    for await (const result of this.fs5.find(this.remotePath)) {
+      const path = result.path.substring(this.remotePath.length + 1);
+      if (this._isIncluded(path)) {
+        files.set(path, {
+          hash: base64UrlNoPaddingEncode(this._plaintextHash(result.fileRef)),
+          refHash: result.fileRef.hash,
+        });
+      }
+    }
+    return files;
+  }
+
+  /**
+   * FileRef.hash is the hash of the ciphertext for encrypted files, the
+   * plaintext hash is kept in the encryption metadata
+   */
+  private _plaintextHash(fileRef: FileRef): Uint8Array {
+    const encryption = fileRef.extra?.get('encryption');
+    const plaintextHash =
+      encryption instanceof Map ? encryption.get('plaintextHash') : encryption?.plaintextHash;
+    return plaintextHash ? new Uint8Array(plaintextHash) : fileRef.hash;
+  }
+
+  private async _loadState(): Promise<SyncState> {
+    let json: string;
+    try {
+      json = await readFile(this.stateFile, 'utf8');
+    } catch (e: any) {
+      if (e?.code === 'ENOENT') {
+        return { version: 1, remotePath: this.remotePath, files: {} };
+      }
+      throw e;
+    }
+    const state = JSON.parse(json) as SyncState;
+    if (state.version !== 1 || typeof state.files !== 'object') {
+      throw new Error(`Invalid sync state file: ${this.stateFile}`);
+    }
+    if (state.remotePath !== this.remotePath) {
+      throw new Error(
+        `Sync state file ${this.stateFile} belongs to ${state.remotePath}, not ${this.remotePath}`
+      );
+    }
+    return state;
+  }
+
+  private async _saveState(state: SyncState): Promise<void> {
+    await mkdir(dirname(this.stateFile), { recursive: true });
+    await writeFile(this.stateFile, JSON.stringify(state, null, 2));
+  }
+
+  private _isIncluded(path: string): boolean {
+    // Soft-deleted files stay in the trash, unless the trash itself is synced
+    if (
+      this._remoteFilePath(path).startsWith(`${TRASH_PATH}/`) &&
+      !`${this.remotePath}/`.startsWith(`${TRASH_PATH}/`)
+    ) {
+      return false;
+    }
+    if (this.include && !this.include.some((pattern) => pattern.test(path))) {
+      return false;
+    }
+    return !this.exclude.some((pattern) => pattern.test(path));
+  }
+
+  /**
+   * Name for the local version of a conflicting file, e.g.
+   * "notes.conflict-2024-06-15T12-00-00-000Z.txt"
+   */
+  private _conflictPath(path: string): string {
+    const stamp = new Date().toISOString().replace(/[:.]/g, '-');
+    const slash = path.lastIndexOf('/');
+    const dot = path.lastIndexOf('.');
+    return dot > slash + 1
+      ? `${path.substring(0, dot)}.conflict-${stamp}${path.substring(dot)}`
+      : `${path}.conflict-${stamp}`;
+  }
+
+  /**
+   * Whether a relative path only has plain names, without "", "." or ".." segments
+   */
+  private _isSafePath(path: string): boolean {
+    return path.split('/').every((segment) => segment !== '' && segment !== '.' && segment !== '..');
+  }
+
+  private _localFilePath(path: string): string {
+    const localPath = resolve(this.localDir, ...path.split('/'));
+    const rel = relative(this.localDir, localPath);
+    if (rel === '' || rel === '..' || rel.startsWith(`..${sep}`) || isAbsolute(rel)) {
+      throw new Error(`Path is outside the local folder: ${path}`);
+    }
+    return localPath;
+  }
+
+  private _readLocalFile(path: string): ReadableStream<Uint8Array> {
+    return Readable.toWeb(createReadStream(this._localFilePath(path))) as ReadableStream<Uint8Array>;
+  }
+
+  private _remoteFilePath(path: string): string {
+    return `${this.remotePath}/${path}`;
+  }
+}
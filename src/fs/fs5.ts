@@ -11,7 +11,7 @@ import { S5UserIdentity } from "../identity/identity.js";
 import { createRegistryEntry, RegistryEntry } from "../registry/entry.js";
 import { base64UrlNoPaddingEncode } from "../util/base64.js";
 import { deriveHashInt, deriveHashString } from "../util/derive_hash.js";
-import { DirV1, FileRef, DirRef, DirLink } from "./dirv1/types.js";
+import { DirV1, FileRef, DirRef, DirLink, VersionInfo, WatchEvent, WatchOptions } from "./dirv1/types.js";
 import { DirV1Serialiser } from "./dirv1/serialisation.js";
 import { concatBytes } from "@noble/hashes/utils";
 import { encodeLittleEndian } from "../util/little_endian.js";
@@ -23,11 +23,37 @@ import {
   GetOptions,
   ListOptions,
   CursorData,
+  FileEncoding,
+  DeleteOptions,
+  DirectoryTransaction,
+  FindQuery,
+  FindResult,
+  DiffEntry,
+  DiskUsage,
+  DiskUsageOptions,
+  DiskUsageTotals,
+  FS5Options,
+  TrashEntry,
+  EmptyTrashOptions,
+  ShareLinkOptions,
+  RotateKeysOptions,
+  DirectoryPolicy,
 } from "./dirv1/types.js";
+import { PreconditionFailedError } from "./errors.js";
 import { encodeS5, decodeS5 } from "./dirv1/cbor-config.js";
 import { base64UrlNoPaddingDecode } from "../util/base64.js";
 import { HAMT } from "./hamt/hamt.js";
 import { AsyncMutex } from "../util/async-mutex.js";
+import { areArraysEqual } from "../util/arrays.js";
+import { fixedSizeChunks, tapStream } from "../util/stream.js";
+import {
+  BAO_CHUNK_GROUP_SIZE,
+  BaoOutboardBuilder,
+  BaoVerifier,
+  createBaoOutboard,
+} from "../util/bao.js";
+import { globToRegExp } from "./utils/glob.js";
+import { SharedDirectory } from "./shared-directory.js";
 
 // Media type mappings
 const MEDIA_TYPE_MAP: Record<string, string> = {
@@ -85,9 +111,63 @@ const CID_TYPE_ENCRYPTED_MUTABLE = 0x5e;
 
 const ENCRYPTION_ALGORITHM_XCHACHA20POLY1305 = 0xa6;
 
+// DirRef.extra key holding the write key of a moved directory, encrypted for its parent
+const DIR_REF_EXTRA_WRAPPED_WRITE_KEY = "wrapped_write_key";
+const WRAPPED_WRITE_KEY_TWEAK = 0x77;
+
+// DirRef.extra key marking a foreign directory mounted with mount(), holds a
+// map with the directory's "encryption_key" if it has one
+const DIR_REF_EXTRA_MOUNT = "mount";
+
+// DirRef.extra key holding the key a directory's DirV1 blobs are encrypted
+// with, set by rotateKeys(). It is encrypted with the parent's encryption key,
+// or with its write key if the parent isn't encrypted.
+const DIR_REF_EXTRA_WRAPPED_ENCRYPTION_KEY = "wrapped_encryption_key";
+const WRAPPED_ENCRYPTION_KEY_TWEAK = 0x6b;
+
+// FileRef.extra / DirRef.extra key holding user attributes, kept apart from
+// reserved keys like "encryption" so callers can't overwrite them
+const EXTRA_ATTRIBUTES_KEY = "xattrs";
+
+// FileRef.extra key recording how put() encoded the file contents
+const EXTRA_ENCODING_KEY = "encoding";
+
+// FileRef.extra key holding the hash of the stored blob's Bao outboard, see util/bao.ts
+const EXTRA_OUTBOARD_KEY = "bao";
+
+// Chunk groups fetched per range request when downloading a blob with an outboard
+const BAO_GROUPS_PER_REQUEST = 16;
+
+// DirRef.extra key caching the result of du() for the directory, see _getCachedDiskUsage
+const DIR_REF_EXTRA_DISK_USAGE = "du";
+
+// Soft-deleted entries are moved here, named by their trash id
+export const TRASH_PATH = "home/.trash";
+// FileRef.extra / DirRef.extra key recording the original path and deletion time of a trashed entry
+const EXTRA_TRASH_KEY = "trash";
+
+// Resolver registry keys are derived from the child key at the same name plus this tweak
+const RESOLVER_WRITE_KEY_TWEAK = 0x72;
+// Maximum number of resolver links followed before giving up (guards against loops)
+const MAX_RESOLVER_HOPS = 8;
+
+interface DirectoryEntry {
+  name: string;
+  type: "file" | "directory";
+  ref: FileRef | DirRef;
+}
+
+// Registry entry of a directory copied by rotateKeys(), checked before the copy replaces it
+interface RotatedDirectorySource {
+  path: string;
+  publicKey: Uint8Array;
+  revision?: number;
+}
+
 type DirectoryTransactionFunction = (
   dir: DirV1,
-  writeKey: Uint8Array
+  writeKey: Uint8Array,
+  ks: KeySet
 ) => Promise<DirV1 | undefined>;
 
 // Helper function to get media type from file extension
@@ -110,6 +190,34 @@ function normalizePath(path: string): string {
   return path;
 }
 
+/**
+ * Build the fs5:// URI of a directory, as used for share links and views
+ * @param publicKey Public key of the directory (with multicodec prefix byte)
+ * @param encryptionKey Encryption key, if the directory is encrypted
+ * @param writeKey Write key, if the URI should allow changes
+ * @returns The fs5:// URI
+ */
+export function buildDirectoryURI(
+  publicKey: Uint8Array,
+  encryptionKey?: Uint8Array,
+  writeKey?: Uint8Array
+): string {
+  const cid = encryptionKey
+    ? new Uint8Array([
+        CID_TYPE_FS5_DIRECTORY,
+        CID_TYPE_ENCRYPTED_MUTABLE,
+        ENCRYPTION_ALGORITHM_XCHACHA20POLY1305,
+        ...encryptionKey,
+        ...publicKey,
+      ])
+    : new Uint8Array([CID_TYPE_FS5_DIRECTORY, ...publicKey]);
+  const host = base32.encode(cid).replace(/=/g, "").toLowerCase();
+  if (!writeKey) {
+    return `fs5://${host}`;
+  }
+  return `fs5://write:u${base64UrlNoPaddingEncode(new Uint8Array([0x00, ...writeKey]))}@${host}`;
+}
+
 // Helper function to convert Map to plain object recursively
 function mapToObject(value: any): any {
   if (value instanceof Map) {
@@ -140,10 +248,25 @@ export class FS5 {
   readonly api: S5APIInterface;
   readonly identity?: S5UserIdentity;
   private readonly directoryLocks = new AsyncMutex();
-
-  constructor(api: S5APIInterface, identity?: S5UserIdentity) {
+  /** HAMTs of directories changed in a batch, uploaded once when the batch ends */
+  private readonly batchedHamts = new WeakMap<DirV1, { hamt?: HAMT; dirty: boolean }>();
+
+  /** Whether delete() moves entries to home/.trash unless called with `soft: false` */
+  softDelete: boolean;
+  /** Trash entries older than this many milliseconds are removed on every soft delete */
+  trashRetention?: number;
+  /** Whether put() stores a Bao outboard for files larger than one chunk group */
+  outboard: boolean;
+  /** Set for views of a single directory, paths are relative to this fs5:// URI */
+  private readonly rootURI?: string;
+
+  constructor(api: S5APIInterface, identity?: S5UserIdentity, options: FS5Options = {}) {
     this.api = api;
     this.identity = identity;
+    this.softDelete = options.softDelete ?? false;
+    this.trashRetention = options.trashRetention;
+    this.outboard = options.outboard ?? false;
+    this.rootURI = options.root;
   }
 
   // Phase 2: Path-based API methods
@@ -184,31 +307,7 @@ export class FS5 {
       return undefined;
     }
 
-    // Check if file is encrypted
-    let data: Uint8Array;
-    if (fileRef.extra && fileRef.extra.has('encryption')) {
-      const encryptionMeta = fileRef.extra.get('encryption');
-      // encryptionMeta is a Map after CBOR deserialization
-      const algorithm = encryptionMeta instanceof Map ? encryptionMeta.get('algorithm') : encryptionMeta?.algorithm;
-      if (algorithm === 'xchacha20-poly1305') {
-        // Convert array back to Uint8Array
-        const keyData = encryptionMeta instanceof Map ? encryptionMeta.get('key') : encryptionMeta.key;
-        const encryptionKey = new Uint8Array(keyData);
-        // Download and decrypt
-        data = await this.downloadAndDecryptBlob(
-          fileRef.hash,
-          encryptionKey,
-          Number(fileRef.size)
-        );
-      } else {
-        throw new Error(`Unsupported encryption algorithm: ${algorithm}`);
-      }
-    } else {
-      // Download unencrypted file data
-      data = await this.api.downloadBlobAsBytes(
-        new Uint8Array([MULTIHASH_BLAKE3, ...fileRef.hash])
-      );
-    }
+    const data = await this._downloadFileData(fileRef);
 
     debug.fs5(' Download complete', {
       path: path,
@@ -217,60 +316,8 @@ export class FS5 {
       encrypted: !!(fileRef.extra?.has && fileRef.extra.has('encryption'))
     });
 
-    // Check if this is binary data based on media type
-    const isBinaryType =
-      fileRef.media_type &&
-      (fileRef.media_type === "application/octet-stream" ||
-        fileRef.media_type.startsWith("image/") ||
-        fileRef.media_type.startsWith("audio/") ||
-        fileRef.media_type.startsWith("video/") ||
-        fileRef.media_type === "application/zip" ||
-        fileRef.media_type === "application/gzip" ||
-        fileRef.media_type === "application/x-tar" ||
-        fileRef.media_type === "application/x-7z-compressed" ||
-        fileRef.media_type === "application/pdf" ||
-        fileRef.media_type === "application/x-msdownload");
-
-    // If it's marked as binary, return as-is
-    if (isBinaryType) {
-      return data;
-    }
-
-    // Try to decode the data
     try {
-      // First try CBOR
-      const decoded = decodeS5(data);
-      // Convert Map to plain object if needed
-      return mapToObject(decoded);
-    } catch {
-      // If CBOR fails, try JSON
-      try {
-        const text = new TextDecoder().decode(data);
-        return JSON.parse(text);
-      } catch {
-        // If JSON fails, check if it's valid UTF-8 text
-        try {
-          const text = new TextDecoder("utf-8", { fatal: true }).decode(data);
-          // Additional check: if the text contains control characters (except tab/newline), treat as binary
-          let hasControlChars = false;
-          for (let i = 0; i < text.length; i++) {
-            const code = text.charCodeAt(i);
-            if (code < 32 && code !== 9 && code !== 10 && code !== 13) {
-              hasControlChars = true;
-              break;
-            }
-          }
-
-          if (hasControlChars) {
-            return data; // Return as binary
-          }
-
-          return text;
-        } catch {
-          // Otherwise return as binary
-          return data;
-        }
-      }
+      return this._decodeFileData(data, fileRef);
     } finally {
       const duration = performance.now() - startTime;
       debug.fs5(' Performance: GET operation', {
@@ -282,6 +329,152 @@ export class FS5 {
     }
   }
 
+  /**
+   * Read a byte range of a file without downloading the whole blob. For
+   * encrypted files only the chunks covering the range are fetched and decrypted.
+   * @param path Path to the file (e.g., "home/video.mp4")
+   * @param offset Offset of the first byte to read
+   * @param length Number of bytes to read (defaults to the rest of the file)
+   * @returns The requested bytes (shorter if the range extends past the end) or undefined if not found
+   */
+  public async getRange(
+    path: string,
+    offset: number,
+    length?: number
+  ): Promise<Uint8Array | undefined> {
+    path = normalizePath(path);
+    if (!Number.isInteger(offset) || offset < 0) {
+      throw new Error(`Invalid range offset: ${offset}`);
+    }
+    if (length !== undefined && (!Number.isInteger(length) || length < 0)) {
+      throw new Error(`Invalid range length: ${length}`);
+    }
+
+    const fileRef = await this._getFileRefAtPath(path);
+    if (!fileRef) {
+      return undefined;
+    }
+
+    const size = Number(fileRef.size);
+    const start = Math.min(offset, size);
+    const end = length === undefined ? size : Math.min(size, start + length);
+    debug.fs5(' Path API: GET RANGE', {
+      path: path,
+      start: start,
+      end: end,
+      size: size
+    });
+    if (end <= start) {
+      return new Uint8Array(0);
+    }
+
+    const encryptionMeta = fileRef.extra?.get('encryption');
+    if (!encryptionMeta) {
+      return this._downloadStoredBlob(fileRef, start, end - start);
+    }
+
+    const algorithm = encryptionMeta instanceof Map ? encryptionMeta.get('algorithm') : encryptionMeta.algorithm;
+    if (algorithm !== 'xchacha20-poly1305') {
+      throw new Error(`Unsupported encryption algorithm: ${algorithm}`);
+    }
+    const keyData = encryptionMeta instanceof Map ? encryptionMeta.get('key') : encryptionMeta.key;
+    const encryptionKey = new Uint8Array(keyData);
+
+    // Each 256 KiB plaintext chunk is stored as an independent ciphertext with a 16 byte tag
+    const maxChunkSize = 262144; // 256 KiB
+    const encryptedChunkSize = maxChunkSize + 16;
+    const firstChunk = Math.floor(start / maxChunkSize);
+    const lastChunk = Math.floor((end - 1) / maxChunkSize);
+    const encryptedStart = firstChunk * encryptedChunkSize;
+    const encryptedEnd =
+      lastChunk * encryptedChunkSize +
+      Math.min(maxChunkSize, size - lastChunk * maxChunkSize) +
+      16;
+
+    const encryptedData = await this._downloadStoredBlob(
+      fileRef,
+      encryptedStart,
+      encryptedEnd - encryptedStart
+    );
+
+    const plaintext = new Uint8Array((lastChunk - firstChunk + 1) * maxChunkSize);
+    let plaintextLength = 0;
+    for (let chunkIndex = firstChunk; chunkIndex <= lastChunk; chunkIndex++) {
+      const chunkStart = (chunkIndex - firstChunk) * encryptedChunkSize;
+      const decrypted = await this.api.crypto.decryptXChaCha20Poly1305(
+        encryptionKey,
+        encodeLittleEndian(chunkIndex, 24),
+        encryptedData.subarray(chunkStart, chunkStart + encryptedChunkSize)
+      );
+      plaintext.set(decrypted, plaintextLength);
+      plaintextLength += decrypted.length;
+    }
+
+    const rangeStart = start - firstChunk * maxChunkSize;
+    return plaintext.slice(rangeStart, rangeStart + (end - start));
+  }
+
+  /**
+   * Get the raw bytes of a file without decoding them
+   * @param path Path to the file (e.g., "home/photo.jpg")
+   * @returns The file contents or undefined if not found
+   */
+  public async getBytes(path: string): Promise<Uint8Array | undefined> {
+    const fileRef = await this._getFileRefAtPath(path);
+    if (!fileRef) {
+      return undefined;
+    }
+    return this._downloadFileData(fileRef);
+  }
+
+  /**
+   * Get the contents of a file as UTF-8 text
+   * @param path Path to the file (e.g., "home/notes.md")
+   * @returns The text or undefined if not found
+   */
+  public async getText(path: string): Promise<string | undefined> {
+    const data = await this.getBytes(path);
+    if (data === undefined) {
+      return undefined;
+    }
+    return new TextDecoder().decode(data);
+  }
+
+  /**
+   * Get the contents of a file parsed as JSON
+   * @param path Path to the file (e.g., "home/config.json")
+   * @returns The parsed value or undefined if not found
+   */
+  public async getJSON(path: string): Promise<any | undefined> {
+    const fileRef = await this._getFileRefAtPath(path);
+    if (!fileRef) {
+      return undefined;
+    }
+    if (this._getFileEncoding(fileRef) === "cbor") {
+      throw new Error(`File is stored as CBOR, not JSON: ${path}`);
+    }
+    const data = await this._downloadFileData(fileRef);
+    return JSON.parse(new TextDecoder().decode(data));
+  }
+
+  /**
+   * Get the contents of a file decoded as CBOR, with maps converted to plain objects
+   * @param path Path to the file (e.g., "home/state.cbor")
+   * @returns The decoded value or undefined if not found
+   */
+  public async getCBOR(path: string): Promise<any | undefined> {
+    const fileRef = await this._getFileRefAtPath(path);
+    if (!fileRef) {
+      return undefined;
+    }
+    const encoding = this._getFileEncoding(fileRef);
+    if (encoding === "text" || encoding === "json") {
+      throw new Error(`File is stored as ${encoding}, not CBOR: ${path}`);
+    }
+    const data = await this._downloadFileData(fileRef);
+    return mapToObject(decodeS5(data));
+  }
+
   /**
    * Store data at the specified path
    * @param path Path where to store the data (e.g., "home/file.txt")
@@ -307,6 +500,81 @@ export class FS5 {
     const dirPath = segments.slice(0, -1).join("/") || "";
     dbg('FS5', 'put', 'Path parsed', { fileName, dirPath, segments });
 
+    const { encodedData, mediaType, encoding } = this._encodeFileData(
+      path,
+      data,
+      options?.mediaType
+    );
+
+    debug.fs5(' Path API: PUT', {
+      path: path,
+      dataType: data instanceof Uint8Array ? 'binary' : typeof data,
+      size: encodedData.length,
+      mediaType: mediaType,
+      willEncrypt: !!options?.encryption
+    });
+
+    await this._putEncoded(path, encodedData, mediaType, encoding, options, startTime);
+  }
+
+  /**
+   * Store text at the specified path
+   * @param path Path where to store the text (e.g., "home/notes.md")
+   * @param text Text to store, encoded as UTF-8
+   * @param options Optional parameters like mediaType (defaults to the extension or text/plain)
+   */
+  public async putText(
+    path: string,
+    text: string,
+    options?: PutOptions
+  ): Promise<void> {
+    path = normalizePath(path);
+    const mediaType =
+      options?.mediaType ||
+      getMediaTypeFromExtension(path.split("/").pop() ?? "") ||
+      "text/plain";
+    await this._putEncoded(path, new TextEncoder().encode(text), mediaType, "text", options);
+  }
+
+  /**
+   * Store a value as JSON text at the specified path
+   * @param path Path where to store the JSON (e.g., "home/config.json")
+   * @param value Value to serialize with JSON.stringify
+   * @param options Optional parameters like mediaType (defaults to application/json)
+   */
+  public async putJSON(
+    path: string,
+    value: any,
+    options?: PutOptions
+  ): Promise<void> {
+    const json = JSON.stringify(value);
+    if (json === undefined) {
+      throw new Error("Value cannot be serialized as JSON");
+    }
+    await this._putEncoded(
+      normalizePath(path),
+      new TextEncoder().encode(json),
+      options?.mediaType || "application/json",
+      "json",
+      options
+    );
+  }
+
+  /**
+   * Encode a value passed to put(): bytes as-is, strings as UTF-8 and other
+   * values as CBOR
+   * @param path Normalized path of the file, used for the default media type
+   * @param data The data to store
+   * @param mediaType Media type given by the caller
+   * @returns The encoded bytes with their media type and encoding
+   */
+  private _encodeFileData(
+    path: string,
+    data: any,
+    mediaType?: string
+  ): { encodedData: Uint8Array; mediaType: string; encoding: FileEncoding } {
+    const fileName = path.split("/").pop() ?? "";
+
     // Handle null/undefined data
     if (data === null || data === undefined) {
       data = "";
@@ -314,10 +582,11 @@ export class FS5 {
 
     // Encode the data
     let encodedData: Uint8Array;
-    let mediaType = options?.mediaType;
+    let encoding: FileEncoding;
 
     if (data instanceof Uint8Array) {
       encodedData = data;
+      encoding = "bytes";
       mediaType =
         mediaType ||
         getMediaTypeFromExtension(fileName) ||
@@ -330,6 +599,7 @@ export class FS5 {
       });
     } else if (typeof data === "string") {
       encodedData = new TextEncoder().encode(data);
+      encoding = "text";
       mediaType =
         mediaType || getMediaTypeFromExtension(fileName) || "text/plain";
       debug.fs5(' Text data detected', {
@@ -341,6 +611,7 @@ export class FS5 {
     } else {
       // Use CBOR for objects
       encodedData = encodeS5(data);
+      encoding = "cbor";
       mediaType =
         mediaType || getMediaTypeFromExtension(fileName) || "application/cbor";
       debug.fs5(' Object data detected', {
@@ -352,19 +623,129 @@ export class FS5 {
       });
     }
 
-    debug.fs5(' Path API: PUT', {
+    return { encodedData, mediaType, encoding };
+  }
+
+  /**
+   * Upload encoded file contents and link them at the specified path
+   * @param path Normalized path of the file
+   * @param encodedData File contents
+   * @param mediaType Media type to record
+   * @param encoding Encoding to record, used by get() to decode the contents
+   * @param options Put options
+   * @param startTime Start of the operation, for performance logging
+   */
+  private async _putEncoded(
+    path: string,
+    encodedData: Uint8Array,
+    mediaType: string,
+    encoding: FileEncoding,
+    options?: PutOptions,
+    startTime: number = performance.now()
+  ): Promise<void> {
+    const segments = path.split("/").filter((s) => s);
+    if (segments.length === 0) {
+      throw new Error("Cannot put data at root directory");
+    }
+    const fileName = segments[segments.length - 1];
+    const dirPath = segments.slice(0, -1).join("/") || "";
+
+    options = this._withDirectoryPolicy(await this._resolveDirectoryPolicy(dirPath), options);
+    const fileRef = await this._uploadFileData(
+      path,
+      encodedData,
+      mediaType,
+      encoding,
+      options
+    );
+    const size = Number(fileRef.size);
+
+    // Update the parent directory
+    await this._updateDirectory(dirPath, async (dir) => {
+      const previous = await this._getFileFromDirectory(dir, fileName);
+      this._checkPreconditions(path, previous, options);
+      this._inheritFromReplacedFile(fileRef, previous, options);
+      await this._setEntryInDirectory(dir, fileName, "file", fileRef);
+      return dir;
+    });
+
+    const duration = performance.now() - startTime;
+    debug.fs5(' Performance: PUT operation', {
       path: path,
-      dataType: data instanceof Uint8Array ? 'binary' : typeof data,
-      size: encodedData.length,
-      mediaType: mediaType,
-      willEncrypt: !!options?.encryption
+      duration: duration.toFixed(2) + 'ms',
+      size: size,
+      throughput: ((size / 1024) / (duration / 1000)).toFixed(2) + ' KB/s'
     });
+  }
+
+  /**
+   * Find the policy for a directory, the nearest directory that sets a value
+   * wins. The path is walked down once from the root, each directory is loaded
+   * with the key set derived from its parent, and the walk stops at the first
+   * directory that doesn't exist yet. Any other failure to load one is thrown
+   * instead of writing without its policy.
+   * @param dirPath Normalized directory path
+   */
+  private async _resolveDirectoryPolicy(dirPath: string): Promise<DirectoryPolicy> {
+    const segments = dirPath.split("/").filter((s) => s);
+    // Only views can set a policy on their root, see setDirectoryPolicy()
+    const minSegments = this.rootURI !== undefined ? 0 : 1;
+
+    const policy: DirectoryPolicy = {};
+    let ks = await this.getKeySet(await this._preprocessLocalPath(""));
+    let dir = await this._loadDirectory("", ks);
+    for (let i = 0; dir; i++) {
+      const encryptFiles = dir.header.policy?.encryptFiles;
+      if (i >= minSegments && encryptFiles !== undefined) {
+        policy.encryptFiles = encryptFiles;
+      }
+      const child =
+        i < segments.length ? await this._getDirectoryFromDirectory(dir, segments[i]) : undefined;
+      if (!child) {
+        break;
+      }
+      ks = await this._getChildKeySet(ks, segments[i], child);
+      dir = await this._loadDirectory(segments.slice(0, i + 1).join("/"), ks);
+    }
+    return policy;
+  }
+
+  /**
+   * Apply a directory policy to the options of a write. Explicit encryption
+   * options are kept, so callers can still choose the key.
+   */
+  private _withDirectoryPolicy(
+    policy: DirectoryPolicy,
+    options?: PutOptions
+  ): PutOptions | undefined {
+    if (!policy.encryptFiles || options?.encryption) {
+      return options;
+    }
+    return { ...options, encryption: { algorithm: "xchacha20-poly1305" } };
+  }
 
+  /**
+   * Upload encoded file contents and build the FileRef pointing to them
+   * @param path Normalized path of the file, for logging
+   * @param encodedData File contents
+   * @param mediaType Media type to record
+   * @param encoding Encoding to record, used by get() to decode the contents
+   * @param options Put options (encryption, timestamp)
+   * @returns FileRef that is not linked into any directory yet
+   */
+  private async _uploadFileData(
+    path: string,
+    encodedData: Uint8Array,
+    mediaType: string,
+    encoding: FileEncoding,
+    options?: PutOptions
+  ): Promise<FileRef> {
     // Upload the blob (with or without encryption)
     const blob = new Blob([encodedData as BlobPart]);
     let hash: Uint8Array;
     let size: number;
     let encryptionMetadata: any = undefined;
+    let storedData = encodedData;
 
     if (options?.encryption) {
       // Upload with encryption - store encrypted blob hash and encryption key
@@ -376,6 +757,7 @@ export class FS5 {
 
       // Store encrypted blob hash (for download) and metadata (for decryption)
       hash = encryptedBlobId.hash;  // This is the encrypted blob's hash
+      storedData = new Uint8Array(await encryptedBlobId.blob.arrayBuffer());
       size = blob.size;  // Original size
       encryptionMetadata = {
         algorithm: 'xchacha20-poly1305',
@@ -407,66 +789,319 @@ export class FS5 {
         : Math.floor(Date.now() / 1000),
     };
 
-    // Store encryption metadata in extra field if encrypted
+    // Store encoding and encryption metadata in extra field
+    fileRef.extra = new Map<string, any>([[EXTRA_ENCODING_KEY, encoding]]);
     if (encryptionMetadata) {
-      fileRef.extra = new Map([['encryption', encryptionMetadata]]);
+      fileRef.extra.set('encryption', encryptionMetadata);
     }
-
-    // Update the parent directory
-    await this._updateDirectory(dirPath, async (dir, writeKey) => {
-      // Create directory if it doesn't exist
-      if (!dir) {
-        // Create an empty directory structure
-        dir = {
-          magic: "S5.pro",
-          header: {},
-          dirs: new Map(),
-          files: new Map(),
-        };
-      }
-
-      // Check if directory is sharded
-      if (dir.header.sharding?.root?.cid) {
-        // Load HAMT, insert, and save
-        const hamtData = await this.api.downloadBlobAsBytes(
-          dir.header.sharding.root.cid
-        );
-        const hamt = await HAMT.deserialise(hamtData, this.api);
-
-        await hamt.insert(`f:${fileName}`, fileRef);
-
-        // Save updated HAMT
-        const newHamtData = hamt.serialise();
-        const { hash } = await this.api.uploadBlob(new Blob([newHamtData as BlobPart]));
-        dir.header.sharding.root.cid = hash;
-        dir.header.sharding.root.totalEntries++;
-      } else {
-        // Regular directory - add file and check if sharding needed
-        dir.files.set(fileName, fileRef);
-
-        // Check if we need to convert to sharded
-        await this._checkAndConvertToSharded(dir);
+    if (options?.outboard ?? this.outboard) {
+      const outboardHash = await this._uploadOutboard(createBaoOutboard(storedData));
+      if (outboardHash) {
+        fileRef.extra.set(EXTRA_OUTBOARD_KEY, outboardHash);
       }
+    }
 
-      return dir;
-    });
-
-    const duration = performance.now() - startTime;
-    debug.fs5(' Performance: PUT operation', {
-      path: path,
-      duration: duration.toFixed(2) + 'ms',
-      size: size,
-      throughput: ((size / 1024) / (duration / 1000)).toFixed(2) + ' KB/s'
-    });
+    return fileRef;
   }
 
   /**
-   * Get metadata for a file or directory at the specified path
-   * @param path Path to the file or directory
-   * @returns Metadata object or undefined if not found
+   * Store a stream of bytes at the specified path without buffering the whole file
+   * @param path Path where to store the data (e.g., "home/video.mp4")
+   * @param stream Source of the file contents
+   * @param options Optional parameters like mediaType and encryption
    */
-  public async getMetadata(
-    path: string
+  public async putStream(
+    path: string,
+    stream: ReadableStream<Uint8Array>,
+    options?: PutOptions
+  ): Promise<void> {
+    path = normalizePath(path);
+    const segments = path.split("/").filter((s) => s);
+
+    if (segments.length === 0) {
+      throw new Error("Cannot put data at root directory");
+    }
+
+    const fileName = segments[segments.length - 1];
+    const dirPath = segments.slice(0, -1).join("/") || "";
+    const mediaType =
+      options?.mediaType ||
+      getMediaTypeFromExtension(fileName) ||
+      "application/octet-stream";
+    options = this._withDirectoryPolicy(await this._resolveDirectoryPolicy(dirPath), options);
+
+    // Size and plaintext hash are tracked as the bytes flow through
+    const plaintextHasher = this.api.crypto.newHasherBlake3();
+    let size = 0;
+    let uploadStream = stream.pipeThrough(
+      tapStream((chunk) => {
+        plaintextHasher.update(chunk);
+        size += chunk.length;
+      })
+    );
+
+    let encryptionKey: Uint8Array | undefined;
+    if (options?.encryption) {
+      // Same chunk layout as _encryptAndUploadBlob so get() and getRange() can decrypt it
+      const key = options.encryption.key || this.api.crypto.generateSecureRandomBytes(32);
+      const crypto = this.api.crypto;
+      let chunkIndex = 0;
+      encryptionKey = key;
+      uploadStream = uploadStream
+        .pipeThrough(fixedSizeChunks(262144))
+        .pipeThrough(
+          new TransformStream<Uint8Array, Uint8Array>({
+            async transform(chunk, controller) {
+              controller.enqueue(
+                await crypto.encryptXChaCha20Poly1305(
+                  key,
+                  encodeLittleEndian(chunkIndex++, 24),
+                  chunk
+                )
+              );
+            },
+          })
+        );
+    }
+
+    // The outboard covers the stored bytes, so it is built after encryption
+    const outboardBuilder = options?.outboard ?? this.outboard ? new BaoOutboardBuilder() : undefined;
+    if (outboardBuilder) {
+      uploadStream = uploadStream.pipeThrough(tapStream((chunk) => outboardBuilder.update(chunk)));
+    }
+
+    const blobId = await this.api.uploadBlobStream(uploadStream);
+
+    debug.fs5(' Streaming upload complete', {
+      path: path,
+      size: size,
+      encrypted: !!encryptionKey,
+    });
+
+    const fileRef: FileRef = {
+      hash: blobId.hash.subarray(1),
+      size: size,
+      media_type: mediaType,
+      timestamp: options?.timestamp
+        ? Math.floor(options.timestamp / 1000)
+        : Math.floor(Date.now() / 1000),
+    };
+
+    fileRef.extra = new Map<string, any>([[EXTRA_ENCODING_KEY, "bytes"]]);
+    if (encryptionKey) {
+      fileRef.extra.set("encryption", {
+        algorithm: "xchacha20-poly1305",
+        key: Array.from(encryptionKey),
+        plaintextHash: Array.from(plaintextHasher.digest()),
+      });
+    }
+    const outboardHash = outboardBuilder && (await this._uploadOutboard(outboardBuilder.finish()));
+    if (outboardHash) {
+      fileRef.extra.set(EXTRA_OUTBOARD_KEY, outboardHash);
+    }
+
+    await this._updateDirectory(dirPath, async (dir) => {
+      const previous = await this._getFileFromDirectory(dir, fileName);
+      this._checkPreconditions(path, previous, options);
+      this._inheritFromReplacedFile(fileRef, previous, options);
+      await this._setEntryInDirectory(dir, fileName, "file", fileRef);
+      return dir;
+    });
+  }
+
+  /**
+   * List the stored versions of a file, newest first. Version 0 is the
+   * current content, older versions come from the FileRef.prev chain.
+   * @param path Path to the file
+   * @returns Version list or undefined if the file doesn't exist
+   */
+  public async listVersions(path: string): Promise<VersionInfo[] | undefined> {
+    const fileRef = await this._getFileRefAtPath(path);
+    if (!fileRef) {
+      return undefined;
+    }
+
+    const versions: VersionInfo[] = [];
+    for (let ref: FileRef | undefined = fileRef; ref; ref = ref.prev) {
+      versions.push({
+        version: versions.length,
+        hash: ref.hash,
+        size: Number(ref.size),
+        mediaType: ref.media_type,
+        timestamp: ref.timestamp ? ref.timestamp * 1000 : undefined,
+      });
+    }
+    return versions;
+  }
+
+  /**
+   * Get the content of a specific version of a file
+   * @param path Path to the file
+   * @param version Version number as returned by listVersions (0 = current)
+   * @returns The decoded data or undefined if the version doesn't exist
+   */
+  public async getVersion(path: string, version: number): Promise<any | undefined> {
+    const fileRef = this._findVersion(await this._getFileRefAtPath(path), version);
+    if (!fileRef) {
+      return undefined;
+    }
+    const data = await this._downloadFileData(fileRef);
+    return this._decodeFileData(data, fileRef);
+  }
+
+  /**
+   * Make an older version the current content of a file. The replaced
+   * content stays in the history, so a restore can itself be undone.
+   * @param path Path to the file
+   * @param version Version number as returned by listVersions
+   */
+  public async restoreVersion(path: string, version: number): Promise<void> {
+    path = normalizePath(path);
+    const segments = path.split("/").filter((s) => s);
+    if (segments.length === 0) {
+      throw new Error(`Path not found: ${path}`);
+    }
+    const fileName = segments[segments.length - 1];
+    const dirPath = segments.slice(0, -1).join("/");
+
+    let found = false;
+    await this._updateDirectory(dirPath, async (dir) => {
+      const current = await this._getFileFromDirectory(dir, fileName);
+      const target = this._findVersion(current, version);
+      if (!current || !target) {
+        return undefined;
+      }
+      found = true;
+      if (target === current) {
+        return undefined;
+      }
+
+      let depth = 0;
+      for (let ref = current.prev; ref; ref = ref.prev) depth++;
+
+      const { prev, ...restored } = target;
+      restored.timestamp = Math.floor(Date.now() / 1000);
+      this._chainPreviousVersions(restored, current, depth);
+      this._setRefAttributes(restored, this._getRefAttributes(current));
+      await this._setEntryInDirectory(dir, fileName, "file", restored);
+      return dir;
+    });
+
+    if (!found) {
+      throw new Error(`Version ${version} not found for ${path}`);
+    }
+  }
+
+  /**
+   * Set extended attributes on a file or directory. The given keys are merged
+   * into the existing attributes and survive later put() overwrites.
+   * @param path Path to the file or directory
+   * @param attrs Attributes to set (any CBOR-encodable values, e.g. tags or checksums)
+   */
+  public async setAttributes(
+    path: string,
+    attrs: Record<string, any>
+  ): Promise<void> {
+    for (const [key, value] of Object.entries(attrs)) {
+      if (!key) {
+        throw new Error("Attribute keys must not be empty");
+      }
+      if (value === undefined) {
+        throw new Error(`Invalid value for attribute "${key}"`);
+      }
+    }
+    await this._updateAttributes(path, (current) => {
+      for (const [key, value] of Object.entries(attrs)) {
+        current.set(key, value);
+      }
+      return true;
+    });
+  }
+
+  /**
+   * Get the extended attributes of a file or directory
+   * @param path Path to the file or directory
+   * @returns Attributes object (empty if none are set) or undefined if not found
+   */
+  public async getAttributes(
+    path: string
+  ): Promise<Record<string, any> | undefined> {
+    const segments = normalizePath(path).split("/").filter((s) => s);
+    if (segments.length === 0) {
+      return undefined;
+    }
+    const parentDir = await this._loadDirectory(segments.slice(0, -1).join("/"));
+    if (!parentDir) {
+      return undefined;
+    }
+    const name = segments[segments.length - 1];
+    const ref =
+      (await this._getFileFromDirectory(parentDir, name)) ??
+      (await this._getDirectoryFromDirectory(parentDir, name));
+    if (!ref) {
+      return undefined;
+    }
+    return mapToObject(this._getRefAttributes(ref) ?? new Map());
+  }
+
+  /**
+   * Remove a single extended attribute from a file or directory
+   * @param path Path to the file or directory
+   * @param key Attribute to remove
+   * @returns true if the attribute existed
+   */
+  public async removeAttribute(path: string, key: string): Promise<boolean> {
+    let removed = false;
+    await this._updateAttributes(path, (current) => {
+      removed = current.delete(key);
+      return removed;
+    });
+    return removed;
+  }
+
+  /**
+   * Set the policy of a directory, stored in its DirV1 header. Subdirectories
+   * inherit the settings they don't set themselves, so `encryptFiles` on
+   * "home/private" also encrypts files written to "home/private/photos".
+   * @param path Directory path (created if it doesn't exist)
+   * @param policy Settings to store, replacing the current policy; `{}` removes it
+   */
+  public async setDirectoryPolicy(path: string, policy: DirectoryPolicy): Promise<void> {
+    path = normalizePath(path);
+    if (!path && this.rootURI === undefined) {
+      throw new Error("Cannot set a policy on the root directory");
+    }
+    const settings = Object.fromEntries(
+      Object.entries(policy).filter(([, value]) => value !== undefined)
+    );
+    debug.fs5(' Path API: SET POLICY', { path: path, policy: settings });
+
+    await this._updateDirectory(path, async (dir) => {
+      if (Object.keys(settings).length > 0) {
+        dir.header.policy = settings;
+      } else {
+        delete dir.header.policy;
+      }
+      return dir;
+    });
+  }
+
+  /**
+   * Get the policy that applies to a directory, including inherited settings
+   * @param path Directory path
+   * @returns The effective policy, empty if no directory on the path sets one
+   */
+  public async getDirectoryPolicy(path: string): Promise<DirectoryPolicy> {
+    return this._resolveDirectoryPolicy(normalizePath(path));
+  }
+
+  /**
+   * Get metadata for a file or directory at the specified path
+   * @param path Path to the file or directory
+   * @returns Metadata object or undefined if not found
+   */
+  public async getMetadata(
+    path: string
   ): Promise<Record<string, any> | undefined> {
     path = normalizePath(path);
     const segments = path.split("/").filter((s) => s);
@@ -558,11 +1193,15 @@ export class FS5 {
   }
 
   /**
-   * Delete a file or empty directory at the specified path
+   * Delete a file or empty directory at the specified path. A soft delete moves
+   * the entry, including non-empty directories, to home/.trash instead, see
+   * listTrash() and restore(). Entries already in the trash are always removed.
    * @param path Path to the file or directory to delete
+   * @param options Optional ifMatch condition, throws PreconditionFailedError if it
+   *   doesn't hold, and `soft` to override the instance's softDelete setting
    * @returns true if deleted, false if not found
    */
-  public async delete(path: string): Promise<boolean> {
+  public async delete(path: string, options?: DeleteOptions): Promise<boolean> {
     path = normalizePath(path);
     debug.fs5(' Path API: DELETE', {
       path: path,
@@ -574,6 +1213,15 @@ export class FS5 {
       throw new Error("Cannot delete root directory");
     }
 
+    if (
+      (options?.soft ?? this.softDelete) &&
+      segments.length >= 2 &&
+      path !== TRASH_PATH &&
+      !path.startsWith(`${TRASH_PATH}/`)
+    ) {
+      return this._moveToTrash(path, options);
+    }
+
     const itemName = segments[segments.length - 1];
     const parentPath = segments.slice(0, -1).join("/") || "";
 
@@ -584,6 +1232,14 @@ export class FS5 {
         return undefined; // Parent doesn't exist
       }
 
+      if (options?.ifMatch !== undefined) {
+        this._checkPreconditions(
+          path,
+          await this._getFileFromDirectory(dir, itemName),
+          options
+        );
+      }
+
       // Check if directory is sharded
       if (dir.header.sharding?.root?.cid) {
         // Load HAMT
@@ -673,1353 +1329,4274 @@ export class FS5 {
   }
 
   /**
-   * List files and directories at the specified path
-   * @param path Path to the directory
-   * @returns Async iterator of ListResult items
+   * Apply several changes to one directory as a single revision. The callback
+   * stages puts, deletes and new subdirectories on `tx`. Once it returns, file
+   * contents are uploaded, every change is applied to the loaded directory in
+   * order and the result is published with one registry update. If any change
+   * fails, nothing is published.
+   * @param dirPath Directory the changes apply to (e.g., "home/photos")
+   * @param fn Callback staging the changes, names are relative to dirPath
    */
-  public async *list(
-    path: string,
-    options?: ListOptions
-  ): AsyncIterableIterator<ListResult> {
-    path = normalizePath(path);
-    const dir = await this._loadDirectory(path);
-
-    if (!dir) {
-      return; // Directory doesn't exist - return empty iterator
-    }
+  public async transaction(
+    dirPath: string,
+    fn: (tx: DirectoryTransaction) => void | Promise<void>
+  ): Promise<void> {
+    dirPath = normalizePath(dirPath);
+    const pathOf = (name: string) => (dirPath ? `${dirPath}/${name}` : name);
+
+    type StagedOperation =
+      | {
+          type: "put";
+          name: string;
+          encodedData: Uint8Array;
+          mediaType: string;
+          encoding: FileEncoding;
+          options?: PutOptions;
+          fileRef?: FileRef;
+        }
+      | { type: "delete"; name: string }
+      | { type: "createDirectory"; name: string };
+
+    const operations: StagedOperation[] = [];
+    let staging = true;
+    const stage = (operation: StagedOperation) => {
+      if (!staging) {
+        throw new Error("Transaction has already been committed");
+      }
+      if (!operation.name || operation.name.includes("/")) {
+        throw new Error(`Invalid name: "${operation.name}"`);
+      }
+      operations.push(operation);
+    };
 
-    debug.fs5(' Path API: LIST', {
-      path: path,
-      isSharded: !!(dir.header.sharding?.root?.cid),
-      withCursor: !!options?.cursor,
-      limit: options?.limit,
-      totalEntries: dir.header.sharding?.root?.totalEntries || (dir.files.size + dir.dirs.size)
+    await fn({
+      put: (name, data, options) => {
+        stage({
+          type: "put",
+          name,
+          ...this._encodeFileData(pathOf(name), data, options?.mediaType),
+          options,
+        });
+      },
+      delete: (name) => stage({ type: "delete", name }),
+      createDirectory: (name) => stage({ type: "createDirectory", name }),
     });
+    staging = false;
 
-    // Check if this is a sharded directory
-    if (dir.header.sharding?.root?.cid) {
-      // Use HAMT-based listing
-      const hamtData = await this.api.downloadBlobAsBytes(
-        dir.header.sharding.root.cid
-      );
-      const hamt = await HAMT.deserialise(hamtData, this.api);
+    if (operations.length === 0) {
+      return;
+    }
+    debug.fs5(' Path API: TRANSACTION', {
+      path: dirPath,
+      operations: operations.length
+    });
 
-      let count = 0;
-      for await (const item of this._listWithHAMT(hamt, options?.cursor)) {
-        yield item;
-        count++;
-        if (options?.limit && count >= options.limit) {
-          break;
-        }
+    // Blobs are content-addressed, so uploading before the commit only risks
+    // leaving unreferenced blobs behind if it fails
+    const policy = await this._resolveDirectoryPolicy(dirPath);
+    for (const operation of operations) {
+      if (operation.type === "put") {
+        operation.fileRef = await this._uploadFileData(
+          pathOf(operation.name),
+          operation.encodedData,
+          operation.mediaType,
+          operation.encoding,
+          this._withDirectoryPolicy(policy, operation.options)
+        );
       }
-      return;
     }
 
-    // Regular directory listing
-    // Parse cursor if provided
-    let startPosition: CursorData | undefined;
-    if (options?.cursor !== undefined) {
-      try {
-        startPosition = this._parseCursor(options.cursor);
-      } catch (e) {
-        throw new Error(`Invalid cursor: ${e}`);
+    try {
+      await this._updateDirectory(dirPath, async (dir, writeKey) => {
+        // Sharded directories upload their HAMT once for all operations
+        this._batchDirectoryHamt(dir);
+        for (const operation of operations) {
+          const path = pathOf(operation.name);
+          switch (operation.type) {
+            case "put": {
+              const previous = await this._getFileFromDirectory(dir, operation.name);
+              this._checkPreconditions(path, previous, operation.options);
+              // Copied because a revision conflict runs this updater again
+              const fileRef: FileRef = {
+                ...operation.fileRef!,
+                extra: new Map(operation.fileRef!.extra ?? []),
+              };
+              this._inheritFromReplacedFile(fileRef, previous, operation.options);
+              await this._setEntryInDirectory(dir, operation.name, "file", fileRef);
+              break;
+            }
+            case "delete": {
+              if (await this._removeEntryFromDirectory(dir, operation.name, "file")) {
+                break;
+              }
+              if (!(await this._getDirectoryFromDirectory(dir, operation.name))) {
+                throw new Error(`Path not found: ${path}`);
+              }
+              const target = await this._loadDirectory(path).catch(() => undefined);
+              if (
+                target &&
+                (target.files.size > 0 ||
+                  target.dirs.size > 0 ||
+                  (target.header.sharding?.root?.totalEntries ?? 0) > 0)
+              ) {
+                throw new Error(`Directory is not empty: ${path}`);
+              }
+              await this._removeEntryFromDirectory(dir, operation.name, "directory");
+              break;
+            }
+            case "createDirectory": {
+              if (await this._hasEntry(dir, operation.name)) {
+                throw new Error(`Path already exists: ${path}`);
+              }
+              const dirRef = await this._createDirectory(operation.name, writeKey);
+              await this._setEntryInDirectory(dir, operation.name, "directory", dirRef);
+              break;
+            }
+          }
+        }
+        await this._flushDirectoryHamt(dir);
+        return dir;
+      });
+    } catch (e) {
+      // Report the operation that failed rather than the transaction wrapper
+      if (e instanceof DirectoryTransactionResult && e.e !== undefined) {
+        throw e.e;
       }
+      throw e;
     }
+  }
 
-    // Collect all items for consistent ordering
-    const allItems: Array<{
-      name: string;
-      type: "file" | "directory";
-      data: any;
-    }> = [];
+  /**
+   * Move a file or directory to a new path. The existing FileRef or DirRef
+   * is relinked, so no content is re-uploaded and file history is kept.
+   * @param sourcePath Current path of the file or directory
+   * @param destPath New path (e.g., "home/archive/file.txt")
+   */
+  public async move(sourcePath: string, destPath: string): Promise<void> {
+    await this._move(sourcePath, destPath);
+  }
 
-    // Add all files
-    for (const [name, fileRef] of dir.files) {
-      allItems.push({ name, type: "file", data: fileRef });
+  /**
+   * Move a file or directory, see move()
+   * @param transform Optional change to the FileRef or DirRef at its new path,
+   *   must return a copy instead of modifying the ref
+   * @param check Optional precondition on the source directory, run in the same
+   *   update that unlinks the source. If it throws, the move is undone.
+   */
+  private async _move(
+    sourcePath: string,
+    destPath: string,
+    transform?: <T extends FileRef | DirRef>(ref: T) => T,
+    check?: (srcDir: DirV1) => Promise<void>
+  ): Promise<void> {
+    sourcePath = normalizePath(sourcePath);
+    destPath = normalizePath(destPath);
+    debug.fs5(' Path API: MOVE', {
+      from: sourcePath,
+      to: destPath,
+      operation: 'move'
+    });
+    const srcSegments = sourcePath.split("/").filter((s) => s);
+    const destSegments = destPath.split("/").filter((s) => s);
+
+    // In a view of a single directory, its entries are ordinary top-level entries
+    const minSegments = this.rootURI !== undefined ? 1 : 2;
+    if (srcSegments.length < minSegments || destSegments.length < minSegments) {
+      throw new Error("Cannot move the root or top-level directories");
+    }
+    if (sourcePath === destPath) {
+      return;
+    }
+    if (destPath.startsWith(`${sourcePath}/`)) {
+      throw new Error("Cannot move a directory into itself");
     }
 
-    // Add all directories
-    for (const [name, dirRef] of dir.dirs) {
-      allItems.push({ name, type: "directory", data: dirRef });
+    const srcName = srcSegments[srcSegments.length - 1];
+    const srcParent = srcSegments.slice(0, -1).join("/");
+    const destName = destSegments[destSegments.length - 1];
+    const destParent = destSegments.slice(0, -1).join("/");
+
+    // Validates that the destination lives in a writable tree
+    await this._preprocessLocalPath(destPath);
+
+    const srcDir = await this._loadDirectory(srcParent);
+    const fileRef = srcDir
+      ? await this._getFileFromDirectory(srcDir, srcName)
+      : undefined;
+    const dirRef =
+      srcDir && !fileRef
+        ? await this._getDirectoryFromDirectory(srcDir, srcName)
+        : undefined;
+    if (!fileRef && !dirRef) {
+      throw new Error(`Path not found: ${sourcePath}`);
     }
+    const type = fileRef ? "file" : "directory";
 
-    // Sort items for consistent ordering (files first, then by name)
-    allItems.sort((a, b) => {
-      if (a.type !== b.type) {
-        return a.type === "file" ? -1 : 1;
-      }
-      return a.name.localeCompare(b.name);
-    });
+    const destDir =
+      destParent === srcParent ? srcDir : await this._loadDirectory(destParent).catch(() => undefined);
+    if (destDir && (await this._hasEntry(destDir, destName))) {
+      throw new Error(`Destination already exists: ${destPath}`);
+    }
 
-    // Find start position if cursor provided
-    let startIndex = 0;
-    if (startPosition) {
-      const foundIndex = allItems.findIndex(
-        (item) =>
-          item.name === startPosition.position &&
-          item.type === startPosition.type
-      );
-      if (foundIndex >= 0) {
-        startIndex = foundIndex + 1; // Start after the cursor position
+    // Child write keys are derived from the parent key and the entry name,
+    // so a moved directory has to carry its current key along
+    let childWriteKey: Uint8Array | undefined;
+    let srcParentKs: KeySet | undefined;
+    if (dirRef) {
+      srcParentKs = await this.getKeySet(await this._preprocessLocalPath(srcParent));
+      if (srcParentKs.writeKey) {
+        childWriteKey = await this._resolveChildWriteKey(srcParentKs.writeKey, srcName, dirRef);
       }
     }
 
-    // Apply limit if provided
-    const limit = options?.limit;
-    let count = 0;
+    const insert = async (dir: DirV1, ks: KeySet) => {
+      if (await this._hasEntry(dir, destName)) {
+        throw new Error(`Destination already exists: ${destPath}`);
+      }
+      const ref = fileRef
+        ? fileRef
+        : await this._relinkDirRef(dirRef!, childWriteKey, srcParentKs!, ks, destName);
+      await this._setEntryInDirectory(dir, destName, type, transform ? transform(ref) : ref);
+    };
 
-    // Yield items starting from cursor position
-    for (let i = startIndex; i < allItems.length; i++) {
-      if (limit && count >= limit) {
-        break;
+    let rejected: { error: unknown } | undefined;
+    const passesCheck = async (dir: DirV1) => {
+      try {
+        await check?.(dir);
+        return true;
+      } catch (error) {
+        rejected = { error };
+        return false;
       }
+    };
 
-      const item = allItems[i];
-      const result: ListResult = {
-        name: item.name,
-        type: item.type,
-        cursor: this._encodeCursor({
-          position: item.name,
-          type: item.type,
-          timestamp: Date.now(),
-        }),
-      };
+    if (srcParent === destParent) {
+      const res = await this.runTransactionOnDirectory(
+        await this._preprocessLocalPath(srcParent),
+        async (dir, writeKey, ks) => {
+          if (!(await passesCheck(dir))) {
+            return undefined;
+          }
+          if (!(await this._removeEntryFromDirectory(dir, srcName, type))) {
+            throw new Error(`Path not found: ${sourcePath}`);
+          }
+          await insert(dir, ks);
+          return dir;
+        }
+      );
+      res.unwrap();
+    } else {
+      // Link into the destination first so a failure never loses the entry
+      await this._updateDirectory(destParent, async (dir, writeKey, ks) => {
+        await insert(dir, ks);
+        return dir;
+      });
 
-      if (item.type === "file") {
-        result.size = Number(item.data.size);
-        result.mediaType = item.data.media_type;
-        result.timestamp = item.data.timestamp
-          ? item.data.timestamp * 1000
-          : undefined; // Convert to milliseconds
-      } else {
-        result.timestamp = item.data.ts_seconds
-          ? item.data.ts_seconds * 1000
-          : undefined; // Convert to milliseconds
-      }
+      const res = await this.runTransactionOnDirectory(
+        await this._preprocessLocalPath(srcParent),
+        async (dir) => {
+          if (!(await passesCheck(dir))) {
+            return undefined;
+          }
+          const removed = await this._removeEntryFromDirectory(dir, srcName, type);
+          return removed ? dir : undefined;
+        }
+      );
+      res.unwrap();
 
-      yield result;
-      count++;
+      if (rejected) {
+        await this._updateDirectory(destParent, async (dir) =>
+          (await this._removeEntryFromDirectory(dir, destName, type)) ? dir : undefined
+        );
+      }
+    }
+    if (rejected) {
+      throw rejected.error;
     }
-  }
 
-  public async uploadBlobWithoutEncryption(
-    blob: Blob
-  ): Promise<{ hash: Uint8Array; size: number }> {
-    const blobIdentifier = await this.api.uploadBlob(blob);
-    return {
-      hash: blobIdentifier.hash.subarray(1), // Remove multihash prefix
-      size: blob.size,
-    };
+    debug.fs5(' Move complete', {
+      from: sourcePath,
+      to: destPath,
+      type: type
+    });
   }
 
-  public async downloadAndDecryptBlob(
-    hash: Uint8Array,
-    encryptionKey: Uint8Array,
-    size: number
-  ): Promise<Uint8Array> {
-    // Download encrypted blob
-    const encryptedData = await this.api.downloadBlobAsBytes(
-      new Uint8Array([MULTIHASH_BLAKE3, ...hash])
-    );
-
-    const maxChunkSizeAsPowerOf2 = 18;
-    const maxChunkSize = 262144; // 256 KiB
-    const chunkCount = Math.ceil(size / maxChunkSize);
-
-    const decryptedChunks: Uint8Array[] = [];
+  /**
+   * Rename a file or directory within its parent directory
+   * @param path Path to the file or directory
+   * @param newName New name (must not contain "/")
+   */
+  public async rename(path: string, newName: string): Promise<void> {
+    if (!newName || newName.includes("/")) {
+      throw new Error(`Invalid name: "${newName}"`);
+    }
+    const segments = normalizePath(path).split("/").filter((s) => s);
+    const parentPath = segments.slice(0, -1).join("/");
+    await this.move(path, parentPath ? `${parentPath}/${newName}` : newName);
+  }
 
-    // Decrypt each chunk
-    for (let chunkIndex = 0; chunkIndex < chunkCount; chunkIndex++) {
-      const chunkStart = chunkIndex * (maxChunkSize + 16); // +16 for poly1305 tag
-      const chunkEnd = Math.min(
-        (chunkIndex + 1) * (maxChunkSize + 16),
-        encryptedData.length
-      );
-      const encryptedChunk = encryptedData.slice(chunkStart, chunkEnd);
+  /**
+   * Create an fs5:// link to a directory that can be opened with openShared()
+   * by someone else, for example a teammate with their own identity. Read-only
+   * links only carry the directory's public key (and encryption key, if it has
+   * one), writable links add the directory's write key. Either way the link
+   * grants access to the whole subtree below the directory.
+   * @param path Directory to share (e.g., "home/team")
+   * @param options Set `writable` to allow changes through the link
+   * @returns The share link
+   */
+  public async createShareLink(
+    path: string,
+    options: ShareLinkOptions = {}
+  ): Promise<string> {
+    path = normalizePath(path);
+    debug.fs5(' Path API: SHARE', { path: path, writable: !!options.writable });
+    const ks = await this.getKeySet(await this._preprocessLocalPath(path));
+    if (options.writable && !ks.writeKey) {
+      throw new Error(`Directory is read-only: ${path}`);
+    }
 
-      const decrypted = await this.api.crypto.decryptXChaCha20Poly1305(
-        encryptionKey,
-        encodeLittleEndian(chunkIndex, 24),
-        encryptedChunk
-      );
+    return buildDirectoryURI(
+      ks.publicKey,
+      ks.encryptionKey,
+      options.writable ? ks.writeKey : undefined
+    );
+  }
 
-      decryptedChunks.push(decrypted);
+  /**
+   * Move a directory to fresh keys to revoke access granted through earlier
+   * share links. The directory is published under a new registry key pair and
+   * encrypted with a new key, and its DirRef in the parent is re-linked. Old
+   * links keep pointing at the old registry entry, so they stop seeing new
+   * content, and old write keys no longer change anything.
+   *
+   * Changes made to the directory while its keys are rotated are lost, so
+   * run this while nobody else writes to it.
+   * @param path Directory to rotate (e.g., "home/team")
+   * @param options `recursive` rotates all subdirectories too, otherwise their
+   *   keys are kept and carried along. `reencryptFiles` also moves files with
+   *   their own XChaCha20 key to fresh keys and blobs.
+   */
+  public async rotateKeys(path: string, options: RotateKeysOptions = {}): Promise<void> {
+    path = normalizePath(path);
+    debug.fs5(' Path API: ROTATE KEYS', { path: path, options: options });
+    const segments = path.split("/").filter((s) => s);
+    if (segments.length < 2) {
+      throw new Error("Cannot rotate keys of the root or top-level directories");
+    }
+    const name = segments[segments.length - 1];
+    const parentPath = segments.slice(0, -1).join("/");
+
+    const parentKs = await this.getKeySet(await this._preprocessLocalPath(parentPath));
+    const parentDir = await this._getDirectoryMetadata(parentKs);
+    const dirRef = parentDir
+      ? await this._getDirectoryFromDirectory(parentDir.directory, name)
+      : undefined;
+    if (!dirRef) {
+      throw new Error(`Path not found: ${path}`);
+    }
+    if (dirRef.link.type !== "mutable_registry_ed25519" || dirRef.extra?.has(DIR_REF_EXTRA_MOUNT)) {
+      throw new Error(`Cannot rotate keys of a linked or mounted directory: ${path}`);
+    }
+    const writeKey = parentKs.writeKey
+      ? await this._resolveChildWriteKey(parentKs.writeKey, name, dirRef)
+      : undefined;
+    if (!parentKs.writeKey || !writeKey) {
+      throw new Error(`Missing write access for ${path}`);
     }
 
-    // Combine all decrypted chunks
-    const combined = new Uint8Array(
-      decryptedChunks.reduce((total, chunk) => total + chunk.length, 0)
+    const sources: RotatedDirectorySource[] = [];
+    const rotated = await this._rotateDirectoryKeys(
+      path,
+      dirRef,
+      writeKey,
+      parentKs,
+      options,
+      sources
     );
-    let offset = 0;
-    for (const chunk of decryptedChunks) {
-      combined.set(chunk, offset);
-      offset += chunk.length;
+
+    let replaced = false;
+    let modified: string | undefined;
+    await this._updateDirectory(parentPath, async (dir) => {
+      const current = await this._getDirectoryFromDirectory(dir, name);
+      if (
+        !current?.link.publicKey ||
+        !areArraysEqual(current.link.publicKey, dirRef.link.publicKey!)
+      ) {
+        return undefined;
+      }
+      replaced = true;
+      // Writes to the old registry entries after they were copied would be lost
+      for (const source of sources) {
+        const entry = await this.api.registryGet(source.publicKey);
+        if (entry?.revision !== source.revision) {
+          modified = source.path;
+          return undefined;
+        }
+      }
+      await this._setEntryInDirectory(dir, name, "directory", rotated);
+      return dir;
+    });
+    if (!replaced) {
+      throw new Error(`Directory was replaced during key rotation: ${path}`);
     }
+    if (modified !== undefined) {
+      throw new Error(`Directory was modified during key rotation: ${modified}`);
+    }
+  }
 
-    // Return only the original size (remove padding)
-    return combined.slice(0, size);
+  /**
+   * Grant someone else write access to a directory and everything below it.
+   * Child write keys are derived from their parent's, so the grant exposes
+   * nothing above the directory. The collaborator opens the returned link with
+   * openShared() to get a writable view, or mounts it into their own tree.
+   * An alias for createShareLink(path, { writable: true }).
+   * @param path Directory to grant access to (e.g., "home/projects/website")
+   * @returns Writable fs5:// link carrying the directory's write key
+   */
+  public async grantWriteAccess(path: string): Promise<string> {
+    return this.createShareLink(path, { writable: true });
   }
 
   /**
-   * Encrypt a blob and upload it, returning the encrypted blob's hash
-   * @param blob Blob to encrypt
-   * @param encryptionKey Encryption key (32 bytes)
-   * @returns Encrypted blob identifier with hash
+   * Open a directory shared with createShareLink(). This doesn't need an
+   * identity, paths of the returned view are relative to the shared directory.
+   * @param uri Share link (fs5://...)
+   * @returns View of the shared directory tree
    */
-  private async _encryptAndUploadBlob(
-    blob: Blob,
-    encryptionKey: Uint8Array
-  ): Promise<{ hash: Uint8Array; size: number }> {
-    const size = blob.size;
-    const maxChunkSize = 262144; // 256 KiB
-    const chunkCount = Math.ceil(size / maxChunkSize);
+  public async openShared(uri: string): Promise<SharedDirectory> {
+    debug.fs5(' Path API: OPEN SHARED', { writable: uri.startsWith("fs5://write:") });
+    let url: URL;
+    try {
+      url = new URL(uri);
+    } catch {
+      throw new Error("Invalid share link");
+    }
+    if (url.protocol !== "fs5:" || url.pathname.length > 1) {
+      throw new Error("Invalid share link");
+    }
+    // Throws for malformed directory ids and write keys
+    const ks = await this.getKeySet(uri);
+    if (!(await this._writeKeyMatches(ks))) {
+      throw new Error("Write key does not match the shared directory");
+    }
 
-    let encryptedBlob = new Blob();
+    const view = new FS5(this.api, undefined, { root: uri });
+    return new SharedDirectory(view, uri, ks.writeKey !== undefined);
+  }
 
-    // Encrypt each chunk
-    for (let chunkIndex = 0; chunkIndex < chunkCount; chunkIndex++) {
-      const chunkStart = chunkIndex * maxChunkSize;
-      const chunkEnd = Math.min((chunkIndex + 1) * maxChunkSize, size);
-      const plaintext = new Uint8Array(
-        await blob.slice(chunkStart, chunkEnd).arrayBuffer()
-      );
+  /**
+   * Mount a foreign directory, for example one shared with createShareLink(),
+   * into this tree. It is stored as a DirRef linking to the foreign directory,
+   * so list(), get(), the walker and BatchOperations pass through into it.
+   * Its encryption key, if any, is kept in the DirRef's extra. Without a write
+   * key in the URI the mount is read-only, otherwise the write key is stored
+   * encrypted for the parent directory like the key of a moved directory.
+   * @param path Where the directory should appear (e.g., "home/shared/team")
+   * @param uri fs5:// URI of the directory to mount
+   */
+  public async mount(path: string, uri: string): Promise<void> {
+    path = normalizePath(path);
+    debug.fs5(' Path API: MOUNT', { path: path, writable: uri.startsWith("fs5://write:") });
+    const segments = path.split("/").filter((s) => s);
+    if (segments.length < 2) {
+      throw new Error("Cannot mount at the root or top-level directories");
+    }
+    const name = segments[segments.length - 1];
+    const parentPath = segments.slice(0, -1).join("/");
 
-      const encrypted = await this.api.crypto.encryptXChaCha20Poly1305(
-        encryptionKey,
-        encodeLittleEndian(chunkIndex, 24),
-        plaintext
-      );
+    let url: URL;
+    try {
+      url = new URL(uri);
+    } catch {
+      throw new Error("Invalid fs5 URI");
+    }
+    if (url.protocol !== "fs5:" || url.pathname.length > 1) {
+      throw new Error("Invalid fs5 URI");
+    }
+    const ks = await this.getKeySet(uri);
 
-      encryptedBlob = new Blob([encryptedBlob as BlobPart, encrypted as BlobPart]);
+    let link: DirLink;
+    if (ks.publicKey[0] === mkeyEd25519) {
+      link = { type: "mutable_registry_ed25519", publicKey: ks.publicKey.subarray(1) };
+    } else if (ks.publicKey[0] === mhashBlake3Default) {
+      link = { type: "fixed_hash_blake3", hash: ks.publicKey.subarray(1) };
+    } else {
+      throw new Error("Invalid fs5 URI");
+    }
+    if (!(await this._writeKeyMatches(ks))) {
+      throw new Error("Write key does not match the mounted directory");
     }
 
-    // Upload encrypted blob
-    const encryptedBlobIdentifier = await this.api.uploadBlob(encryptedBlob);
+    // Check first so the message isn't lost in the transaction result
+    const parentDir = await this._loadDirectory(parentPath).catch(() => undefined);
+    if (parentDir && (await this._hasEntry(parentDir, name))) {
+      throw new Error(`Path already exists: ${path}`);
+    }
 
-    return {
-      hash: encryptedBlobIdentifier.hash.subarray(1), // Remove multihash prefix
-      size: encryptedBlob.size,
-    };
+    await this._updateDirectory(parentPath, async (dir, writeKey) => {
+      if (await this._hasEntry(dir, name)) {
+        throw new Error(`Path already exists: ${path}`);
+      }
+      const mount = new Map<string, any>();
+      if (ks.encryptionKey) {
+        mount.set("encryption_key", ks.encryptionKey);
+      }
+      const extra = new Map<string, any>([[DIR_REF_EXTRA_MOUNT, mount]]);
+      if (ks.writeKey) {
+        extra.set(
+          DIR_REF_EXTRA_WRAPPED_WRITE_KEY,
+          await this._wrapWriteKey(ks.writeKey, writeKey)
+        );
+      }
+      await this._setEntryInDirectory(dir, name, "directory", {
+        link: link,
+        ts_seconds: Math.floor(Date.now() / 1000),
+        extra: extra,
+      });
+      return dir;
+    });
   }
 
-  public async uploadBlobEncrypted(
-    blob: Blob
-  ): Promise<{ hash: Uint8Array; size: number; encryptionKey: Uint8Array; encryptedBlobHash: Uint8Array; padding: number }> {
-    const plaintextBlake3Hash = await this.api.crypto.hashBlake3Blob(blob);
-    const size = blob.size;
-    const plaintextBlobIdentifier = new BlobIdentifier(
-      new Uint8Array([MULTIHASH_BLAKE3, ...plaintextBlake3Hash]),
-      size
-    );
-
-    const maxChunkSizeAsPowerOf2 = 18;
-    const maxChunkSize = 262144; // 256 KiB
-    const chunkCount = Math.ceil(size / maxChunkSize);
-    const totalSizeWithEncryptionOverhead = size + chunkCount * 16;
-    let padding =
-      padFileSize(totalSizeWithEncryptionOverhead) -
-      totalSizeWithEncryptionOverhead;
-    const lastChunkSize = size % maxChunkSize;
-    if (padding + lastChunkSize >= maxChunkSize) {
-      padding = maxChunkSize - lastChunkSize;
+  /**
+   * Remove a mount created with mount(). Only the link is removed, the
+   * foreign directory and its contents are left untouched.
+   * @param path Path of the mount point
+   */
+  public async unmount(path: string): Promise<void> {
+    path = normalizePath(path);
+    debug.fs5(' Path API: UNMOUNT', { path: path });
+    const segments = path.split("/").filter((s) => s);
+    const name = segments[segments.length - 1];
+    const parentPath = segments.slice(0, -1).join("/");
+
+    const isMount = async (dir: DirV1) =>
+      (await this._getDirectoryFromDirectory(dir, name))?.extra?.has(DIR_REF_EXTRA_MOUNT) ===
+      true;
+    const parentDir =
+      segments.length >= 2 ? await this._loadDirectory(parentPath).catch(() => undefined) : undefined;
+    if (!parentDir || !(await isMount(parentDir))) {
+      throw new Error(`Not a mount point: ${path}`);
     }
 
-    const encryptionKey = this.api.crypto.generateSecureRandomBytes(32);
-
-    let encryptedBlob = new Blob();
+    await this._updateDirectory(parentPath, async (dir) => {
+      if (!(await isMount(dir))) {
+        return undefined;
+      }
+      await this._removeEntryFromDirectory(dir, name, "directory");
+      return dir;
+    });
+  }
 
-    for (let chunkIndex = 0; chunkIndex < chunkCount - 1; chunkIndex++) {
-      const plaintext = new Uint8Array(
-        await blob
-          .slice(chunkIndex * maxChunkSize, (chunkIndex + 1) * maxChunkSize)
-          .arrayBuffer()
-      );
-      const encrypted = await this.api.crypto.encryptXChaCha20Poly1305(
-        encryptionKey,
-        encodeLittleEndian(chunkIndex, 24),
-        plaintext
-      );
-      encryptedBlob = new Blob([encryptedBlob as BlobPart, encrypted as BlobPart]);
+  /**
+   * List the entries in the trash, newest deletion first
+   * @returns Trash entries with their id, original path and deletion time
+   */
+  public async listTrash(): Promise<TrashEntry[]> {
+    debug.fs5(' Path API: LIST TRASH', { path: TRASH_PATH });
+    const dir = await this._loadDirectory(TRASH_PATH).catch(() => undefined);
+    if (!dir) {
+      return [];
     }
-    const lastChunkPlaintext = new Uint8Array([
-      ...new Uint8Array(
-        await blob.slice((chunkCount - 1) * maxChunkSize).arrayBuffer()
-      ),
-      ...new Uint8Array(padding),
-    ]);
 
-    const lastChunkEncrypted = await this.api.crypto.encryptXChaCha20Poly1305(
-      encryptionKey,
-      encodeLittleEndian(chunkCount - 1, 24),
-      lastChunkPlaintext
+    const entries: TrashEntry[] = [];
+    for (const entry of (await this._getAllEntries(dir)).values()) {
+      const info = this._getTrashInfo(entry.ref);
+      if (!info) {
+        continue; // Not put there by delete()
+      }
+      entries.push({
+        id: entry.name,
+        path: info.path,
+        deletedAt: info.deletedAt,
+        type: entry.type,
+        size: entry.type === "file" ? Number((entry.ref as FileRef).size) : undefined,
+      });
+    }
+    return entries.sort(
+      (a, b) => b.deletedAt - a.deletedAt || (a.id < b.id ? -1 : a.id > b.id ? 1 : 0)
     );
-    encryptedBlob = new Blob([encryptedBlob as BlobPart, lastChunkEncrypted as BlobPart]);
+  }
 
-    const encryptedBlobIdentifier = await this.api.uploadBlob(encryptedBlob);
+  /**
+   * Move a trashed entry back to the path it was deleted from. Missing parent
+   * directories are created again.
+   * @param trashId Id of the entry, as returned by listTrash()
+   * @returns The path the entry was restored to
+   */
+  public async restore(trashId: string): Promise<string> {
+    debug.fs5(' Path API: RESTORE', { trashId: trashId });
+    const dir = trashId && !trashId.includes("/")
+      ? await this._loadDirectory(TRASH_PATH).catch(() => undefined)
+      : undefined;
+    const ref = dir
+      ? (await this._getFileFromDirectory(dir, trashId)) ??
+        (await this._getDirectoryFromDirectory(dir, trashId))
+      : undefined;
+    const info = ref ? this._getTrashInfo(ref) : undefined;
+    if (!info) {
+      throw new Error(`Trash entry not found: ${trashId}`);
+    }
 
-    const plaintextCID = new Uint8Array([
-      0x26,
-      ...plaintextBlobIdentifier.toBytes().subarray(2),
-    ]);
-    plaintextCID[1] = 0x1f;
+    await this._move(`${TRASH_PATH}/${trashId}`, info.path, (moved) =>
+      this._withTrashInfo(moved, undefined)
+    );
+    return info.path;
+  }
 
-    const cidTypeEncryptedStatic = 0xae;
-    const encryptedCIDBytes = new Uint8Array([
-      cidTypeEncryptedStatic,
-      ENCRYPTION_ALGORITHM_XCHACHA20POLY1305,
-      maxChunkSizeAsPowerOf2,
-      0x1f,
-      ...encryptedBlobIdentifier.hash.subarray(1),
-      ...encryptionKey,
-      ...encodeLittleEndian(padding, 4),
-      ...plaintextCID,
-    ]);
+  /**
+   * Permanently remove entries from the trash in a single revision
+   * @param options Only remove entries deleted more than `olderThan` milliseconds ago
+   * @returns Number of entries removed
+   */
+  public async emptyTrash(options: EmptyTrashOptions = {}): Promise<number> {
+    debug.fs5(' Path API: EMPTY TRASH', { olderThan: options.olderThan });
+    const cutoff = options.olderThan !== undefined ? Date.now() - options.olderThan : undefined;
+    const expired = (await this.listTrash()).filter(
+      (entry) => cutoff === undefined || entry.deletedAt <= cutoff
+    );
+    if (expired.length === 0) {
+      return 0;
+    }
 
-    return {
-      hash: plaintextBlake3Hash,
-      size: size,
-      encryptionKey: encryptionKey,
-      encryptedBlobHash: encryptedBlobIdentifier.hash.subarray(1),
-      padding: padding,
-    };
+    let removed = 0;
+    await this._updateDirectory(TRASH_PATH, async (dir) => {
+      removed = 0;
+      for (const entry of expired) {
+        if (await this._removeEntryFromDirectory(dir, entry.id, entry.type)) {
+          removed++;
+        }
+      }
+      return removed > 0 ? dir : undefined;
+    });
+    return removed;
   }
 
-  async createDirectory(path: string, name: string): Promise<DirRef> {
-    dbg('DIRECTORY', 'createDirectory', 'ENTER', { path, name });
-    // TODO validateFileSystemEntityName(name);
+  /**
+   * Compare two directory trees, for example a backup against the live tree or
+   * two snapshots. Subdirectories pointing to the same directory or the same
+   * DirV1 blob are skipped without loading them. Files that disappear from one
+   * place and show up in another with the same hash are reported as moved, and
+   * so are directories with identical content.
+   * @param a Path of the old tree (e.g., "archive/backup")
+   * @param b Path of the new tree (e.g., "home/projects")
+   * @returns Changes sorted by path, with paths relative to the two roots
+   */
+  public async diff(a: string, b: string): Promise<DiffEntry[]> {
+    a = normalizePath(a);
+    b = normalizePath(b);
+    debug.fs5(' Path API: DIFF', { a: a, b: b });
+
+    const dirA = await this._loadDirectory(a);
+    if (!dirA) {
+      throw new Error(`Path not found: ${a}`);
+    }
+    const dirB = await this._loadDirectory(b);
+    if (!dirB) {
+      throw new Error(`Path not found: ${b}`);
+    }
 
-    let dirReference: DirRef | undefined;
+    // Content ids (file hash or directory blob hash) of added and removed entries
+    const ids = new Map<DiffEntry, string>();
+    const changes: DiffEntry[] = [];
+    await this._diffDirectories(a, b, dirA, dirB, "", changes, ids);
+
+    // Pair removed and added entries with the same content into moves,
+    // directories first so their contents aren't matched one by one
+    const moved: DiffEntry[] = [];
+    const dropped = new Set<DiffEntry>();
+    const isWithin = (entry: DiffEntry, dirPath: string) =>
+      entry.path.startsWith(`${dirPath}/`);
+    for (const entryType of ["directory", "file"] as const) {
+      const removed = new Map<string, DiffEntry[]>();
+      for (const entry of changes) {
+        if (entry.type === "removed" && entry.entryType === entryType && !dropped.has(entry)) {
+          const id = ids.get(entry);
+          if (id !== undefined) {
+            removed.set(id, [...(removed.get(id) ?? []), entry]);
+          }
+        }
+      }
+      for (const entry of changes) {
+        if (entry.type !== "added" || entry.entryType !== entryType || dropped.has(entry)) {
+          continue;
+        }
+        const source = removed.get(ids.get(entry) ?? "")?.shift();
+        if (!source) {
+          continue;
+        }
+        dropped.add(source);
+        dropped.add(entry);
+        moved.push({
+          type: "moved",
+          entryType: entryType,
+          path: entry.path,
+          from: source.path,
+          hash: entry.hash,
+        });
+        if (entryType === "directory") {
+          for (const other of changes) {
+            if (
+              (other.type === "removed" && isWithin(other, source.path)) ||
+              (other.type === "added" && isWithin(other, entry.path))
+            ) {
+              dropped.add(other);
+            }
+          }
+        }
+      }
+    }
 
-    const preprocessedPath = await this._preprocessLocalPath(path);
-    dbg('DIRECTORY', 'createDirectory', 'Preprocessed path', { preprocessedPath });
+    return [...changes.filter((entry) => !dropped.has(entry)), ...moved].sort(
+      (x, y) => (x.path < y.path ? -1 : x.path > y.path ? 1 : 0)
+    );
+  }
 
-    const res = await this.runTransactionOnDirectory(
-      preprocessedPath,
-      async (dir, writeKey) => {
-        dbg('DIRECTORY', 'createDirectory', 'Transaction callback', {
-          isSharded: !!dir.header.sharding?.root?.cid,
-          existingDirs: Array.from(dir.dirs.keys())
-        });
+  /**
+   * Measure the disk usage of a directory tree: totals for each direct
+   * subdirectory, a breakdown by media type, encrypted and plain file counts,
+   * the largest files and the number of HAMT-sharded directories.
+   *
+   * With `cache: true` the result is kept in the DirRef.extra of the directory
+   * together with the DirV1 blob hash of every directory it covers. The next
+   * call only compares those hashes against the registry instead of loading
+   * the tree again, so any change below the directory invalidates the cache.
+   * A cache hit still costs one registry lookup per directory in the tree, but
+   * no blob downloads. The hash of the measured directory alone is not enough,
+   * its subdirectories are mutable links that change without touching it.
+   * Storing the cache writes a new revision of the parent directory, which is
+   * skipped when the cached value is unchanged and ignored by watch().
+   * @param path Directory to measure (e.g., "home/photos")
+   * @param options Number of largest files to report and whether to use the cache
+   * @returns Usage statistics, largest files are listed with their full path
+   */
+  public async du(path: string, options: DiskUsageOptions = {}): Promise<DiskUsage> {
+    path = normalizePath(path);
+    const largestFiles = options.largestFiles ?? 10;
+    debug.fs5(' Path API: DU', { path: path, options: options });
 
-        // Check if directory is sharded
-        if (dir.header.sharding?.root?.cid) {
-          dbg('DIRECTORY', 'createDirectory', 'Loading HAMT for sharded directory...');
-          // Load HAMT
-          const hamtData = await this.api.downloadBlobAsBytes(
-            dir.header.sharding.root.cid
-          );
-          const hamt = await HAMT.deserialise(hamtData, this.api);
+    // Top-level directories have no parent DirRef to keep the cache in
+    const segments = path.split("/").filter((s) => s);
+    const name = segments[segments.length - 1];
+    const parentPath = segments.slice(0, -1).join("/");
+    let dirRef: DirRef | undefined;
+    if (options.cache && segments.length >= 2) {
+      const parentDir = await this._loadDirectory(parentPath).catch(() => undefined);
+      dirRef = parentDir ? await this._getDirectoryFromDirectory(parentDir, name) : undefined;
+      const cached = dirRef ? await this._getCachedDiskUsage(dirRef, largestFiles) : undefined;
+      if (cached) {
+        return this._toDiskUsage(path, cached, true);
+      }
+    }
 
-          // Check if already exists
-          const existingDir = await hamt.get(`d:${name}`);
-          if (existingDir) {
-            dbgError('DIRECTORY', 'createDirectory', 'Subdirectory already exists in HAMT', new Error(`name: ${name}`));
-            throw new Error(
-              "Directory already contains a subdirectory with the same name"
-            );
-          }
+    // Hash before loading, so a change in between makes the cache stale instead of wrong
+    const hashes: [DirLink, Uint8Array | undefined][] = [];
+    if (dirRef) {
+      hashes.push([dirRef.link, await this._getDirectoryBlobHash(dirRef.link)]);
+    }
+    const dir = await this._loadDirectory(path);
+    if (!dir) {
+      throw new Error(`Path not found: ${path}`);
+    }
 
-          // Create new directory and add to HAMT
-          dbg('DIRECTORY', 'createDirectory', 'Creating subdirectory (sharded)', { name });
-          const newDir = await this._createDirectory(name, writeKey);
-          await hamt.insert(`d:${name}`, newDir);
+    const usage: Omit<DiskUsage, "path" | "cached"> = {
+      files: 0,
+      directories: 0,
+      totalSize: 0,
+      encryptedFiles: 0,
+      plainFiles: 0,
+      shardedDirectories: 0,
+      mediaTypes: {},
+      largestFiles: [],
+      subdirectories: {},
+    };
+    Object.assign(usage, await this._collectDiskUsage(path, "", dir, usage, largestFiles, hashes));
 
-          // Save updated HAMT
-          const newHamtData = hamt.serialise();
-          const { hash } = await this.api.uploadBlob(new Blob([newHamtData as BlobPart]));
-          dir.header.sharding.root.cid = hash;
-          dir.header.sharding.root.totalEntries++;
+    if (dirRef && hashes.every(([, hash]) => hash !== undefined)) {
+      await this._storeDiskUsageCache(parentPath, name, dirRef.link, usage, largestFiles, hashes);
+    }
+    return this._toDiskUsage(path, usage, false);
+  }
 
-          dirReference = newDir;
-          dbg('DIRECTORY', 'createDirectory', 'Subdirectory created in HAMT', { name });
-        } else {
-          // Regular directory
-          if (dir.dirs.has(name)) {
-            dbgError('DIRECTORY', 'createDirectory', 'Subdirectory already exists', new Error(`name: ${name}`));
-            throw new Error(
-              "Directory already contains a subdirectory with the same name"
-            );
-          }
-          dbg('DIRECTORY', 'createDirectory', 'Creating subdirectory (regular)', { name });
-          const newDir = await this._createDirectory(name, writeKey);
-          dir.dirs.set(name, newDir);
-          dirReference = newDir;
+  /**
+   * Freeze a directory tree into immutable, content-addressed DirV1 blobs.
+   * Every subdirectory link is rewritten to a fixed_hash_blake3 link, so
+   * later changes to the source never show up in the snapshot. Trees with
+   * encrypted directories (rotated keys, encrypted mounts) stay encrypted,
+   * so they can only be read through their archive/ link.
+   * @param path Path to the directory to freeze (e.g., "home/projects")
+   * @param destPath Optional path under archive/ where the snapshot gets linked,
+   *   required for trees with encrypted directories
+   * @returns BLAKE3 hash of the snapshot's root DirV1 blob
+   */
+  public async snapshot(path: string, destPath?: string): Promise<Uint8Array> {
+    path = normalizePath(path);
+    let destName: string | undefined;
+    let destParent: string | undefined;
+    if (destPath !== undefined) {
+      destPath = normalizePath(destPath);
+      const destSegments = destPath.split("/").filter((s) => s);
+      if (destSegments[0] !== "archive" || destSegments.length < 2) {
+        throw new Error(`Snapshots can only be linked under archive/: ${destPath}`);
+      }
+      destName = destSegments[destSegments.length - 1];
+      destParent = destSegments.slice(0, -1).join("/");
 
-          // Check if we need to convert to sharded
-          await this._checkAndConvertToSharded(dir);
-          dbg('DIRECTORY', 'createDirectory', 'Subdirectory created', { name, totalDirs: dir.dirs.size });
-        }
-        return dir;
+      const destDir = await this._loadDirectory(destParent).catch(() => undefined);
+      if (destDir && (await this._hasEntry(destDir, destName))) {
+        throw new Error(`Destination already exists: ${destPath}`);
       }
-    );
-    dbg('DIRECTORY', 'createDirectory', 'Transaction complete, unwrapping...', { resultType: res.type });
-    res.unwrap();
-    dbg('DIRECTORY', 'createDirectory', 'SUCCESS', { path, name });
-    return dirReference!;
-  }
-  public async createFile(
-    directoryPath: string,
-    fileName: string,
-    fileVersion: { ts: number; data: any },
-    mediaType?: string
-  ): Promise<FileRef> {
-    // TODO validateFileSystemEntityName(name);
+    }
 
-    let fileReference: FileRef | undefined;
+    const ks = await this.getKeySet(await this._preprocessLocalPath(path));
+    const { hash, encryptionKey } = await this._freezeDirectory(ks, path);
+    if (encryptionKey && destName === undefined) {
+      // The hash alone couldn't open the snapshot
+      throw new Error(`Snapshots of encrypted directories must be linked under archive/: ${path}`);
+    }
 
-    const res = await this.runTransactionOnDirectory(
-      await this._preprocessLocalPath(directoryPath),
-      async (dir, _) => {
-        if (dir.files.has(fileName)) {
-          throw new Error("Directory already contains a file with the same name");
+    debug.fs5(' Snapshot created', {
+      path: path,
+      linkedAt: destPath,
+      hash: Array.from(hash.slice(0, 8)).map(b => b.toString(16).padStart(2, '0')).join('')
+    });
+
+    if (destName !== undefined) {
+      await this._updateDirectory(destParent!, async (dir, writeKey, destKs) => {
+        if (await this._hasEntry(dir, destName!)) {
+          throw new Error(`Destination already exists: ${destPath}`);
         }
-        const file: FileRef = {
-          hash: new Uint8Array(32), // Placeholder - should be computed from data
-          size: 0,
-          media_type: mediaType,
-          timestamp: fileVersion.ts,
+        const dirRef: DirRef = {
+          link: { type: "fixed_hash_blake3", hash },
+          ts_seconds: Math.floor(Date.now() / 1000),
         };
-        dir.files.set(fileName, file);
-        fileReference = file;
-
+        if (encryptionKey) {
+          dirRef.extra = new Map([
+            [
+              DIR_REF_EXTRA_WRAPPED_ENCRYPTION_KEY,
+              await this._wrapEncryptionKey(encryptionKey, destKs),
+            ],
+          ]);
+        }
+        await this._setEntryInDirectory(dir, destName!, "directory", dirRef);
         return dir;
-      }
-    );
-    res.unwrap();
-    return fileReference!;
+      });
+    }
+
+    return hash;
   }
 
-  private async runTransactionOnDirectory(
-    uri: string,
-    transaction: DirectoryTransactionFunction
-  ): Promise<DirectoryTransactionResult> {
-    const release = await this.directoryLocks.acquire(uri);
-    try {
-    dbg('DIRECTORY', 'runTransactionOnDirectory', 'ENTER', { uri: uri.slice(0, 80) });
+  /**
+   * Create a resolver link: a directory entry that points at a registry entry
+   * owned by this tree, which in turn holds the link to the real directory.
+   * The target can be changed later with updateResolverLink() without
+   * rewriting the parent. Directories reached through a resolver are read-only.
+   * @param path Where to create the link (e.g., "home/shared/alice")
+   * @param target Link to point at, or the path of a directory whose link is used
+   */
+  public async createResolverLink(
+    path: string,
+    target: DirLink | string
+  ): Promise<void> {
+    path = normalizePath(path);
+    const segments = path.split("/").filter((s) => s);
+    if (segments.length < 2) {
+      throw new Error("Cannot create a resolver link at the root or top level");
+    }
+    const name = segments[segments.length - 1];
+    const parentPath = segments.slice(0, -1).join("/");
+    await this._preprocessLocalPath(path);
 
-    const ks = await this.getKeySet(uri);
-    if (ks.writeKey == null) {
-      dbgError('DIRECTORY', 'runTransactionOnDirectory', 'Missing write access', { uri });
-      throw new Error(`Missing write access for ${uri}`);
+    const link = await this._resolveLinkTarget(target);
+
+    const parentDir = await this._loadDirectory(parentPath).catch(() => undefined);
+    if (parentDir && (await this._hasEntry(parentDir, name))) {
+      throw new Error(`Destination already exists: ${path}`);
     }
-    dbg('DIRECTORY', 'runTransactionOnDirectory', 'Got keyset', {
-      hasWriteKey: !!ks.writeKey,
-      hasEncryptionKey: !!ks.encryptionKey,
-      publicKey: ks.publicKey
+
+    await this._updateDirectory(parentPath, async (dir, writeKey) => {
+      if (await this._hasEntry(dir, name)) {
+        throw new Error(`Destination already exists: ${path}`);
+      }
+      const publicKey = await this._setResolverTarget(
+        await this._deriveWriteKeyForLink(writeKey, name, "resolver_registry"),
+        link
+      );
+      await this._setEntryInDirectory(dir, name, "directory", {
+        link: { type: "resolver_registry", publicKey },
+        ts_seconds: Math.floor(Date.now() / 1000),
+      });
+      return dir;
     });
+  }
 
-    const maxRetries = 5;
-    for (let attempt = 1; attempt <= maxRetries; attempt++) {
-      dbg('DIRECTORY', 'runTransactionOnDirectory', `Attempt ${attempt}/${maxRetries}`, { uri: uri.slice(0, 50) });
+  /**
+   * Point an existing resolver link at a new target. Only the resolver's
+   * registry entry changes, the parent directory is not touched.
+   * @param path Path of the resolver link
+   * @param target Link to point at, or the path of a directory whose link is used
+   */
+  public async updateResolverLink(
+    path: string,
+    target: DirLink | string
+  ): Promise<void> {
+    path = normalizePath(path);
+    const segments = path.split("/").filter((s) => s);
+    if (segments.length < 2) {
+      throw new Error(`Not a resolver link: ${path}`);
+    }
+    const name = segments[segments.length - 1];
+    const parentPath = segments.slice(0, -1).join("/");
+
+    const parentKs = await this.getKeySet(await this._preprocessLocalPath(parentPath));
+    const parentDir = await this._getDirectoryMetadata(parentKs);
+    const dirRef = parentDir
+      ? await this._getDirectoryFromDirectory(parentDir.directory, name)
+      : undefined;
+    if (!dirRef) {
+      throw new Error(`Path not found: ${path}`);
+    }
+    if (dirRef.link.type !== "resolver_registry" || !dirRef.link.publicKey) {
+      throw new Error(`Not a resolver link: ${path}`);
+    }
+    if (!parentKs.writeKey) {
+      throw new Error(`Missing write access for ${path}`);
+    }
 
-      // Re-fetch directory metadata on each attempt to get current revision
-      let dir: { directory: DirV1; entry?: RegistryEntry } | undefined;
-      try {
-        dbg('DIRECTORY', 'runTransactionOnDirectory', 'Fetching directory metadata...');
-        dir = await this._getDirectoryMetadata(ks);
-        dbg('DIRECTORY', 'runTransactionOnDirectory', 'Got directory metadata', {
-          hasDirectory: !!dir?.directory,
-          hasEntry: !!dir?.entry,
-          entryRevision: dir?.entry?.revision,
-          fileCount: dir?.directory?.files?.size,
-          dirCount: dir?.directory?.dirs?.size
-        });
-      } catch (metadataError: any) {
-        dbgError('DIRECTORY', 'runTransactionOnDirectory', `_getDirectoryMetadata failed (attempt ${attempt})`, metadataError);
-        if (attempt < maxRetries) {
-          await new Promise(r => setTimeout(r, 100 * attempt));
+    const link = await this._resolveLinkTarget(target);
+    const resolverWriteKey = await this._resolveChildWriteKey(
+      parentKs.writeKey,
+      name,
+      dirRef
+    );
+    const publicKey = resolverWriteKey
+      ? (await this.api.crypto.newKeyPairEd25519(resolverWriteKey)).publicKey
+      : undefined;
+    if (!publicKey || !areArraysEqual(publicKey.subarray(1), dirRef.link.publicKey)) {
+      throw new Error(`Missing write access for ${path}`);
+    }
+    await this._setResolverTarget(resolverWriteKey!, link);
+  }
+
+  /**
+   * Watch a directory for changes made by this or any other device. Every new
+   * registry revision of the directory is diffed against the previous one.
+   * Changes inside subdirectories are not reported.
+   * @param path Path to the directory
+   * @param options Optional AbortSignal to stop watching
+   * @returns Async iterator of change events
+   */
+  public async *watch(
+    path: string,
+    options?: WatchOptions
+  ): AsyncIterableIterator<WatchEvent> {
+    path = normalizePath(path);
+    const ks = await this.getKeySet(await this._preprocessLocalPath(path));
+    if (ks.publicKey[0] == mhashBlake3Default) {
+      throw new Error(`Cannot watch immutable directory: ${path}`);
+    }
+
+    // Subscribe before loading the current state so no revision is missed
+    const updates = this.api.registryListen(ks.publicKey);
+    const stop = () => {
+      updates.return?.();
+    };
+    options?.signal?.addEventListener("abort", stop);
+
+    try {
+      const initial = await this._getDirectoryMetadata(ks);
+      let revision = initial?.entry?.revision ?? -1;
+      let entries = initial
+        ? await this._getAllEntries(initial.directory)
+        : new Map<string, DirectoryEntry>();
+
+      while (!options?.signal?.aborted) {
+        const update = await updates.next();
+        if (update.done) {
+          return;
+        }
+        if (update.value.revision <= revision) {
           continue;
         }
-        return new DirectoryTransactionResult(
-          DirectoryTransactionResultType.Error,
-          new Error(`Failed to get directory metadata: ${metadataError?.message || metadataError}`)
-        );
-      }
 
-      const willUseRevision = (dir?.entry?.revision ?? 0) + 1;
-      dbg('REVISION', 'runTransactionOnDirectory', `Revision planning`, {
-        currentRevision: dir?.entry?.revision ?? 'none',
-        willUseRevision,
-        attempt
-      });
+        const metadata = await this._getDirectoryMetadata(ks);
+        if (!metadata?.entry || metadata.entry.revision <= revision) {
+          continue;
+        }
+        revision = metadata.entry.revision;
+
+        const nextEntries = await this._getAllEntries(metadata.directory);
+        for (const change of this._diffEntries(entries, nextEntries)) {
+          yield {
+            ...change,
+            path: path ? `${path}/${change.name}` : change.name,
+            revision,
+          };
+        }
+        entries = nextEntries;
+      }
+    } finally {
+      options?.signal?.removeEventListener("abort", stop);
+      await updates.return?.();
+    }
+  }
 
-      try {
-        dbg('DIRECTORY', 'runTransactionOnDirectory', 'Executing transaction function...');
-        const transactionRes = await transaction(
-          dir?.directory ?? {
-            magic: "S5.pro",
-            header: {},
+  /**
+   * List files and directories at the specified path
+   * @param path Path to the directory
+   * @returns Async iterator of ListResult items
+   */
+  public async *list(
+    path: string,
+    options?: ListOptions
+  ): AsyncIterableIterator<ListResult> {
+    path = normalizePath(path);
+    const dir = await this._loadDirectory(path);
+
+    if (!dir) {
+      return; // Directory doesn't exist - return empty iterator
+    }
+
+    debug.fs5(' Path API: LIST', {
+      path: path,
+      isSharded: !!(dir.header.sharding?.root?.cid),
+      withCursor: !!options?.cursor,
+      limit: options?.limit,
+      totalEntries: dir.header.sharding?.root?.totalEntries || (dir.files.size + dir.dirs.size)
+    });
+
+    // Sorted listings need every entry up front, for inline and sharded directories alike
+    if (options?.sortBy !== undefined || options?.order !== undefined) {
+      yield* this._listSorted(dir, options);
+      return;
+    }
+
+    // Check if this is a sharded directory
+    if (dir.header.sharding?.root?.cid) {
+      // Use HAMT-based listing
+      const hamtData = await this.api.downloadBlobAsBytes(
+        dir.header.sharding.root.cid
+      );
+      const hamt = await HAMT.deserialise(hamtData, this.api);
+
+      let count = 0;
+      for await (const item of this._listWithHAMT(hamt, options?.cursor)) {
+        if (options?.filter && !options.filter(item)) {
+          continue;
+        }
+        yield item;
+        count++;
+        if (options?.limit && count >= options.limit) {
+          break;
+        }
+      }
+      return;
+    }
+
+    // Regular directory listing
+    // Parse cursor if provided
+    let startPosition: CursorData | undefined;
+    if (options?.cursor !== undefined) {
+      try {
+        startPosition = this._parseCursor(options.cursor);
+      } catch (e) {
+        throw new Error(`Invalid cursor: ${e}`);
+      }
+    }
+
+    // Collect all items for consistent ordering
+    const allItems: Array<{
+      name: string;
+      type: "file" | "directory";
+      data: any;
+    }> = [];
+
+    // Add all files
+    for (const [name, fileRef] of dir.files) {
+      allItems.push({ name, type: "file", data: fileRef });
+    }
+
+    // Add all directories
+    for (const [name, dirRef] of dir.dirs) {
+      allItems.push({ name, type: "directory", data: dirRef });
+    }
+
+    // Sort items for consistent ordering (files first, then by name)
+    allItems.sort((a, b) => {
+      if (a.type !== b.type) {
+        return a.type === "file" ? -1 : 1;
+      }
+      return a.name.localeCompare(b.name);
+    });
+
+    // Find start position if cursor provided
+    let startIndex = 0;
+    if (startPosition) {
+      const foundIndex = allItems.findIndex(
+        (item) =>
+          item.name === startPosition.position &&
+          item.type === startPosition.type
+      );
+      if (foundIndex >= 0) {
+        startIndex = foundIndex + 1; // Start after the cursor position
+      }
+    }
+
+    // Apply limit if provided
+    const limit = options?.limit;
+    let count = 0;
+
+    // Yield items starting from cursor position
+    for (let i = startIndex; i < allItems.length; i++) {
+      if (limit && count >= limit) {
+        break;
+      }
+
+      const item = allItems[i];
+      const result: ListResult = {
+        name: item.name,
+        type: item.type,
+        cursor: this._encodeCursor({
+          position: item.name,
+          type: item.type,
+          timestamp: Date.now(),
+        }),
+      };
+
+      if (item.type === "file") {
+        result.size = Number(item.data.size);
+        result.mediaType = item.data.media_type;
+        result.timestamp = item.data.timestamp
+          ? item.data.timestamp * 1000
+          : undefined; // Convert to milliseconds
+      } else {
+        result.timestamp = item.data.ts_seconds
+          ? item.data.ts_seconds * 1000
+          : undefined; // Convert to milliseconds
+      }
+
+      if (options?.filter && !options.filter(result)) {
+        continue;
+      }
+      yield result;
+      count++;
+    }
+  }
+
+  /**
+   * Search a directory tree for files matching a query. Entries are visited
+   * depth-first in name order, so a cursor resumes exactly where an earlier
+   * search stopped.
+   * @param root Directory to search (e.g., "home/photos")
+   * @param query Glob, media type, size and time filters plus limit and cursor
+   * @returns Async iterator of matching files with their FileRef
+   */
+  public async *find(
+    root: string,
+    query: FindQuery = {}
+  ): AsyncIterableIterator<FindResult> {
+    root = normalizePath(root);
+    const pattern = query.glob !== undefined ? globToRegExp(query.glob) : undefined;
+    const after = query.cursor !== undefined ? this._parseFindCursor(query.cursor) : undefined;
+    debug.fs5(' Path API: FIND', {
+      root: root,
+      query: { ...query, cursor: query.cursor ? 'resuming' : undefined }
+    });
+
+    if (query.limit !== undefined && query.limit <= 0) {
+      return;
+    }
+
+    let count = 0;
+    for await (const { segments, fileRef } of this._walkFiles(root, [], after)) {
+      const relativePath = segments.join("/");
+      if (!this._matchesFindQuery(relativePath, fileRef, query, pattern)) {
+        continue;
+      }
+
+      yield {
+        path: root ? `${root}/${relativePath}` : relativePath,
+        name: segments[segments.length - 1],
+        size: Number(fileRef.size),
+        mediaType: fileRef.media_type,
+        timestamp: fileRef.timestamp ? fileRef.timestamp * 1000 : undefined,
+        fileRef: fileRef,
+        cursor: base64UrlNoPaddingEncode(encodeS5(segments)),
+      };
+
+      count++;
+      if (query.limit !== undefined && count >= query.limit) {
+        return;
+      }
+    }
+  }
+
+  public async uploadBlobWithoutEncryption(
+    blob: Blob
+  ): Promise<{ hash: Uint8Array; size: number }> {
+    const blobIdentifier = await this.api.uploadBlob(blob);
+    return {
+      hash: blobIdentifier.hash.subarray(1), // Remove multihash prefix
+      size: blob.size,
+    };
+  }
+
+  public async downloadAndDecryptBlob(
+    hash: Uint8Array,
+    encryptionKey: Uint8Array,
+    size: number
+  ): Promise<Uint8Array> {
+    // Download encrypted blob
+    const encryptedData = await this.api.downloadBlobAsBytes(
+      new Uint8Array([MULTIHASH_BLAKE3, ...hash])
+    );
+    return this._decryptBlobData(encryptedData, encryptionKey, size);
+  }
+
+  /**
+   * Decrypt a blob written by _encryptAndUploadBlob
+   * @param encryptedData The stored blob
+   * @param encryptionKey Encryption key (32 bytes)
+   * @param size Plaintext size
+   * @returns The plaintext
+   */
+  private async _decryptBlobData(
+    encryptedData: Uint8Array,
+    encryptionKey: Uint8Array,
+    size: number
+  ): Promise<Uint8Array> {
+    const maxChunkSizeAsPowerOf2 = 18;
+    const maxChunkSize = 262144; // 256 KiB
+    const chunkCount = Math.ceil(size / maxChunkSize);
+
+    const decryptedChunks: Uint8Array[] = [];
+
+    // Decrypt each chunk
+    for (let chunkIndex = 0; chunkIndex < chunkCount; chunkIndex++) {
+      const chunkStart = chunkIndex * (maxChunkSize + 16); // +16 for poly1305 tag
+      const chunkEnd = Math.min(
+        (chunkIndex + 1) * (maxChunkSize + 16),
+        encryptedData.length
+      );
+      const encryptedChunk = encryptedData.slice(chunkStart, chunkEnd);
+
+      const decrypted = await this.api.crypto.decryptXChaCha20Poly1305(
+        encryptionKey,
+        encodeLittleEndian(chunkIndex, 24),
+        encryptedChunk
+      );
+
+      decryptedChunks.push(decrypted);
+    }
+
+    // Combine all decrypted chunks
+    const combined = new Uint8Array(
+      decryptedChunks.reduce((total, chunk) => total + chunk.length, 0)
+    );
+    let offset = 0;
+    for (const chunk of decryptedChunks) {
+      combined.set(chunk, offset);
+      offset += chunk.length;
+    }
+
+    // Return only the original size (remove padding)
+    return combined.slice(0, size);
+  }
+
+  /**
+   * Encrypt a blob and upload it, returning the encrypted blob's hash
+   * @param blob Blob to encrypt
+   * @param encryptionKey Encryption key (32 bytes)
+   * @returns Encrypted blob identifier with hash, and the encrypted blob itself
+   */
+  private async _encryptAndUploadBlob(
+    blob: Blob,
+    encryptionKey: Uint8Array
+  ): Promise<{ hash: Uint8Array; size: number; blob: Blob }> {
+    const size = blob.size;
+    const maxChunkSize = 262144; // 256 KiB
+    const chunkCount = Math.ceil(size / maxChunkSize);
+
+    let encryptedBlob = new Blob();
+
+    // Encrypt each chunk
+    for (let chunkIndex = 0; chunkIndex < chunkCount; chunkIndex++) {
+      const chunkStart = chunkIndex * maxChunkSize;
+      const chunkEnd = Math.min((chunkIndex + 1) * maxChunkSize, size);
+      const plaintext = new Uint8Array(
+        await blob.slice(chunkStart, chunkEnd).arrayBuffer()
+      );
+
+      const encrypted = await this.api.crypto.encryptXChaCha20Poly1305(
+        encryptionKey,
+        encodeLittleEndian(chunkIndex, 24),
+        plaintext
+      );
+
+      encryptedBlob = new Blob([encryptedBlob as BlobPart, encrypted as BlobPart]);
+    }
+
+    // Upload encrypted blob
+    const encryptedBlobIdentifier = await this.api.uploadBlob(encryptedBlob);
+
+    return {
+      hash: encryptedBlobIdentifier.hash.subarray(1), // Remove multihash prefix
+      size: encryptedBlob.size,
+      blob: encryptedBlob,
+    };
+  }
+
+  public async uploadBlobEncrypted(
+    blob: Blob
+  ): Promise<{ hash: Uint8Array; size: number; encryptionKey: Uint8Array; encryptedBlobHash: Uint8Array; padding: number }> {
+    const plaintextBlake3Hash = await this.api.crypto.hashBlake3Blob(blob);
+    const size = blob.size;
+    const plaintextBlobIdentifier = new BlobIdentifier(
+      new Uint8Array([MULTIHASH_BLAKE3, ...plaintextBlake3Hash]),
+      size
+    );
+
+    const maxChunkSizeAsPowerOf2 = 18;
+    const maxChunkSize = 262144; // 256 KiB
+    const chunkCount = Math.ceil(size / maxChunkSize);
+    const totalSizeWithEncryptionOverhead = size + chunkCount * 16;
+    let padding =
+      padFileSize(totalSizeWithEncryptionOverhead) -
+      totalSizeWithEncryptionOverhead;
+    const lastChunkSize = size % maxChunkSize;
+    if (padding + lastChunkSize >= maxChunkSize) {
+      padding = maxChunkSize - lastChunkSize;
+    }
+
+    const encryptionKey = this.api.crypto.generateSecureRandomBytes(32);
+
+    let encryptedBlob = new Blob();
+
+    for (let chunkIndex = 0; chunkIndex < chunkCount - 1; chunkIndex++) {
+      const plaintext = new Uint8Array(
+        await blob
+          .slice(chunkIndex * maxChunkSize, (chunkIndex + 1) * maxChunkSize)
+          .arrayBuffer()
+      );
+      const encrypted = await this.api.crypto.encryptXChaCha20Poly1305(
+        encryptionKey,
+        encodeLittleEndian(chunkIndex, 24),
+        plaintext
+      );
+      encryptedBlob = new Blob([encryptedBlob as BlobPart, encrypted as BlobPart]);
+    }
+    const lastChunkPlaintext = new Uint8Array([
+      ...new Uint8Array(
+        await blob.slice((chunkCount - 1) * maxChunkSize).arrayBuffer()
+      ),
+      ...new Uint8Array(padding),
+    ]);
+
+    const lastChunkEncrypted = await this.api.crypto.encryptXChaCha20Poly1305(
+      encryptionKey,
+      encodeLittleEndian(chunkCount - 1, 24),
+      lastChunkPlaintext
+    );
+    encryptedBlob = new Blob([encryptedBlob as BlobPart, lastChunkEncrypted as BlobPart]);
+
+    const encryptedBlobIdentifier = await this.api.uploadBlob(encryptedBlob);
+
+    const plaintextCID = new Uint8Array([
+      0x26,
+      ...plaintextBlobIdentifier.toBytes().subarray(2),
+    ]);
+    plaintextCID[1] = 0x1f;
+
+    const cidTypeEncryptedStatic = 0xae;
+    const encryptedCIDBytes = new Uint8Array([
+      cidTypeEncryptedStatic,
+      ENCRYPTION_ALGORITHM_XCHACHA20POLY1305,
+      maxChunkSizeAsPowerOf2,
+      0x1f,
+      ...encryptedBlobIdentifier.hash.subarray(1),
+      ...encryptionKey,
+      ...encodeLittleEndian(padding, 4),
+      ...plaintextCID,
+    ]);
+
+    return {
+      hash: plaintextBlake3Hash,
+      size: size,
+      encryptionKey: encryptionKey,
+      encryptedBlobHash: encryptedBlobIdentifier.hash.subarray(1),
+      padding: padding,
+    };
+  }
+
+  async createDirectory(path: string, name: string): Promise<DirRef> {
+    dbg('DIRECTORY', 'createDirectory', 'ENTER', { path, name });
+    // TODO validateFileSystemEntityName(name);
+
+    let dirReference: DirRef | undefined;
+
+    const preprocessedPath = await this._preprocessLocalPath(path);
+    dbg('DIRECTORY', 'createDirectory', 'Preprocessed path', { preprocessedPath });
+
+    const res = await this.runTransactionOnDirectory(
+      preprocessedPath,
+      async (dir, writeKey) => {
+        dbg('DIRECTORY', 'createDirectory', 'Transaction callback', {
+          isSharded: !!dir.header.sharding?.root?.cid,
+          existingDirs: Array.from(dir.dirs.keys())
+        });
+
+        // Check if directory is sharded
+        if (dir.header.sharding?.root?.cid) {
+          dbg('DIRECTORY', 'createDirectory', 'Loading HAMT for sharded directory...');
+          // Load HAMT
+          const hamtData = await this.api.downloadBlobAsBytes(
+            dir.header.sharding.root.cid
+          );
+          const hamt = await HAMT.deserialise(hamtData, this.api);
+
+          // Check if already exists
+          const existingDir = await hamt.get(`d:${name}`);
+          if (existingDir) {
+            dbgError('DIRECTORY', 'createDirectory', 'Subdirectory already exists in HAMT', new Error(`name: ${name}`));
+            throw new Error(
+              "Directory already contains a subdirectory with the same name"
+            );
+          }
+
+          // Create new directory and add to HAMT
+          dbg('DIRECTORY', 'createDirectory', 'Creating subdirectory (sharded)', { name });
+          const newDir = await this._createDirectory(name, writeKey);
+          await hamt.insert(`d:${name}`, newDir);
+
+          // Save updated HAMT
+          const newHamtData = hamt.serialise();
+          const { hash } = await this.api.uploadBlob(new Blob([newHamtData as BlobPart]));
+          dir.header.sharding.root.cid = hash;
+          dir.header.sharding.root.totalEntries++;
+
+          dirReference = newDir;
+          dbg('DIRECTORY', 'createDirectory', 'Subdirectory created in HAMT', { name });
+        } else {
+          // Regular directory
+          if (dir.dirs.has(name)) {
+            dbgError('DIRECTORY', 'createDirectory', 'Subdirectory already exists', new Error(`name: ${name}`));
+            throw new Error(
+              "Directory already contains a subdirectory with the same name"
+            );
+          }
+          dbg('DIRECTORY', 'createDirectory', 'Creating subdirectory (regular)', { name });
+          const newDir = await this._createDirectory(name, writeKey);
+          dir.dirs.set(name, newDir);
+          dirReference = newDir;
+
+          // Check if we need to convert to sharded
+          await this._checkAndConvertToSharded(dir);
+          dbg('DIRECTORY', 'createDirectory', 'Subdirectory created', { name, totalDirs: dir.dirs.size });
+        }
+        return dir;
+      }
+    );
+    dbg('DIRECTORY', 'createDirectory', 'Transaction complete, unwrapping...', { resultType: res.type });
+    res.unwrap();
+    dbg('DIRECTORY', 'createDirectory', 'SUCCESS', { path, name });
+    return dirReference!;
+  }
+  public async createFile(
+    directoryPath: string,
+    fileName: string,
+    fileVersion: { ts: number; data: any },
+    mediaType?: string
+  ): Promise<FileRef> {
+    // TODO validateFileSystemEntityName(name);
+
+    let fileReference: FileRef | undefined;
+
+    const res = await this.runTransactionOnDirectory(
+      await this._preprocessLocalPath(directoryPath),
+      async (dir, _) => {
+        if (dir.files.has(fileName)) {
+          throw new Error("Directory already contains a file with the same name");
+        }
+        const file: FileRef = {
+          hash: new Uint8Array(32), // Placeholder - should be computed from data
+          size: 0,
+          media_type: mediaType,
+          timestamp: fileVersion.ts,
+        };
+        dir.files.set(fileName, file);
+        fileReference = file;
+
+        return dir;
+      }
+    );
+    res.unwrap();
+    return fileReference!;
+  }
+
+  private async runTransactionOnDirectory(
+    uri: string,
+    transaction: DirectoryTransactionFunction
+  ): Promise<DirectoryTransactionResult> {
+    const release = await this.directoryLocks.acquire(uri);
+    try {
+    dbg('DIRECTORY', 'runTransactionOnDirectory', 'ENTER', { uri: uri.slice(0, 80) });
+
+    const ks = await this.getKeySet(uri);
+    if (ks.writeKey == null) {
+      dbgError('DIRECTORY', 'runTransactionOnDirectory', 'Missing write access', { uri });
+      throw new Error(`Missing write access for ${uri}`);
+    }
+    dbg('DIRECTORY', 'runTransactionOnDirectory', 'Got keyset', {
+      hasWriteKey: !!ks.writeKey,
+      hasEncryptionKey: !!ks.encryptionKey,
+      publicKey: ks.publicKey
+    });
+
+    const maxRetries = 5;
+    for (let attempt = 1; attempt <= maxRetries; attempt++) {
+      dbg('DIRECTORY', 'runTransactionOnDirectory', `Attempt ${attempt}/${maxRetries}`, { uri: uri.slice(0, 50) });
+
+      // Re-fetch directory metadata on each attempt to get current revision
+      let dir: { directory: DirV1; entry?: RegistryEntry } | undefined;
+      try {
+        dbg('DIRECTORY', 'runTransactionOnDirectory', 'Fetching directory metadata...');
+        dir = await this._getDirectoryMetadata(ks);
+        dbg('DIRECTORY', 'runTransactionOnDirectory', 'Got directory metadata', {
+          hasDirectory: !!dir?.directory,
+          hasEntry: !!dir?.entry,
+          entryRevision: dir?.entry?.revision,
+          fileCount: dir?.directory?.files?.size,
+          dirCount: dir?.directory?.dirs?.size
+        });
+      } catch (metadataError: any) {
+        dbgError('DIRECTORY', 'runTransactionOnDirectory', `_getDirectoryMetadata failed (attempt ${attempt})`, metadataError);
+        if (attempt < maxRetries) {
+          await new Promise(r => setTimeout(r, 100 * attempt));
+          continue;
+        }
+        return new DirectoryTransactionResult(
+          DirectoryTransactionResultType.Error,
+          new Error(`Failed to get directory metadata: ${metadataError?.message || metadataError}`)
+        );
+      }
+
+      const willUseRevision = (dir?.entry?.revision ?? 0) + 1;
+      dbg('REVISION', 'runTransactionOnDirectory', `Revision planning`, {
+        currentRevision: dir?.entry?.revision ?? 'none',
+        willUseRevision,
+        attempt
+      });
+
+      try {
+        dbg('DIRECTORY', 'runTransactionOnDirectory', 'Executing transaction function...');
+        const transactionRes = await transaction(
+          dir?.directory ?? {
+            magic: "S5.pro",
+            header: {},
+            dirs: new Map(),
+            files: new Map(),
+          },
+          ks.writeKey!,
+          ks
+        );
+        if (transactionRes == null) {
+          dbg('DIRECTORY', 'runTransactionOnDirectory', 'Transaction returned null (not modified)');
+          return new DirectoryTransactionResult(
+            DirectoryTransactionResultType.NotModified
+          );
+        }
+        dbg('DIRECTORY', 'runTransactionOnDirectory', 'Transaction returned modified directory', {
+          fileCount: transactionRes.files?.size,
+          dirCount: transactionRes.dirs?.size
+        });
+
+        // TODO Make sure this is secure
+        dbg('DIRECTORY', 'runTransactionOnDirectory', 'Serializing directory...');
+        const serialized = DirV1Serialiser.serialise(transactionRes);
+        dbg('DIRECTORY', 'runTransactionOnDirectory', 'Serialized', { byteLength: serialized.length });
+
+        const newBytes =
+          ks.encryptionKey !== undefined
+            ? await encryptMutableBytes(
+                serialized,
+                ks.encryptionKey!,
+                this.api.crypto
+              )
+            : serialized;
+        dbg('DIRECTORY', 'runTransactionOnDirectory', 'Prepared bytes for upload', {
+          encrypted: ks.encryptionKey !== undefined,
+          byteLength: newBytes.length
+        });
+
+        dbg('UPLOAD', 'runTransactionOnDirectory', 'Uploading directory blob...');
+        const cid = await this.api.uploadBlob(new Blob([newBytes as BlobPart]));
+        dbg('UPLOAD', 'runTransactionOnDirectory', 'Upload complete', { cidHash: cid.hash });
+
+        const kp = await this.api.crypto.newKeyPairEd25519(ks.writeKey!);
+        const revisionToUse = (dir?.entry?.revision ?? 0) + 1;
+
+        dbg('REGISTRY', 'runTransactionOnDirectory', 'Creating registry entry', {
+          revision: revisionToUse,
+          publicKey: kp.publicKey
+        });
+        const entry = await createRegistryEntry(
+          kp,
+          cid.hash,
+          revisionToUse,
+          this.api.crypto
+        );
+
+        dbg('REGISTRY', 'runTransactionOnDirectory', 'Setting registry entry...');
+        await this.api.registrySet(entry);
+        dbg('REGISTRY', 'runTransactionOnDirectory', 'Registry entry set successfully');
+
+        dbg('DIRECTORY', 'runTransactionOnDirectory', 'SUCCESS', { revision: revisionToUse });
+        return new DirectoryTransactionResult(DirectoryTransactionResultType.Ok);
+      } catch (e: any) {
+        const message = (typeof e === 'string' ? e : (e?.message || '')).toLowerCase();
+        const isRevisionError = message.includes('revision') && message.includes('low');
+
+        dbgError('DIRECTORY', 'runTransactionOnDirectory', `Error on attempt ${attempt}`, {
+          error: e?.message || e,
+          isRevisionError,
+          dirEntryRevision: dir?.entry?.revision,
+          attemptedRevision: (dir?.entry?.revision ?? 0) + 1,
+          stack: typeof e?.stack === 'string' ? e.stack.split('\n').slice(0, 5) : undefined
+        });
+
+        if (isRevisionError && attempt < maxRetries) {
+          dbg('REVISION', 'runTransactionOnDirectory', `Revision conflict, retrying (${attempt}/${maxRetries})...`);
+          // Small delay before retry
+          await new Promise(r => setTimeout(r, 50 * attempt));
+          continue;
+        }
+
+        dbgError('DIRECTORY', 'runTransactionOnDirectory', 'FAILED - returning error', { attempt, maxRetries });
+        return new DirectoryTransactionResult(
+          DirectoryTransactionResultType.Error,
+          e
+        );
+      }
+    }
+
+    // Should not reach here, but TypeScript needs a return
+    return new DirectoryTransactionResult(
+      DirectoryTransactionResultType.Error,
+      new Error('Max retries exceeded')
+    );
+    } finally {
+      release();
+    }
+  }
+
+  // In ensureIdentityInitialized method
+  public async ensureIdentityInitialized(): Promise<void> {
+    const res = await this.runTransactionOnDirectory(
+      await this._buildRootWriteURI(),
+      async (dir, writeKey) => {
+        const names = ["home", "archive"];
+        let hasChanges = false;
+
+        for (const name of names) {
+          if (!dir.dirs.has(name)) {
+            // Create the subdirectory and get its reference
+            const dirRef = await this._createDirectory(name, writeKey);
+            dir.dirs.set(name, dirRef);
+            hasChanges = true;
+          } else {
+            // Verify the existing reference is valid
+            const existingRef = dir.dirs.get(name);
+            if (!existingRef || !existingRef.link) {
+              // Fix broken reference
+              const dirRef = await this._createDirectory(name, writeKey);
+              dir.dirs.set(name, dirRef);
+              hasChanges = true;
+            }
+          }
+        }
+
+        // Always return the directory if we made changes
+        return hasChanges ? dir : undefined;
+      }
+    );
+    res.unwrap();
+  }
+
+  /**
+   * Derive a write key for a child directory deterministically
+   * @param parentWriteKey Parent directory's write key
+   * @param childName Name of the child directory
+   * @returns Write key for the child directory
+   */
+  private async _deriveWriteKeyForChildDirectory(
+    parentWriteKey: Uint8Array,
+    childName: string
+  ): Promise<Uint8Array> {
+    // Derive child write key by hashing parent write key + child name
+    const childNameBytes = new TextEncoder().encode(childName);
+    
+    // Use deriveHashString which accepts variable-length tweak data
+    return deriveHashString(parentWriteKey, childNameBytes, this.api.crypto);
+  }
+
+  /**
+   * Resolve the write key of a child directory. Directories that were moved
+   * or renamed carry their original write key wrapped for the new parent,
+   * all others use the derived key.
+   * @param parentWriteKey Parent directory's write key
+   * @param childName Name of the child directory
+   * @param dirRef Reference to the child directory
+   * @returns Write key for the child directory
+   */
+  private async _resolveChildWriteKey(
+    parentWriteKey: Uint8Array,
+    childName: string,
+    dirRef: DirRef
+  ): Promise<Uint8Array | undefined> {
+    const wrapped = dirRef.extra?.get(DIR_REF_EXTRA_WRAPPED_WRITE_KEY);
+    if (wrapped instanceof Uint8Array) {
+      return decryptMutableBytes(
+        wrapped,
+        deriveHashInt(parentWriteKey, WRAPPED_WRITE_KEY_TWEAK, this.api.crypto),
+        this.api.crypto
+      );
+    }
+    if (dirRef.extra?.has(DIR_REF_EXTRA_MOUNT)) {
+      return undefined; // Read-only mount, the foreign key can't be derived from ours
+    }
+    return this._deriveWriteKeyForLink(parentWriteKey, childName, dirRef.link.type);
+  }
+
+  /**
+   * Key the DirV1 blobs behind a DirRef are encrypted with, if any
+   * @param dirRef Reference to the directory
+   * @param parentKs Key set of the directory holding the reference
+   * @returns The key, or undefined if the directory isn't encrypted or
+   *   parentKs lacks the key it is wrapped with
+   */
+  private async _getDirRefEncryptionKey(
+    dirRef: DirRef,
+    parentKs: KeySet
+  ): Promise<Uint8Array | undefined> {
+    const wrapped = dirRef.extra?.get(DIR_REF_EXTRA_WRAPPED_ENCRYPTION_KEY);
+    if (wrapped instanceof Uint8Array) {
+      const wrappingKey = this._encryptionKeyWrappingKey(parentKs);
+      return wrappingKey
+        ? decryptMutableBytes(wrapped, wrappingKey, this.api.crypto)
+        : undefined;
+    }
+    const mount = dirRef.extra?.get(DIR_REF_EXTRA_MOUNT);
+    return mount instanceof Map && mount.get("encryption_key") instanceof Uint8Array
+      ? mount.get("encryption_key")
+      : undefined;
+  }
+
+  /**
+   * Publish a copy of a directory under a fresh write key and encryption key
+   * @param path Directory path, used to load its current content
+   * @param dirRef Current reference to the directory
+   * @param writeKey Current write key of the directory
+   * @param newParentKs Key set of the parent after rotation
+   * @param options Whether to rotate subdirectories and re-encrypt files
+   * @param sources Collects the registry revision each rotated directory was copied at
+   * @returns Reference to store in the parent
+   */
+  private async _rotateDirectoryKeys(
+    path: string,
+    dirRef: DirRef,
+    writeKey: Uint8Array,
+    newParentKs: KeySet,
+    options: RotateKeysOptions,
+    sources: RotatedDirectorySource[]
+  ): Promise<DirRef> {
+    const ks = await this.getKeySet(await this._preprocessLocalPath(path));
+    const metadata = await this._getDirectoryMetadata(ks);
+    sources.push({ path: path, publicKey: ks.publicKey, revision: metadata?.entry?.revision });
+    const dir: DirV1 = metadata?.directory ?? {
+      magic: "S5.pro",
+      header: {},
+      dirs: new Map(),
+      files: new Map(),
+    };
+    const newKs = await this._deriveKeySetFromWriteKey(
+      this.api.crypto.generateSecureRandomBytes(32)
+    );
+
+    for (const entry of (await this._getAllEntries(dir)).values()) {
+      if (entry.type === "file") {
+        const fileRef = entry.ref as FileRef;
+        if (options.reencryptFiles && fileRef.extra?.has("encryption")) {
+          await this._setEntryInDirectory(
+            dir,
+            entry.name,
+            "file",
+            await this._reencryptFile(fileRef)
+          );
+        }
+        continue;
+      }
+
+      const childRef = entry.ref as DirRef;
+      const childWriteKey = await this._resolveChildWriteKey(writeKey, entry.name, childRef);
+      const rotateChild =
+        options.recursive &&
+        childWriteKey !== undefined &&
+        childRef.link.type === "mutable_registry_ed25519" &&
+        !childRef.extra?.has(DIR_REF_EXTRA_MOUNT);
+      // Children that keep their keys carry them along, derived keys would change
+      const updated = rotateChild
+        ? await this._rotateDirectoryKeys(
+            `${path}/${entry.name}`,
+            childRef,
+            childWriteKey!,
+            newKs,
+            options,
+            sources
+          )
+        : await this._relinkDirRef(childRef, childWriteKey, ks, newKs, entry.name);
+      await this._setEntryInDirectory(dir, entry.name, "directory", updated);
+    }
+
+    const encrypted = await encryptMutableBytes(
+      DirV1Serialiser.serialise(dir),
+      newKs.encryptionKey!,
+      this.api.crypto
+    );
+    const cid = await this.api.uploadBlob(new Blob([encrypted as BlobPart]));
+    const kp = await this.api.crypto.newKeyPairEd25519(newKs.writeKey!);
+    await this.api.registrySet(await createRegistryEntry(kp, cid.hash, 1, this.api.crypto));
+    debug.fs5(' Rotated directory keys', { path: path, entries: dir.files.size + dir.dirs.size });
+
+    const extra = new Map(dirRef.extra ?? []);
+    extra.delete(DIR_REF_EXTRA_DISK_USAGE);
+    extra.set(
+      DIR_REF_EXTRA_WRAPPED_WRITE_KEY,
+      await this._wrapWriteKey(newKs.writeKey!, newParentKs.writeKey!)
+    );
+    extra.set(
+      DIR_REF_EXTRA_WRAPPED_ENCRYPTION_KEY,
+      await this._wrapEncryptionKey(newKs.encryptionKey!, newParentKs)
+    );
+    return {
+      ...dirRef,
+      link: { type: "mutable_registry_ed25519", publicKey: kp.publicKey.subarray(1) },
+      ts_seconds: Math.floor(Date.now() / 1000),
+      extra: extra,
+    };
+  }
+
+  /**
+   * Upload the contents of an encrypted file again under a fresh key
+   * @returns FileRef pointing at the new blob, everything else is kept
+   */
+  private async _reencryptFile(fileRef: FileRef): Promise<FileRef> {
+    const data = await this._downloadFileData(fileRef);
+    const key = this.api.crypto.generateSecureRandomBytes(32);
+    const encrypted = await this._encryptAndUploadBlob(new Blob([data as BlobPart]), key);
+
+    const encryption = fileRef.extra!.get("encryption");
+    const extra = new Map(fileRef.extra!);
+    if (extra.has(EXTRA_OUTBOARD_KEY)) {
+      const outboardHash = await this._uploadOutboard(
+        createBaoOutboard(new Uint8Array(await encrypted.blob.arrayBuffer()))
+      );
+      extra.set(EXTRA_OUTBOARD_KEY, outboardHash);
+    }
+    extra.set(
+      "encryption",
+      encryption instanceof Map
+        ? new Map(encryption).set("key", Array.from(key))
+        : { ...encryption, key: Array.from(key) }
+    );
+    return { ...fileRef, hash: encrypted.hash, extra: extra };
+  }
+
+  /**
+   * Encrypt a directory encryption key so it can be stored in its parent's DirRef
+   * @param encryptionKey Key of the child directory
+   * @param parentKs Key set of the parent, needs its encryption key or write key
+   */
+  private async _wrapEncryptionKey(
+    encryptionKey: Uint8Array,
+    parentKs: KeySet
+  ): Promise<Uint8Array> {
+    const wrappingKey = this._encryptionKeyWrappingKey(parentKs);
+    if (!wrappingKey) {
+      throw new Error("Missing write access for the parent directory");
+    }
+    return encryptMutableBytes(encryptionKey, wrappingKey, this.api.crypto);
+  }
+
+  /**
+   * Key that wraps the encryption keys of a directory's children. Readers of
+   * an encrypted parent can unwrap them, for plaintext parents only writers can.
+   */
+  private _encryptionKeyWrappingKey(parentKs: KeySet): Uint8Array | undefined {
+    const secret = parentKs.encryptionKey ?? parentKs.writeKey;
+    return secret
+      ? deriveHashInt(secret, WRAPPED_ENCRYPTION_KEY_TWEAK, this.api.crypto)
+      : undefined;
+  }
+
+  /**
+   * Encrypt a directory write key so it can be stored in its parent's DirRef
+   */
+  private async _wrapWriteKey(
+    childWriteKey: Uint8Array,
+    parentWriteKey: Uint8Array
+  ): Promise<Uint8Array> {
+    return encryptMutableBytes(
+      childWriteKey,
+      deriveHashInt(parentWriteKey, WRAPPED_WRITE_KEY_TWEAK, this.api.crypto),
+      this.api.crypto
+    );
+  }
+
+  /**
+   * Default write key for the registry entry behind a DirRef with the given link type
+   */
+  private async _deriveWriteKeyForLink(
+    parentWriteKey: Uint8Array,
+    childName: string,
+    linkType: DirLink["type"]
+  ): Promise<Uint8Array> {
+    const childWriteKey = await this._deriveWriteKeyForChildDirectory(
+      parentWriteKey,
+      childName
+    );
+    if (linkType === "resolver_registry") {
+      return deriveHashInt(childWriteKey, RESOLVER_WRITE_KEY_TWEAK, this.api.crypto);
+    }
+    return childWriteKey;
+  }
+
+  /**
+   * Re-point a directory reference at a new parent and name. The link itself
+   * is kept, so the directory's registry entry and contents stay in place.
+   * @param dirRef Reference being moved
+   * @param childWriteKey Current write key of the referenced directory
+   * @param sourceParentKs Key set of the directory the reference comes from
+   * @param parentKs Key set of the new parent directory, with write key
+   * @param childName New name of the directory
+   * @returns Reference to store in the new parent
+   */
+  private async _relinkDirRef(
+    dirRef: DirRef,
+    childWriteKey: Uint8Array | undefined,
+    sourceParentKs: KeySet,
+    parentKs: KeySet,
+    childName: string
+  ): Promise<DirRef> {
+    const extra = new Map(dirRef.extra ?? []);
+    if (extra.has(DIR_REF_EXTRA_WRAPPED_ENCRYPTION_KEY)) {
+      const encryptionKey = await this._getDirRefEncryptionKey(dirRef, sourceParentKs);
+      if (!encryptionKey) {
+        throw new Error(`Missing encryption key for directory ${childName}`);
+      }
+      extra.set(
+        DIR_REF_EXTRA_WRAPPED_ENCRYPTION_KEY,
+        await this._wrapEncryptionKey(encryptionKey, parentKs)
+      );
+    }
+
+    const hasRegistryKey =
+      dirRef.link.type === "mutable_registry_ed25519" ||
+      dirRef.link.type === "resolver_registry";
+    if (hasRegistryKey && childWriteKey) {
+      const derived = await this._deriveWriteKeyForLink(
+        parentKs.writeKey!,
+        childName,
+        dirRef.link.type
+      );
+      if (areArraysEqual(derived, childWriteKey)) {
+        extra.delete(DIR_REF_EXTRA_WRAPPED_WRITE_KEY);
+      } else {
+        extra.set(
+          DIR_REF_EXTRA_WRAPPED_WRITE_KEY,
+          await this._wrapWriteKey(childWriteKey, parentKs.writeKey!)
+        );
+      }
+    }
+
+    const relinked: DirRef = { ...dirRef };
+    if (extra.size > 0) {
+      relinked.extra = extra;
+    } else {
+      delete relinked.extra;
+    }
+    return relinked;
+  }
+
+  /**
+   * Read-only key set for the directory a link points to, following resolver links
+   */
+  private async _keySetForLink(link: DirLink): Promise<KeySet> {
+    link = await this._followResolverLink(link);
+    if (link.type === "mutable_registry_ed25519") {
+      if (!link.publicKey) {
+        throw new Error("Missing public key for mutable registry link");
+      }
+      return {
+        publicKey: concatBytes(new Uint8Array([mkeyEd25519]), link.publicKey),
+        writeKey: undefined,
+        encryptionKey: undefined,
+      };
+    } else if (link.type === "fixed_hash_blake3") {
+      if (!link.hash) {
+        throw new Error("Missing hash for fixed hash link");
+      }
+      // For fixed hash links, we don't have a public key
+      return {
+        publicKey: new Uint8Array([mhashBlake3Default, ...link.hash]),
+        writeKey: undefined,
+        encryptionKey: undefined,
+      };
+    }
+    throw new Error(`Unsupported directory link type: ${link.type}`);
+  }
+
+  /**
+   * Replace resolver links by the link stored in their registry entry until
+   * a directory link is reached
+   */
+  private async _followResolverLink(link: DirLink): Promise<DirLink> {
+    for (let hops = 0; link.type === "resolver_registry"; hops++) {
+      if (hops >= MAX_RESOLVER_HOPS) {
+        throw new Error("Too many nested resolver links");
+      }
+      if (!link.publicKey) {
+        throw new Error("Missing public key for resolver link");
+      }
+      const entry = await this.api.registryGet(
+        concatBytes(new Uint8Array([mkeyEd25519]), link.publicKey)
+      );
+      if (!entry) {
+        throw new Error("Resolver link has no target");
+      }
+      link = DirV1Serialiser.deserialiseDirLink(entry.data.subarray(0, 33));
+    }
+    return link;
+  }
+
+  /**
+   * Point the registry entry behind a resolver link at a new target
+   */
+  private async _setResolverTarget(
+    resolverWriteKey: Uint8Array,
+    target: DirLink
+  ): Promise<Uint8Array> {
+    const kp = await this.api.crypto.newKeyPairEd25519(resolverWriteKey);
+    const existingEntry = await this.api.registryGet(kp.publicKey);
+    const entry = await createRegistryEntry(
+      kp,
+      DirV1Serialiser.serialiseDirLink(target),
+      (existingEntry?.revision ?? 0) + 1,
+      this.api.crypto
+    );
+    await this.api.registrySet(entry);
+    return kp.publicKey.subarray(1);
+  }
+
+  /**
+   * Turn a resolver target argument into a link. Paths are resolved to the
+   * link stored for that directory in its parent.
+   */
+  private async _resolveLinkTarget(target: DirLink | string): Promise<DirLink> {
+    if (typeof target !== "string") {
+      const valid =
+        (target.type === "fixed_hash_blake3" && target.hash?.length === 32) ||
+        (target.type !== "fixed_hash_blake3" && target.publicKey?.length === 32);
+      if (!valid) {
+        throw new Error(`Invalid link target: ${target.type}`);
+      }
+      return target;
+    }
+    const segments = normalizePath(target).split("/").filter((s) => s);
+    const parent = segments.length > 1
+      ? await this._loadDirectory(segments.slice(0, -1).join("/"))
+      : undefined;
+    const dirRef = parent
+      ? await this._getDirectoryFromDirectory(parent, segments[segments.length - 1])
+      : undefined;
+    if (!dirRef) {
+      throw new Error(`Path not found: ${target}`);
+    }
+    return dirRef.link;
+  }
+
+  async _createDirectory(
+    name: string,
+    parentWriteKey: Uint8Array
+  ): Promise<DirRef> {
+    dbg('DIRECTORY', '_createDirectory', 'ENTER', { name, parentWriteKey });
+
+    // Derive write key deterministically from parent
+    const newWriteKey = await this._deriveWriteKeyForChildDirectory(parentWriteKey, name);
+    dbg('DIRECTORY', '_createDirectory', 'Derived write key', { newWriteKey });
+
+    const ks = await this._deriveKeySetFromWriteKey(newWriteKey);
+    dbg('DIRECTORY', '_createDirectory', 'Derived keyset', { publicKey: ks.publicKey });
+
+    // Create empty DirV1
+    const emptyDir: DirV1 = {
+      magic: "S5.pro",
+      header: {},
+      dirs: new Map(),
+      files: new Map(),
+    };
+
+    // Serialize and upload
+    const serialized = DirV1Serialiser.serialise(emptyDir);
+    dbg('UPLOAD', '_createDirectory', 'Uploading empty directory blob...', { byteLength: serialized.length });
+    const cid = await this.api.uploadBlob(new Blob([serialized as BlobPart]));
+    dbg('UPLOAD', '_createDirectory', 'Upload complete', { cidHash: cid.hash });
+
+    // Create registry entry for the new directory
+    const kp = await this.api.crypto.newKeyPairEd25519(newWriteKey);
+
+    // Check for existing registry entry to get correct revision
+    // (P2P network may have stale entries from other portals)
+    dbg('REGISTRY', '_createDirectory', 'Checking for existing registry entry...', { publicKey: kp.publicKey });
+    const existingEntry = await this.api.registryGet(kp.publicKey);
+    const revision = (existingEntry?.revision ?? 0) + 1;
+
+    dbg('REVISION', '_createDirectory', 'Revision calculation', {
+      name,
+      existingRevision: existingEntry?.revision ?? 'none',
+      usingRevision: revision
+    });
+
+    dbg('REGISTRY', '_createDirectory', 'Creating registry entry...', { revision });
+    const entry = await createRegistryEntry(
+      kp,
+      cid.hash,
+      revision,
+      this.api.crypto
+    );
+
+    dbg('REGISTRY', '_createDirectory', 'Setting registry entry...');
+    await this.api.registrySet(entry);
+    dbg('REGISTRY', '_createDirectory', 'Registry entry set successfully');
+
+    // Create DirRef pointing to the new directory with mutable registry link
+    const dirRef: DirRef = {
+      link: {
+        type: "mutable_registry_ed25519",
+        publicKey: kp.publicKey.subarray(1), // Remove multicodec prefix
+      },
+      ts_seconds: Math.floor(Date.now() / 1000),
+    };
+
+    dbg('DIRECTORY', '_createDirectory', 'SUCCESS', { name, revision });
+    return dirRef;
+  }
+  /**
+   * Check that the write key of a key set parsed from an fs5:// URI belongs to
+   * its directory. getKeySet() doesn't, as views resolve their root URI on
+   * every operation, so URIs from elsewhere are checked once where they come in.
+   * @returns true if there is no write key or it matches the public key
+   */
+  private async _writeKeyMatches(ks: KeySet): Promise<boolean> {
+    if (!ks.writeKey) {
+      return true;
+    }
+    const kp = await this.api.crypto.newKeyPairEd25519(ks.writeKey);
+    return ks.publicKey[0] === mkeyEd25519 && areArraysEqual(kp.publicKey, ks.publicKey);
+  }
+
+  async _deriveKeySetFromWriteKey(writeKey: Uint8Array): Promise<KeySet> {
+    const publicKey = (await this.api.crypto.newKeyPairEd25519(writeKey))
+      .publicKey;
+    const encryptionKey = deriveHashInt(writeKey, 0x5e, this.api.crypto);
+    return {
+      publicKey: publicKey,
+      writeKey: writeKey,
+      encryptionKey: encryptionKey,
+    };
+  }
+
+  private async getKeySet(uri: string): Promise<KeySet> {
+    const url = new URL(uri);
+    if (url.pathname.length < 2) {
+      const cid = Multibase.decodeString(url.host);
+      if (cid[0] != CID_TYPE_FS5_DIRECTORY)
+        throw new Error("Invalid FS5 URI format");
+
+      let writeKey: Uint8Array | undefined;
+
+      if (url.username.length > 0) {
+        if (url.username != "write") throw new Error("Invalid FS5 URI format");
+
+        writeKey = Multibase.decodeString(url.password).subarray(1);
+      }
+
+      // Write keys are verified with _writeKeyMatches()
+      if (cid[1] == mkeyEd25519) {
+        return {
+          publicKey: cid.subarray(1),
+          writeKey: writeKey,
+          encryptionKey: undefined,
+        };
+      } else if (cid[1] == CID_TYPE_ENCRYPTED_MUTABLE) {
+        const encryptionAlgorithm = cid[2];
+        return {
+          publicKey: cid.subarray(35),
+          writeKey: writeKey,
+          encryptionKey: cid.subarray(3, 35),
+        };
+      } else if (cid[1] == mhashBlake3Default) {
+        return {
+          publicKey: cid.subarray(1),
+          writeKey: writeKey,
+          encryptionKey: undefined,
+        };
+      }
+    }
+    const pathSegments = uri.split("/");
+    const lastPathSegment = pathSegments[pathSegments.length - 1];
+    const parentKeySet = await this.getKeySet(
+      uri.substring(0, uri.length - (lastPathSegment.length + 1))
+    );
+    const parentDirectory = await this._getDirectoryMetadata(parentKeySet);
+
+    // TODO Custom
+    if (parentDirectory === undefined) {
+      throw new Error(`Parent Directory of "${uri}" does not exist`);
+    }
+
+    const dir = await this._getDirectoryFromDirectory(
+      parentDirectory.directory,
+      lastPathSegment
+    );
+    if (dir == undefined) {
+      throw new Error(`Directory "${uri}" does not exist`);
+    }
+    return this._getChildKeySet(parentKeySet, lastPathSegment, dir);
+  }
+
+  /**
+   * Key set of a subdirectory, derived from its parent's key set and its DirRef
+   * @param parentKeySet Key set of the parent directory
+   * @param name Name of the subdirectory in the parent
+   * @param dir DirRef of the subdirectory
+   */
+  private async _getChildKeySet(
+    parentKeySet: KeySet,
+    name: string,
+    dir: DirRef
+  ): Promise<KeySet> {
+    let writeKey: Uint8Array | undefined;
+    let publicKey: Uint8Array;
+
+    // Handle different directory link types
+    if (dir.link.type === "mutable_registry_ed25519") {
+      if (!dir.link.publicKey) {
+        throw new Error("Missing public key for mutable registry link");
+      }
+      publicKey = concatBytes(
+        new Uint8Array([mkeyEd25519]),
+        dir.link.publicKey
+      );
+      // Derive write key from parent's write key if available
+      if (parentKeySet.writeKey) {
+        writeKey = await this._resolveChildWriteKey(parentKeySet.writeKey, name, dir);
+      }
+    } else {
+      // Fixed hash and resolver links are read-only
+      return {
+        ...(await this._keySetForLink(dir.link)),
+        encryptionKey: await this._getDirRefEncryptionKey(dir, parentKeySet),
+      };
+    }
+
+    const ks = {
+      publicKey: publicKey,
+      writeKey: writeKey,
+      encryptionKey: await this._getDirRefEncryptionKey(dir, parentKeySet),
+    };
+
+    return ks;
+  }
+
+  private async _preprocessLocalPath(path: string): Promise<string> {
+    if (path.startsWith("fs5://")) return path;
+    if (this.rootURI !== undefined) {
+      return path === "" || path === "/" ? this.rootURI : `${this.rootURI}/${path}`;
+    }
+    if (path === "" || path === "/") {
+      // Root directory
+      return await this._buildRootWriteURI();
+    }
+    if (`${path}/`.startsWith("home/")) {
+      return `${await this._buildRootWriteURI()}/${path}`;
+    }
+    if (`${path}/`.startsWith("archive/")) {
+      return `${await this._buildRootWriteURI()}/${path}`;
+    }
+    throw new Error("InvalidPathException");
+  }
+
+  private async _buildRootWriteURI(): Promise<string> {
+    if (this.identity === undefined) throw new Error("No Identity");
+    const filesystemRootKey = deriveHashInt(
+      this.identity!.fsRootKey,
+      1,
+      this.api.crypto
+    );
+
+    const rootPublicKey = (
+      await this.api.crypto.newKeyPairEd25519(filesystemRootKey)
+    ).publicKey;
+
+    const rootEncryptionKey = deriveHashInt(
+      filesystemRootKey,
+      1,
+      this.api.crypto
+    );
+
+    return buildDirectoryURI(rootPublicKey, rootEncryptionKey, filesystemRootKey);
+  }
+
+  private async _getDirectoryMetadata(
+    ks: KeySet
+  ): Promise<{ directory: DirV1; entry?: RegistryEntry } | undefined> {
+    dbg('FS5', '_getDirectoryMetadata', 'ENTER', { publicKey: ks.publicKey });
+
+    let entry: RegistryEntry | undefined;
+
+    let hash: Uint8Array;
+    if (ks.publicKey[0] == mhashBlake3Default) {
+      hash = new Uint8Array([mhashBlake3, ...ks.publicKey.subarray(1)]);
+      dbg('FS5', '_getDirectoryMetadata', 'Using fixed hash (blake3)', { hash });
+    } else {
+      dbg('REGISTRY', '_getDirectoryMetadata', 'Fetching registry entry...');
+      entry = await this.api.registryGet(ks.publicKey);
+
+      if (entry === undefined) {
+        dbg('FS5', '_getDirectoryMetadata', 'No registry entry found - returning undefined');
+        return undefined;
+      }
+
+      dbg('REGISTRY', '_getDirectoryMetadata', 'Got registry entry', {
+        revision: entry.revision,
+        dataLength: entry.data?.length
+      });
+
+      const data = entry.data;
+      if (data[0] == mhashBlake3 || data[0] == mhashBlake3Default) {
+        hash = data.subarray(0, 33);
+      } else {
+        hash = data.subarray(2, 35);
+      }
+      hash[0] = mhashBlake3;
+      dbg('FS5', '_getDirectoryMetadata', 'Extracted hash from entry', { hash });
+    }
+
+    // Handle 404/not found errors when blob doesn't exist
+    let metadataBytes: Uint8Array;
+    try {
+      dbg('DOWNLOAD', '_getDirectoryMetadata', 'Downloading blob...');
+      metadataBytes = await this.api.downloadBlobAsBytes(hash);
+      dbg('DOWNLOAD', '_getDirectoryMetadata', 'Downloaded blob', { byteLength: metadataBytes.length });
+    } catch (error: any) {
+      const message = error?.message?.toLowerCase() || '';
+      dbgError('DOWNLOAD', '_getDirectoryMetadata', 'Download failed', error);
+
+      if (message.includes('404') ||
+          message.includes('not found') ||
+          error?.status === 404) {
+        // Registry entry exists but blob is gone - return empty directory with entry
+        // This preserves entry.revision so callers use (revision + 1) instead of 1
+        dbg('FS5', '_getDirectoryMetadata', '404 detected - returning empty directory with existing entry revision', {
+          entryRevision: entry?.revision
+        });
+        return {
+          directory: {
+            magic: "S5.pro",
+            header: {},
             dirs: new Map(),
             files: new Map(),
           },
-          ks.writeKey!
-        );
-        if (transactionRes == null) {
-          dbg('DIRECTORY', 'runTransactionOnDirectory', 'Transaction returned null (not modified)');
-          return new DirectoryTransactionResult(
-            DirectoryTransactionResultType.NotModified
-          );
+          entry,  // Preserve registry entry for correct revision calculation
+        };
+      }
+      throw error;
+    }
+
+    if (metadataBytes[0] == 0x8d) {
+      if (ks.encryptionKey == undefined) {
+        dbgError('FS5', '_getDirectoryMetadata', 'Encrypted blob but no encryption key');
+        throw new Error("MissingEncryptionKey");
+      }
+      dbg('FS5', '_getDirectoryMetadata', 'Decrypting blob...');
+      const decryptedMetadataBytes = await decryptMutableBytes(
+        metadataBytes,
+        ks.encryptionKey!,
+        this.api.crypto
+      );
+      const directory = DirV1Serialiser.deserialise(decryptedMetadataBytes);
+      dbg('FS5', '_getDirectoryMetadata', 'SUCCESS (encrypted)', {
+        fileCount: directory.files?.size,
+        dirCount: directory.dirs?.size,
+        entryRevision: entry?.revision
+      });
+      return { directory, entry };
+    } else {
+      const directory = DirV1Serialiser.deserialise(metadataBytes);
+      dbg('FS5', '_getDirectoryMetadata', 'SUCCESS (unencrypted)', {
+        fileCount: directory.files?.size,
+        dirCount: directory.dirs?.size,
+        entryRevision: entry?.revision
+      });
+      return { directory, entry };
+    }
+  }
+
+  // Phase 2 helper methods
+
+  /**
+   * Encode cursor data to a base64url string
+   * @param data Cursor data to encode
+   * @returns Base64url-encoded cursor string
+   */
+  private _encodeCursor(data: CursorData): string {
+    const encoded = encodeS5(data);
+    return base64UrlNoPaddingEncode(encoded);
+  }
+
+  /**
+   * Parse a cursor string back to cursor data
+   * @param cursor Base64url-encoded cursor string
+   * @returns Decoded cursor data
+   */
+  private _parseCursor(cursor: string): CursorData {
+    if (!cursor || cursor.length === 0) {
+      throw new Error("Cursor cannot be empty");
+    }
+
+    try {
+      const decoded = base64UrlNoPaddingDecode(cursor);
+      const data = decodeS5(decoded);
+
+      // Validate cursor data - check if it has the expected properties
+      if (!data || typeof data !== "object") {
+        throw new Error("Invalid cursor structure");
+      }
+
+      // Handle both Map and plain object formats
+      const field = (name: string): any =>
+        data instanceof Map ? data.get(name) : (data as any)[name];
+      const position = field("position");
+      const type = field("type");
+      const timestamp = field("timestamp");
+      const path = field("path");
+      const sortBy = field("sortBy");
+      const order = field("order");
+      const sortValue = field("sortValue");
+
+      if (
+        typeof position !== "string" ||
+        (type !== "file" && type !== "directory")
+      ) {
+        throw new Error("Invalid cursor structure");
+      }
+
+      return {
+        position,
+        type,
+        timestamp,
+        path: Array.isArray(path) ? path : undefined,
+        sortBy:
+          sortBy === "name" || sortBy === "timestamp" || sortBy === "size"
+            ? sortBy
+            : undefined,
+        order: order === "asc" || order === "desc" ? order : undefined,
+        sortValue: typeof sortValue === "number" ? sortValue : undefined,
+      };
+    } catch (e) {
+      throw new Error(`Failed to parse cursor: ${e}`);
+    }
+  }
+
+  /**
+   * Load a directory at the specified path
+   * @param path Path to the directory (e.g., "home/docs")
+   * @param ks Key set of the directory, if known, so the path isn't resolved again
+   * @returns The DirV1 object or undefined if not found
+   */
+  private async _loadDirectory(path: string, ks?: KeySet): Promise<DirV1 | undefined> {
+    ks ??= await this.getKeySet(await this._preprocessLocalPath(path));
+    const metadata = await this._getDirectoryMetadata(ks);
+    return metadata?.directory;
+  }
+
+  /**
+   * Update a directory at the specified path
+   * @param path Path to the directory
+   * @param updater Function to update the directory
+   */
+  private async _updateDirectory(
+    path: string,
+    updater: DirectoryTransactionFunction
+  ): Promise<void> {
+    dbg('FS5', '_updateDirectory', 'ENTER', { path });
+
+    // Create intermediate directories if needed
+    const segments = path.split("/").filter((s) => s);
+    dbg('FS5', '_updateDirectory', 'Path segments', { segments, count: segments.length });
+
+    // First ensure all parent directories exist
+    for (let i = 1; i <= segments.length; i++) {
+      const currentPath = segments.slice(0, i).join("/");
+      const parentPath = segments.slice(0, i - 1).join("/") || "";
+      const dirName = segments[i - 1];
+
+      dbg('FS5', '_updateDirectory', `Checking segment ${i}/${segments.length}`, {
+        currentPath,
+        parentPath,
+        dirName
+      });
+
+      // Check if this directory exists
+      try {
+        dbg('FS5', '_updateDirectory', 'Loading directory to check existence...', { currentPath });
+        const dir = await this._loadDirectory(currentPath);
+        if (!dir) {
+          // Create this directory
+          dbg('DIRECTORY', '_updateDirectory', 'Directory missing - creating', {
+            currentPath,
+            parentPath,
+            dirName
+          });
+          try {
+            await this.createDirectory(parentPath, dirName);
+            dbg('DIRECTORY', '_updateDirectory', 'Directory created', { currentPath });
+          } catch (createError: any) {
+            // Ignore "same name" (race condition) and "does not exist" (parent will be created in next iteration)
+            // DirectoryTransactionResult stores error in .e, not .message
+            const errorStr = createError?.message || createError?.e?.message || createError?.e || createError?.toString?.() || '';
+            if (!errorStr.toString().includes('same name') && !errorStr.toString().includes('does not exist')) {
+              throw createError;
+            }
+            dbg('DIRECTORY', '_updateDirectory', 'Directory creation deferred or already exists', { currentPath });
+          }
+        } else {
+          dbg('FS5', '_updateDirectory', 'Directory exists', { currentPath });
         }
-        dbg('DIRECTORY', 'runTransactionOnDirectory', 'Transaction returned modified directory', {
-          fileCount: transactionRes.files?.size,
-          dirCount: transactionRes.dirs?.size
+      } catch (error: any) {
+        // Directory might not exist, try to create it
+        dbg('DIRECTORY', '_updateDirectory', 'Error loading directory - attempting create', {
+          currentPath,
+          parentPath,
+          dirName,
+          error: error?.message
         });
+        try {
+          await this.createDirectory(parentPath, dirName);
+          dbg('DIRECTORY', '_updateDirectory', 'Directory created after error', { currentPath });
+        } catch (createError: any) {
+          // Ignore "same name" (race condition) and "does not exist" (parent will be created in next iteration)
+          // DirectoryTransactionResult stores error in .e, not .message
+          const errorStr = createError?.message || createError?.e?.message || createError?.e || createError?.toString?.() || '';
+          if (!errorStr.toString().includes('same name') && !errorStr.toString().includes('does not exist')) {
+            throw createError;
+          }
+          dbg('DIRECTORY', '_updateDirectory', 'Directory creation deferred or already exists', { currentPath });
+        }
+      }
+    }
 
-        // TODO Make sure this is secure
-        dbg('DIRECTORY', 'runTransactionOnDirectory', 'Serializing directory...');
-        const serialized = DirV1Serialiser.serialise(transactionRes);
-        dbg('DIRECTORY', 'runTransactionOnDirectory', 'Serialized', { byteLength: serialized.length });
+    // Now perform the update
+    // Shared views have no home directory, their root is the shared one
+    const preprocessedPath = await this._preprocessLocalPath(
+      path || (this.rootURI !== undefined ? "" : "home")
+    );
+    dbg('FS5', '_updateDirectory', 'Running transaction', { preprocessedPath });
 
-        const newBytes =
-          ks.encryptionKey !== undefined
-            ? await encryptMutableBytes(
-                serialized,
-                ks.encryptionKey!,
-                this.api.crypto
-              )
-            : serialized;
-        dbg('DIRECTORY', 'runTransactionOnDirectory', 'Prepared bytes for upload', {
-          encrypted: ks.encryptionKey !== undefined,
-          byteLength: newBytes.length
-        });
+    const result = await this.runTransactionOnDirectory(
+      preprocessedPath,
+      updater
+    );
 
-        dbg('UPLOAD', 'runTransactionOnDirectory', 'Uploading directory blob...');
-        const cid = await this.api.uploadBlob(new Blob([newBytes as BlobPart]));
-        dbg('UPLOAD', 'runTransactionOnDirectory', 'Upload complete', { cidHash: cid.hash });
+    dbg('FS5', '_updateDirectory', 'Transaction complete, unwrapping result...', {
+      resultType: result.type
+    });
+    // Precondition failures are thrown as-is so callers can catch them by type
+    if (result.e instanceof PreconditionFailedError) {
+      throw result.e;
+    }
+    result.unwrap();
+    dbg('FS5', '_updateDirectory', 'SUCCESS', { path });
+  }
 
-        const kp = await this.api.crypto.newKeyPairEd25519(ks.writeKey!);
-        const revisionToUse = (dir?.entry?.revision ?? 0) + 1;
+  /**
+   * Get the oldest timestamp from all files and subdirectories in a directory
+   * @param dir Directory to scan
+   * @returns Oldest timestamp in seconds, or undefined if no timestamps found
+   */
+  private _getOldestTimestamp(dir: DirV1): number | undefined {
+    let oldest: number | undefined;
 
-        dbg('REGISTRY', 'runTransactionOnDirectory', 'Creating registry entry', {
-          revision: revisionToUse,
-          publicKey: kp.publicKey
-        });
-        const entry = await createRegistryEntry(
-          kp,
-          cid.hash,
-          revisionToUse,
-          this.api.crypto
-        );
+    // Check all files
+    for (const [_, file] of dir.files) {
+      if (file.timestamp && (!oldest || file.timestamp < oldest)) {
+        oldest = file.timestamp;
+      }
+    }
 
-        dbg('REGISTRY', 'runTransactionOnDirectory', 'Setting registry entry...');
-        await this.api.registrySet(entry);
-        dbg('REGISTRY', 'runTransactionOnDirectory', 'Registry entry set successfully');
+    // Check all subdirectories
+    for (const [_, subdir] of dir.dirs) {
+      if (subdir.ts_seconds && (!oldest || subdir.ts_seconds < oldest)) {
+        oldest = subdir.ts_seconds;
+      }
+    }
 
-        dbg('DIRECTORY', 'runTransactionOnDirectory', 'SUCCESS', { revision: revisionToUse });
-        return new DirectoryTransactionResult(DirectoryTransactionResultType.Ok);
-      } catch (e: any) {
-        const message = (typeof e === 'string' ? e : (e?.message || '')).toLowerCase();
-        const isRevisionError = message.includes('revision') && message.includes('low');
+    return oldest;
+  }
+
+  /**
+   * Get the newest timestamp from all files and subdirectories in a directory
+   * @param dir Directory to scan
+   * @returns Newest timestamp in seconds, or undefined if no timestamps found
+   */
+  private _getNewestTimestamp(dir: DirV1): number | undefined {
+    let newest: number | undefined;
+
+    // Check all files
+    for (const [_, file] of dir.files) {
+      if (file.timestamp && (!newest || file.timestamp > newest)) {
+        newest = file.timestamp;
+      }
+    }
+
+    // Check all subdirectories
+    for (const [_, subdir] of dir.dirs) {
+      if (subdir.ts_seconds && (!newest || subdir.ts_seconds > newest)) {
+        newest = subdir.ts_seconds;
+      }
+    }
+
+    return newest;
+  }
+
+  /**
+   * Extract detailed metadata from a FileRef
+   * @param file FileRef to extract metadata from
+   * @returns Metadata object with all file properties
+   */
+  private _extractFileMetadata(file: FileRef): Record<string, any> {
+    const metadata: Record<string, any> = {
+      size: Number(file.size),
+      mediaType: file.media_type || "application/octet-stream",
+      timestamp: file.timestamp
+        ? new Date(file.timestamp * 1000).toISOString()
+        : undefined,
+      custom: file.extra ? Object.fromEntries(file.extra) : undefined,
+    };
+
+    // Add optional fields if present
+    if (file.locations && file.locations.length > 0) {
+      metadata.locations = file.locations;
+    }
+
+    if (file.prev) {
+      metadata.hasHistory = true;
+    }
+
+    const attributes = this._getRefAttributes(file);
+    if (attributes) {
+      metadata.attributes = mapToObject(attributes);
+    }
+
+    return metadata;
+  }
+
+  /**
+   * Extract metadata from a DirRef
+   * @param dir DirRef to extract metadata from
+   * @returns Metadata object with directory properties
+   */
+  private _extractDirMetadata(dir: DirRef): Record<string, any> {
+    const metadata: Record<string, any> = {
+      timestamp: dir.ts_seconds
+        ? new Date(dir.ts_seconds * 1000).toISOString()
+        : undefined,
+      extra: dir.extra,
+    };
+
+    const attributes = this._getRefAttributes(dir);
+    if (attributes) {
+      metadata.attributes = mapToObject(attributes);
+    }
+
+    return metadata;
+  }
+
+  // HAMT Integration Methods (Week 3)
+
+  /**
+   * Serialize a directory with HAMT backing
+   * @param dir Directory to serialize
+   * @param hamt HAMT instance containing the entries
+   * @returns Serialized directory bytes
+   */
+  private async _serialiseShardedDirectory(
+    dir: DirV1,
+    hamt: HAMT
+  ): Promise<Uint8Array> {
+    // Store HAMT structure
+    const hamtData = hamt.serialise();
+    const { hash } = await this.api.uploadBlob(new Blob([hamtData as BlobPart]));
+
+    // Update directory to reference HAMT
+    dir.header.sharding = {
+      type: "hamt",
+      config: {
+        bitsPerLevel: 5,
+        maxInlineEntries: 1000,
+        hashFunction: 0,
+      },
+      root: {
+        cid: hash,
+        totalEntries: dir.files.size + dir.dirs.size,
+        depth: await hamt.getDepth(),
+      },
+    };
+
+    // Clear inline maps for sharded directory
+    dir.files.clear();
+    dir.dirs.clear();
+
+    // Serialize using DirV1Serialiser
+    return DirV1Serialiser.serialise(dir);
+  }
+
+  /**
+   * List the entries of a directory sorted by name, timestamp or size. The
+   * cursor records the sort value of the last item, so paging continues at the
+   * right place even if entries were added or removed in between.
+   * @param dir Directory to list (inline or HAMT-backed)
+   * @param options List options with sortBy and/or order set
+   * @returns Async iterator of directory entries
+   */
+  private async *_listSorted(
+    dir: DirV1,
+    options: ListOptions
+  ): AsyncIterableIterator<ListResult> {
+    const sortBy = options.sortBy ?? "name";
+    const order = options.order ?? "asc";
+
+    let after: CursorData | undefined;
+    if (options.cursor !== undefined) {
+      try {
+        after = this._parseCursor(options.cursor);
+      } catch (e) {
+        throw new Error(`Invalid cursor: ${e}`);
+      }
+      if (after.sortBy !== sortBy || (after.order ?? "asc") !== order) {
+        throw new Error("Cursor was created for a different sort order");
+      }
+    }
+
+    const sortValue = (item: ListResult): number =>
+      sortBy === "size" ? item.size ?? 0 : sortBy === "timestamp" ? item.timestamp ?? 0 : 0;
+    const compare = (
+      a: { value: number; name: string; type: string },
+      b: { value: number; name: string; type: string }
+    ): number => {
+      let result = a.value - b.value;
+      if (result === 0) {
+        result = a.name < b.name ? -1 : a.name > b.name ? 1 : 0;
+      }
+      if (result === 0 && a.type !== b.type) {
+        result = a.type === "directory" ? -1 : 1;
+      }
+      return order === "desc" ? -result : result;
+    };
+
+    const items = [...(await this._getAllEntries(dir)).values()].map((entry) => {
+      const item = this._toListResult(entry);
+      return { item, value: sortValue(item), name: item.name, type: item.type };
+    });
+    items.sort(compare);
+
+    const start = after
+      ? { value: after.sortValue ?? 0, name: after.position, type: after.type }
+      : undefined;
+    let count = 0;
+    for (const entry of items) {
+      if (options.limit && count >= options.limit) {
+        break;
+      }
+      if (start && compare(entry, start) <= 0) {
+        continue;
+      }
+      if (options.filter && !options.filter(entry.item)) {
+        continue;
+      }
+
+      yield {
+        ...entry.item,
+        cursor: this._encodeCursor({
+          position: entry.name,
+          type: entry.type,
+          sortBy,
+          order,
+          sortValue: entry.value,
+        }),
+      };
+      count++;
+    }
+  }
+
+  /**
+   * Build the list() result for a directory entry, without a cursor
+   * @param entry Directory entry
+   * @returns ListResult with timestamps in milliseconds
+   */
+  private _toListResult(entry: DirectoryEntry): ListResult {
+    if (entry.type === "file") {
+      const fileRef = entry.ref as FileRef;
+      return {
+        name: entry.name,
+        type: "file",
+        size: Number(fileRef.size),
+        mediaType: fileRef.media_type,
+        timestamp: fileRef.timestamp ? fileRef.timestamp * 1000 : undefined,
+      };
+    }
+    const dirRef = entry.ref as DirRef;
+    return {
+      name: entry.name,
+      type: "directory",
+      timestamp: dirRef.ts_seconds ? dirRef.ts_seconds * 1000 : undefined,
+    };
+  }
+
+  /**
+   * List entries from a HAMT-backed directory
+   * @param hamt HAMT instance
+   * @param cursor Optional cursor for pagination
+   * @returns Async iterator of directory entries
+   */
+  private async *_listWithHAMT(
+    hamt: HAMT,
+    cursor?: string
+  ): AsyncIterableIterator<ListResult> {
+    const parsedCursor = cursor ? this._parseCursor(cursor) : undefined;
+    // Look the last entry up again, its path moves when entries are added or removed
+    let cursorPath = parsedCursor?.path;
+    if (parsedCursor) {
+      const key = `${parsedCursor.type === "file" ? "f" : "d"}:${parsedCursor.position}`;
+      const currentPath = await hamt.getPathForKey(key);
+      if (currentPath.length > 0) {
+        cursorPath = currentPath;
+      }
+    }
+    const iterator = cursorPath?.length
+      ? hamt.entriesFrom(cursorPath)
+      : hamt.entries();
 
-        dbgError('DIRECTORY', 'runTransactionOnDirectory', `Error on attempt ${attempt}`, {
-          error: e?.message || e,
-          isRevisionError,
-          dirEntryRevision: dir?.entry?.revision,
-          attemptedRevision: (dir?.entry?.revision ?? 0) + 1,
-          stack: typeof e?.stack === 'string' ? e.stack.split('\n').slice(0, 5) : undefined
-        });
+    for await (const [key, value] of iterator) {
+      if (key.startsWith("f:")) {
+        // File entry
+        const name = key.substring(2);
+        const fileRef = value as FileRef;
+        const metadata = this._extractFileMetadata(fileRef);
 
-        if (isRevisionError && attempt < maxRetries) {
-          dbg('REVISION', 'runTransactionOnDirectory', `Revision conflict, retrying (${attempt}/${maxRetries})...`);
-          // Small delay before retry
-          await new Promise(r => setTimeout(r, 50 * attempt));
-          continue;
-        }
+        yield {
+          name,
+          type: "file",
+          size: metadata.size,
+          mediaType: metadata.mediaType,
+          timestamp: metadata.timestamp,
+          cursor: this._encodeCursor({
+            position: name,
+            type: "file",
+            timestamp: metadata.timestamp,
+            path: await hamt.getPathForKey(key),
+          }),
+        };
+      } else if (key.startsWith("d:")) {
+        // Directory entry
+        const name = key.substring(2);
+        const dirRef = value as DirRef;
 
-        dbgError('DIRECTORY', 'runTransactionOnDirectory', 'FAILED - returning error', { attempt, maxRetries });
-        return new DirectoryTransactionResult(
-          DirectoryTransactionResultType.Error,
-          e
-        );
+        yield {
+          name,
+          type: "directory",
+          cursor: this._encodeCursor({
+            position: name,
+            type: "directory",
+            timestamp: dirRef.ts_seconds,
+            path: await hamt.getPathForKey(key),
+          }),
+        };
       }
     }
+  }
 
-    // Should not reach here, but TypeScript needs a return
-    return new DirectoryTransactionResult(
-      DirectoryTransactionResultType.Error,
-      new Error('Max retries exceeded')
-    );
-    } finally {
-      release();
+  /**
+   * Download the contents of a file, decrypting it if needed
+   * @param fileRef Reference to the file
+   * @returns The raw file bytes
+   */
+  private async _downloadFileData(fileRef: FileRef): Promise<Uint8Array> {
+    if (fileRef.extra && fileRef.extra.has('encryption')) {
+      const encryptionMeta = fileRef.extra.get('encryption');
+      // encryptionMeta is a Map after CBOR deserialization
+      const algorithm = encryptionMeta instanceof Map ? encryptionMeta.get('algorithm') : encryptionMeta?.algorithm;
+      if (algorithm === 'xchacha20-poly1305') {
+        // Convert array back to Uint8Array
+        const keyData = encryptionMeta instanceof Map ? encryptionMeta.get('key') : encryptionMeta.key;
+        const encryptionKey = new Uint8Array(keyData);
+        // Download and decrypt
+        return this._decryptBlobData(
+          await this._downloadStoredBlob(fileRef),
+          encryptionKey,
+          Number(fileRef.size)
+        );
+      }
+      throw new Error(`Unsupported encryption algorithm: ${algorithm}`);
     }
+    // Download unencrypted file data
+    return this._downloadStoredBlob(fileRef);
   }
 
-  // In ensureIdentityInitialized method
-  public async ensureIdentityInitialized(): Promise<void> {
-    const res = await this.runTransactionOnDirectory(
-      await this._buildRootWriteURI(),
-      async (dir, writeKey) => {
-        const names = ["home", "archive"];
-        let hasChanges = false;
+  /**
+   * Download the blob a FileRef points to, or a byte range of it. Blobs with
+   * a Bao outboard are fetched in batches of chunk groups and every group is
+   * verified against the hash as it arrives, so corrupted data is rejected
+   * before the rest is downloaded and ranges are verified too.
+   * @param fileRef File whose stored (possibly encrypted) blob to download
+   * @param offset Start of the range, the whole blob is downloaded if omitted
+   * @param length Length of the range
+   */
+  private async _downloadStoredBlob(
+    fileRef: FileRef,
+    offset?: number,
+    length?: number
+  ): Promise<Uint8Array> {
+    const blobHash = new Uint8Array([MULTIHASH_BLAKE3, ...fileRef.hash]);
+    const outboardHash = fileRef.extra?.get(EXTRA_OUTBOARD_KEY);
+    if (!(outboardHash instanceof Uint8Array)) {
+      return offset === undefined
+        ? this.api.downloadBlobAsBytes(blobHash)
+        : this.api.downloadBlobRange(blobHash, offset, length!);
+    }
 
-        for (const name of names) {
-          if (!dir.dirs.has(name)) {
-            // Create the subdirectory and get its reference
-            const dirRef = await this._createDirectory(name, writeKey);
-            dir.dirs.set(name, dirRef);
-            hasChanges = true;
-          } else {
-            // Verify the existing reference is valid
-            const existingRef = dir.dirs.get(name);
-            if (!existingRef || !existingRef.link) {
-              // Fix broken reference
-              const dirRef = await this._createDirectory(name, writeKey);
-              dir.dirs.set(name, dirRef);
-              hasChanges = true;
-            }
-          }
-        }
+    const verifier = new BaoVerifier(
+      fileRef.hash,
+      await this.api.downloadBlobAsBytes(new Uint8Array([MULTIHASH_BLAKE3, ...outboardHash]))
+    );
+    const start = Math.min(offset ?? 0, verifier.size);
+    const end = offset === undefined ? verifier.size : Math.min(verifier.size, start + length!);
+    if (end <= start) {
+      return new Uint8Array(0);
+    }
 
-        // Always return the directory if we made changes
-        return hasChanges ? dir : undefined;
+    const firstGroup = Math.floor(start / BAO_CHUNK_GROUP_SIZE);
+    const lastGroup = Math.floor((end - 1) / BAO_CHUNK_GROUP_SIZE);
+    const dataStart = verifier.groupRange(firstGroup).start;
+    const data = new Uint8Array(verifier.groupRange(lastGroup).end - dataStart);
+    for (let batch = firstGroup; batch <= lastGroup; batch += BAO_GROUPS_PER_REQUEST) {
+      const batchLast = Math.min(lastGroup, batch + BAO_GROUPS_PER_REQUEST - 1);
+      const batchStart = verifier.groupRange(batch).start;
+      const bytes = await this.api.downloadBlobRange(
+        blobHash,
+        batchStart,
+        verifier.groupRange(batchLast).end - batchStart
+      );
+      for (let group = batch; group <= batchLast; group++) {
+        const range = verifier.groupRange(group);
+        const groupData = bytes.subarray(range.start - batchStart, range.end - batchStart);
+        verifier.verifyGroup(group, groupData);
+        data.set(groupData, range.start - dataStart);
       }
-    );
-    res.unwrap();
+    }
+    debug.fs5(' Verified download', {
+      start: start,
+      end: end,
+      groups: lastGroup - firstGroup + 1,
+    });
+    return data.subarray(start - dataStart, end - dataStart);
   }
 
   /**
-   * Derive a write key for a child directory deterministically
-   * @param parentWriteKey Parent directory's write key
-   * @param childName Name of the child directory
-   * @returns Write key for the child directory
+   * Upload the Bao outboard of a stored blob
+   * @param outboard Outboard from createBaoOutboard() or BaoOutboardBuilder
+   * @returns Hash of the outboard blob, or undefined for blobs of a single
+   *   chunk group, which are checked against their hash directly
    */
-  private async _deriveWriteKeyForChildDirectory(
-    parentWriteKey: Uint8Array,
-    childName: string
-  ): Promise<Uint8Array> {
-    // Derive child write key by hashing parent write key + child name
-    const childNameBytes = new TextEncoder().encode(childName);
-    
-    // Use deriveHashString which accepts variable-length tweak data
-    return deriveHashString(parentWriteKey, childNameBytes, this.api.crypto);
+  private async _uploadOutboard(outboard: Uint8Array): Promise<Uint8Array | undefined> {
+    if (outboard.length <= 8) {
+      return undefined;
+    }
+    const { hash } = await this.api.uploadBlob(new Blob([outboard as BlobPart]));
+    return hash.subarray(1);
   }
 
-  async _createDirectory(
-    name: string,
-    parentWriteKey: Uint8Array
-  ): Promise<DirRef> {
-    dbg('DIRECTORY', '_createDirectory', 'ENTER', { name, parentWriteKey });
-
-    // Derive write key deterministically from parent
-    const newWriteKey = await this._deriveWriteKeyForChildDirectory(parentWriteKey, name);
-    dbg('DIRECTORY', '_createDirectory', 'Derived write key', { newWriteKey });
-
-    const ks = await this._deriveKeySetFromWriteKey(newWriteKey);
-    dbg('DIRECTORY', '_createDirectory', 'Derived keyset', { publicKey: ks.publicKey });
-
-    // Create empty DirV1
-    const emptyDir: DirV1 = {
-      magic: "S5.pro",
-      header: {},
-      dirs: new Map(),
-      files: new Map(),
-    };
-
-    // Serialize and upload
-    const serialized = DirV1Serialiser.serialise(emptyDir);
-    dbg('UPLOAD', '_createDirectory', 'Uploading empty directory blob...', { byteLength: serialized.length });
-    const cid = await this.api.uploadBlob(new Blob([serialized as BlobPart]));
-    dbg('UPLOAD', '_createDirectory', 'Upload complete', { cidHash: cid.hash });
-
-    // Create registry entry for the new directory
-    const kp = await this.api.crypto.newKeyPairEd25519(newWriteKey);
-
-    // Check for existing registry entry to get correct revision
-    // (P2P network may have stale entries from other portals)
-    dbg('REGISTRY', '_createDirectory', 'Checking for existing registry entry...', { publicKey: kp.publicKey });
-    const existingEntry = await this.api.registryGet(kp.publicKey);
-    const revision = (existingEntry?.revision ?? 0) + 1;
+  /**
+   * Decode file bytes into the value get() returns. Files written with a
+   * recorded encoding are decoded with it, older files fall back to guessing
+   * from the media type and content.
+   * @param data Raw file bytes
+   * @param fileRef FileRef the bytes belong to
+   * @returns Decoded object, text or the raw bytes
+   */
+  private _decodeFileData(data: Uint8Array, fileRef: FileRef): any {
+    switch (this._getFileEncoding(fileRef)) {
+      case "bytes":
+        return data;
+      case "text":
+        return new TextDecoder().decode(data);
+      case "json":
+        return JSON.parse(new TextDecoder().decode(data));
+      case "cbor":
+        return mapToObject(decodeS5(data));
+    }
 
-    dbg('REVISION', '_createDirectory', 'Revision calculation', {
-      name,
-      existingRevision: existingEntry?.revision ?? 'none',
-      usingRevision: revision
-    });
+    const mediaType = fileRef.media_type;
+    // Check if this is binary data based on media type
+    const isBinaryType =
+      mediaType &&
+      (mediaType === "application/octet-stream" ||
+        mediaType.startsWith("image/") ||
+        mediaType.startsWith("audio/") ||
+        mediaType.startsWith("video/") ||
+        mediaType === "application/zip" ||
+        mediaType === "application/gzip" ||
+        mediaType === "application/x-tar" ||
+        mediaType === "application/x-7z-compressed" ||
+        mediaType === "application/pdf" ||
+        mediaType === "application/x-msdownload");
 
-    dbg('REGISTRY', '_createDirectory', 'Creating registry entry...', { revision });
-    const entry = await createRegistryEntry(
-      kp,
-      cid.hash,
-      revision,
-      this.api.crypto
-    );
+    // If it's marked as binary, return as-is
+    if (isBinaryType) {
+      return data;
+    }
 
-    dbg('REGISTRY', '_createDirectory', 'Setting registry entry...');
-    await this.api.registrySet(entry);
-    dbg('REGISTRY', '_createDirectory', 'Registry entry set successfully');
+    // Try to decode the data
+    try {
+      // First try CBOR
+      const decoded = decodeS5(data);
+      // Convert Map to plain object if needed
+      return mapToObject(decoded);
+    } catch {
+      // If CBOR fails, try JSON
+      try {
+        const text = new TextDecoder().decode(data);
+        return JSON.parse(text);
+      } catch {
+        // If JSON fails, check if it's valid UTF-8 text
+        try {
+          const text = new TextDecoder("utf-8", { fatal: true }).decode(data);
+          // Additional check: if the text contains control characters (except tab/newline), treat as binary
+          let hasControlChars = false;
+          for (let i = 0; i < text.length; i++) {
+            const code = text.charCodeAt(i);
+            if (code < 32 && code !== 9 && code !== 10 && code !== 13) {
+              hasControlChars = true;
+              break;
+            }
+          }
 
-    // Create DirRef pointing to the new directory with mutable registry link
-    const dirRef: DirRef = {
-      link: {
-        type: "mutable_registry_ed25519",
-        publicKey: kp.publicKey.subarray(1), // Remove multicodec prefix
-      },
-      ts_seconds: Math.floor(Date.now() / 1000),
-    };
+          if (hasControlChars) {
+            return data; // Return as binary
+          }
 
-    dbg('DIRECTORY', '_createDirectory', 'SUCCESS', { name, revision });
-    return dirRef;
-  }
-  async _deriveKeySetFromWriteKey(writeKey: Uint8Array): Promise<KeySet> {
-    const publicKey = (await this.api.crypto.newKeyPairEd25519(writeKey))
-      .publicKey;
-    const encryptionKey = deriveHashInt(writeKey, 0x5e, this.api.crypto);
-    return {
-      publicKey: publicKey,
-      writeKey: writeKey,
-      encryptionKey: encryptionKey,
-    };
+          return text;
+        } catch {
+          // Otherwise return as binary
+          return data;
+        }
+      }
+    }
   }
 
-  private async getKeySet(uri: string): Promise<KeySet> {
-    const url = new URL(uri);
-    if (url.pathname.length < 2) {
-      const cid = Multibase.decodeString(url.host);
-      if (cid[0] != CID_TYPE_FS5_DIRECTORY)
-        throw new Error("Invalid FS5 URI format");
+  /**
+   * Check the ifMatch / ifNoneMatch conditions of a write against the file
+   * currently stored at the path. Called inside the directory transaction so
+   * the check and the write see the same revision.
+   * @param path Path of the file, for the error
+   * @param current FileRef currently stored at the path
+   * @param options Conditions given by the caller
+   */
+  private _checkPreconditions(
+    path: string,
+    current: FileRef | undefined,
+    options?: { ifMatch?: Uint8Array | number; ifNoneMatch?: "*" }
+  ): void {
+    const fail = (reason: string) => {
+      throw new PreconditionFailedError(
+        `Precondition failed, ${reason}: ${path}`,
+        path,
+        current?.hash,
+        current?.timestamp !== undefined ? current.timestamp * 1000 : undefined
+      );
+    };
 
-      let writeKey: Uint8Array | undefined;
+    if (options?.ifNoneMatch === "*" && current) {
+      fail("file already exists");
+    }
+    if (options?.ifMatch === undefined) {
+      return;
+    }
+    if (!current) {
+      fail("file not found");
+    }
+    // Timestamps are stored with second precision, so the timestamp form is a
+    // weak check that can't tell apart writes within the same second
+    const matches =
+      options.ifMatch instanceof Uint8Array
+        ? areArraysEqual(options.ifMatch, current!.hash)
+        : current!.timestamp === Math.floor(options.ifMatch / 1000);
+    if (!matches) {
+      fail("file has changed");
+    }
+  }
 
-      if (url.username.length > 0) {
-        if (url.username != "write") throw new Error("Invalid FS5 URI format");
+  /**
+   * Get the encoding recorded when a file was written
+   * @param fileRef FileRef of the file
+   * @returns The encoding or undefined for files written without one
+   */
+  private _getFileEncoding(fileRef: FileRef): FileEncoding | undefined {
+    const encoding = fileRef.extra?.get(EXTRA_ENCODING_KEY);
+    switch (encoding) {
+      case "bytes":
+      case "text":
+      case "json":
+      case "cbor":
+        return encoding;
+      default:
+        return undefined;
+    }
+  }
 
-        writeKey = Multibase.decodeString(url.password).subarray(1);
-      }
+  /**
+   * Resolve the FileRef stored at a path
+   * @param path Path to the file
+   * @returns FileRef or undefined if not found
+   */
+  private async _getFileRefAtPath(path: string): Promise<FileRef | undefined> {
+    const segments = normalizePath(path).split("/").filter((s) => s);
+    if (segments.length === 0) {
+      return undefined;
+    }
+    const dir = await this._loadDirectory(segments.slice(0, -1).join("/"));
+    if (!dir) {
+      return undefined;
+    }
+    return this._getFileFromDirectory(dir, segments[segments.length - 1]);
+  }
 
-      if (cid[1] == mkeyEd25519) {
-        // TODO Verify that writeKey matches
-        return {
-          publicKey: cid.subarray(1),
-          writeKey: writeKey,
-          encryptionKey: undefined,
-        };
-      } else if (cid[1] == CID_TYPE_ENCRYPTED_MUTABLE) {
-        const encryptionAlgorithm = cid[2];
-        // TODO Verify that writeKey matches
-        return {
-          publicKey: cid.subarray(35),
-          writeKey: writeKey,
-          encryptionKey: cid.subarray(3, 35),
-        };
-      } else if (cid[1] == mhashBlake3Default) {
-        return {
-          publicKey: cid.subarray(1),
-          writeKey: writeKey,
-          encryptionKey: undefined,
-        };
-      }
+  /**
+   * Walk the FileRef.prev chain to the requested version (0 = the ref itself)
+   */
+  private _findVersion(fileRef: FileRef | undefined, version: number): FileRef | undefined {
+    if (!Number.isInteger(version) || version < 0) {
+      throw new Error(`Invalid version: ${version}`);
     }
-    const pathSegments = uri.split("/");
-    const lastPathSegment = pathSegments[pathSegments.length - 1];
-    const parentKeySet = await this.getKeySet(
-      uri.substring(0, uri.length - (lastPathSegment.length + 1))
-    );
-    const parentDirectory = await this._getDirectoryMetadata(parentKeySet);
+    let ref = fileRef;
+    for (let i = 0; i < version && ref; i++) {
+      ref = ref.prev;
+    }
+    return ref;
+  }
 
-    // TODO Custom
-    if (parentDirectory === undefined) {
-      throw new Error(`Parent Directory of "${uri}" does not exist`);
+  /**
+   * Link the replaced FileRef (and its own history) into fileRef.prev,
+   * keeping at most `depth` previous versions
+   */
+  private _chainPreviousVersions(
+    fileRef: FileRef,
+    previous: FileRef | undefined,
+    depth: number
+  ): void {
+    const trim = (ref: FileRef, remaining: number): FileRef => {
+      const { prev, ...rest } = ref;
+      return remaining > 1 && prev ? { ...rest, prev: trim(prev, remaining - 1) } : rest;
+    };
+    if (previous && depth > 0) {
+      fileRef.prev = trim(previous, depth);
+    } else {
+      delete fileRef.prev;
     }
+  }
 
-    const dir = parentDirectory.directory.dirs.get(lastPathSegment);
-    if (dir == undefined) {
-      throw new Error(`Directory "${uri}" does not exist`);
+  /**
+   * Upload an immutable copy of a directory and all its subdirectories.
+   * Copies of encrypted directories are encrypted with the same key, and so
+   * are copies that hold encrypted subdirectories (with a fresh key), because
+   * the keys of subdirectories are wrapped with their parent's key.
+   * @param ks Key set of the directory to freeze
+   * @param path Path of the directory, used in error messages
+   * @returns BLAKE3 hash of the frozen DirV1 blob and its encryption key, if any
+   */
+  private async _freezeDirectory(
+    ks: KeySet,
+    path: string
+  ): Promise<{ hash: Uint8Array; encryptionKey?: Uint8Array }> {
+    if (ks.publicKey[0] == mhashBlake3Default) {
+      // Already immutable
+      return { hash: ks.publicKey.subarray(1), encryptionKey: ks.encryptionKey };
     }
-    let writeKey: Uint8Array | undefined;
-    let publicKey: Uint8Array;
+    const metadata = await this._getDirectoryMetadata(ks);
+    if (!metadata) {
+      throw new Error(`Directory not found: ${path}`);
+    }
+    const dir = metadata.directory;
 
-    // Handle different directory link types
-    if (dir.link.type === "mutable_registry_ed25519") {
-      if (!dir.link.publicKey) {
-        throw new Error("Missing public key for mutable registry link");
-      }
-      publicKey = concatBytes(
-        new Uint8Array([mkeyEd25519]),
-        dir.link.publicKey
+    const frozenDirs: Array<[string, { ref: DirRef; encryptionKey?: Uint8Array }]> = [];
+    for (const [name, dirRef] of dir.dirs) {
+      frozenDirs.push([name, await this._freezeDirRef(dirRef, ks, name, `${path}/${name}`)]);
+    }
+    let hamt: HAMT | undefined;
+    const frozenHamtDirs: Array<[string, { ref: DirRef; encryptionKey?: Uint8Array }]> = [];
+    if (dir.header.sharding?.root?.cid) {
+      const hamtData = await this.api.downloadBlobAsBytes(
+        dir.header.sharding.root.cid
       );
-      // Derive write key from parent's write key if available
-      if (parentKeySet.writeKey) {
-        writeKey = await this._deriveWriteKeyForChildDirectory(
-          parentKeySet.writeKey,
-          lastPathSegment
+      hamt = await HAMT.deserialise(hamtData, this.api);
+      for await (const [key, ref] of hamt.entries()) {
+        if (key.startsWith("d:")) {
+          frozenHamtDirs.push([
+            key,
+            await this._freezeDirRef(
+              ref as DirRef,
+              ks,
+              key.substring(2),
+              `${path}/${key.substring(2)}`
+            ),
+          ]);
+        }
+      }
+    }
+
+    const encryptionKey =
+      ks.encryptionKey ??
+      ([...frozenDirs, ...frozenHamtDirs].some(([, child]) => child.encryptionKey)
+        ? this.api.crypto.generateSecureRandomBytes(32)
+        : undefined);
+    const frozenKs: KeySet = { publicKey: ks.publicKey, encryptionKey: encryptionKey };
+    const withKey = async (child: { ref: DirRef; encryptionKey?: Uint8Array }) => {
+      if (child.encryptionKey) {
+        child.ref.extra = new Map(child.ref.extra ?? []).set(
+          DIR_REF_EXTRA_WRAPPED_ENCRYPTION_KEY,
+          await this._wrapEncryptionKey(child.encryptionKey, frozenKs)
         );
       }
-    } else if (dir.link.type === "fixed_hash_blake3") {
-      if (!dir.link.hash) {
-        throw new Error("Missing hash for fixed hash link");
+      return child.ref;
+    };
+
+    const frozen: DirV1 = {
+      magic: dir.magic,
+      header: { ...dir.header },
+      dirs: new Map(),
+      files: dir.files,
+    };
+    for (const [name, child] of frozenDirs) {
+      frozen.dirs.set(name, await withKey(child));
+    }
+    if (hamt) {
+      for (const [key, child] of frozenHamtDirs) {
+        await hamt.insert(key, await withKey(child));
       }
-      // For fixed hash links, we don't have a public key
-      publicKey = new Uint8Array([mhashBlake3Default, ...dir.link.hash]);
-    } else {
-      throw new Error(`Unsupported directory link type: ${dir.link.type}`);
+      const { hash } = await this.api.uploadBlob(new Blob([hamt.serialise() as BlobPart]));
+      frozen.header.sharding = {
+        ...dir.header.sharding!,
+        root: { ...dir.header.sharding!.root!, cid: hash },
+      };
     }
 
-    const ks = {
-      publicKey: publicKey,
-      writeKey: writeKey,
-      encryptionKey: undefined,
-    };
+    const serialized = DirV1Serialiser.serialise(frozen);
+    const bytes = encryptionKey
+      ? await encryptMutableBytes(serialized, encryptionKey, this.api.crypto)
+      : serialized;
+    const { hash } = await this.api.uploadBlob(new Blob([bytes as BlobPart]));
+    return { hash: hash.subarray(1), encryptionKey: encryptionKey };
+  }
 
-    return ks;
+  /**
+   * Freeze the directory a DirRef points to and return a fixed_hash_blake3 ref for it
+   * @param dirRef Reference to freeze
+   * @param parentKs Key set of the directory holding the reference
+   * @param name Name of the referenced directory
+   * @param path Path of the referenced directory, used in error messages
+   * @returns The frozen reference, without its encryption key, and the key
+   *   to wrap for the frozen parent
+   */
+  private async _freezeDirRef(
+    dirRef: DirRef,
+    parentKs: KeySet,
+    name: string,
+    path: string
+  ): Promise<{ ref: DirRef; encryptionKey?: Uint8Array }> {
+    // Resolver links are frozen at their current target
+    const ks: KeySet = {
+      ...(await this._keySetForLink(dirRef.link)),
+      encryptionKey: await this._getDirRefEncryptionKey(dirRef, parentKs),
+    };
+    // Encryption keys of subdirectories may be wrapped with this one's write key
+    if (parentKs.writeKey && dirRef.link.type === "mutable_registry_ed25519") {
+      ks.writeKey = await this._resolveChildWriteKey(parentKs.writeKey, name, dirRef);
+    }
+    const { hash, encryptionKey: frozenKey } = await this._freezeDirectory(ks, path);
+    // Wrapped keys in extra only make sense for registry links
+    const frozen: DirRef = {
+      link: { type: "fixed_hash_blake3", hash },
+      ts_seconds: dirRef.ts_seconds,
+      ts_nanos: dirRef.ts_nanos,
+    };
+    this._setRefAttributes(frozen, this._getRefAttributes(dirRef));
+    return { ref: frozen, encryptionKey: frozenKey };
   }
 
-  private async _preprocessLocalPath(path: string): Promise<string> {
-    if (path.startsWith("fs5://")) return path;
-    if (path === "" || path === "/") {
-      // Root directory
-      return await this._buildRootWriteURI();
+  /**
+   * Carry state of a replaced FileRef over to the new one: the version chain
+   * and extended attributes unless clearAttributes is set. Without
+   * keepVersions, a file that already has history keeps as many versions as
+   * it has now, so a put that forgets the option doesn't erase the history.
+   */
+  private _inheritFromReplacedFile(
+    fileRef: FileRef,
+    previous: FileRef | undefined,
+    options?: PutOptions
+  ): void {
+    let depth = options?.keepVersions;
+    if (depth === undefined) {
+      depth = 0;
+      for (let ref = previous?.prev; ref; ref = ref.prev) depth++;
     }
-    if (`${path}/`.startsWith("home/")) {
-      return `${await this._buildRootWriteURI()}/${path}`;
+    if (depth > 0) {
+      this._chainPreviousVersions(fileRef, previous, depth);
     }
-    if (`${path}/`.startsWith("archive/")) {
-      return `${await this._buildRootWriteURI()}/${path}`;
+    if (previous && !options?.clearAttributes) {
+      this._setRefAttributes(fileRef, this._getRefAttributes(previous));
     }
-    throw new Error("InvalidPathException");
   }
 
-  private async _buildRootWriteURI(): Promise<string> {
-    if (this.identity === undefined) throw new Error("No Identity");
-    const filesystemRootKey = deriveHashInt(
-      this.identity!.fsRootKey,
-      1,
-      this.api.crypto
-    );
-
-    const rootPublicKey = (
-      await this.api.crypto.newKeyPairEd25519(filesystemRootKey)
-    ).publicKey;
-
-    const rootEncryptionKey = deriveHashInt(
-      filesystemRootKey,
-      1,
-      this.api.crypto
+  /**
+   * Soft delete: move an entry to home/.trash, recording where it came from
+   * @returns true if moved, false if not found
+   */
+  private async _moveToTrash(path: string, options?: DeleteOptions): Promise<boolean> {
+    const segments = path.split("/").filter((s) => s);
+    const name = segments[segments.length - 1];
+    const parent = await this._loadDirectory(segments.slice(0, -1).join("/")).catch(
+      () => undefined
     );
+    if (!parent || !(await this._hasEntry(parent, name))) {
+      return false;
+    }
+    const check = async (dir: DirV1) => {
+      if (options?.ifMatch !== undefined) {
+        this._checkPreconditions(path, await this._getFileFromDirectory(dir, name), options);
+      }
+    };
+    // Fails early without touching the trash, _move() checks again where it unlinks the entry
+    await check(parent);
 
-    const rootWriteKey = `u${base64UrlNoPaddingEncode(
-      new Uint8Array([0x00, ...filesystemRootKey])
+    const deletedAt = Date.now();
+    const trashId = `${deletedAt}-${base64UrlNoPaddingEncode(
+      this.api.crypto.generateSecureRandomBytes(6)
     )}`;
-
-    const rootCID = this._buildEncryptedDirectoryCID(
-      rootPublicKey,
-      rootEncryptionKey
+    await this._move(
+      path,
+      `${TRASH_PATH}/${trashId}`,
+      (ref) => this._withTrashInfo(ref, { path, deletedAt }),
+      check
     );
+    debug.fs5(' Moved to trash', { path: path, trashId: trashId });
 
-    return `fs5://write:${rootWriteKey}@${base32
-      .encode(rootCID)
-      .replace(/=/g, "")
-      .toLowerCase()}`;
+    if (this.trashRetention !== undefined) {
+      await this.emptyTrash({ olderThan: this.trashRetention });
+    }
+    return true;
   }
 
-  /// publicKey: 33 bytes (with multicodec prefix byte)
-  /// encryptionKey: 32 bytes
-  private _buildEncryptedDirectoryCID(
-    publicKey: Uint8Array,
-    encryptionKey: Uint8Array
-  ): Uint8Array {
-    return new Uint8Array([
-      CID_TYPE_FS5_DIRECTORY,
-      CID_TYPE_ENCRYPTED_MUTABLE,
-      ENCRYPTION_ALGORITHM_XCHACHA20POLY1305,
-      ...encryptionKey,
-      ...publicKey,
-    ]);
+  /**
+   * Check whether a path is the trash directory. Walks over a tree skip it, so
+   * find(), du() and diff() only see the trash when started inside it.
+   */
+  private _isTrash(path: string): boolean {
+    return normalizePath(path) === TRASH_PATH;
   }
 
-  private async _getDirectoryMetadata(
-    ks: KeySet
-  ): Promise<{ directory: DirV1; entry?: RegistryEntry } | undefined> {
-    dbg('FS5', '_getDirectoryMetadata', 'ENTER', { publicKey: ks.publicKey });
-
-    let entry: RegistryEntry | undefined;
+  /**
+   * Original path and deletion time recorded on a trashed FileRef or DirRef
+   */
+  private _getTrashInfo(
+    ref: FileRef | DirRef
+  ): { path: string; deletedAt: number } | undefined {
+    const info = ref.extra?.get(EXTRA_TRASH_KEY);
+    if (!(info instanceof Map) || typeof info.get("path") !== "string") {
+      return undefined;
+    }
+    return { path: info.get("path"), deletedAt: Number(info.get("deleted_at")) };
+  }
 
-    let hash: Uint8Array;
-    if (ks.publicKey[0] == mhashBlake3Default) {
-      hash = ks.publicKey;
-      dbg('FS5', '_getDirectoryMetadata', 'Using fixed hash (blake3)', { hash });
+  /**
+   * Copy of a FileRef or DirRef with its trash info set, or removed if undefined
+   */
+  private _withTrashInfo<T extends FileRef | DirRef>(
+    ref: T,
+    info: { path: string; deletedAt: number } | undefined
+  ): T {
+    const extra = new Map(ref.extra ?? []);
+    if (info) {
+      extra.set(EXTRA_TRASH_KEY, new Map<string, any>([
+        ["path", info.path],
+        ["deleted_at", info.deletedAt],
+      ]));
     } else {
-      dbg('REGISTRY', '_getDirectoryMetadata', 'Fetching registry entry...');
-      entry = await this.api.registryGet(ks.publicKey);
+      extra.delete(EXTRA_TRASH_KEY);
+    }
+    const copy = { ...ref };
+    if (extra.size > 0) {
+      copy.extra = extra;
+    } else {
+      delete copy.extra;
+    }
+    return copy;
+  }
 
-      if (entry === undefined) {
-        dbg('FS5', '_getDirectoryMetadata', 'No registry entry found - returning undefined');
-        return undefined;
-      }
+  /**
+   * Extended attributes stored in a FileRef or DirRef, if any
+   */
+  private _getRefAttributes(ref: FileRef | DirRef): Map<string, any> | undefined {
+    const attributes = ref.extra?.get(EXTRA_ATTRIBUTES_KEY);
+    return attributes instanceof Map && attributes.size > 0 ? attributes : undefined;
+  }
 
-      dbg('REGISTRY', '_getDirectoryMetadata', 'Got registry entry', {
-        revision: entry.revision,
-        dataLength: entry.data?.length
-      });
+  /**
+   * Replace the extended attributes of a FileRef or DirRef. Other extra keys are
+   * kept, and the extra map is copied so refs sharing it are not affected.
+   */
+  private _setRefAttributes(
+    ref: FileRef | DirRef,
+    attributes: Map<string, any> | undefined
+  ): void {
+    const extra = new Map(ref.extra ?? []);
+    if (attributes && attributes.size > 0) {
+      extra.set(EXTRA_ATTRIBUTES_KEY, new Map(attributes));
+    } else {
+      extra.delete(EXTRA_ATTRIBUTES_KEY);
+    }
+    if (extra.size > 0) {
+      ref.extra = extra;
+    } else {
+      delete ref.extra;
+    }
+  }
 
-      const data = entry.data;
-      if (data[0] == mhashBlake3 || data[0] == mhashBlake3Default) {
-        hash = data.subarray(0, 33);
-      } else {
-        hash = data.subarray(2, 35);
+  /**
+   * Apply a change to the extended attributes of the entry at a path
+   * @param path Path to the file or directory
+   * @param update Mutates the attributes, returns false if nothing changed
+   */
+  private async _updateAttributes(
+    path: string,
+    update: (attributes: Map<string, any>) => boolean
+  ): Promise<void> {
+    path = normalizePath(path);
+    const segments = path.split("/").filter((s) => s);
+    if (segments.length < 2) {
+      throw new Error("Cannot set attributes on the root or top-level directories");
+    }
+    const name = segments[segments.length - 1];
+    const parentPath = segments.slice(0, -1).join("/");
+
+    const findEntry = async (dir: DirV1) => {
+      const fileRef = await this._getFileFromDirectory(dir, name);
+      if (fileRef) {
+        return { type: "file" as const, ref: fileRef };
       }
-      hash[0] = mhashBlake3;
-      dbg('FS5', '_getDirectoryMetadata', 'Extracted hash from entry', { hash });
+      const dirRef = await this._getDirectoryFromDirectory(dir, name);
+      return dirRef ? { type: "directory" as const, ref: dirRef } : undefined;
+    };
+
+    // Check first so a missing path doesn't create its parent directories
+    const parentDir = await this._loadDirectory(parentPath).catch(() => undefined);
+    if (!parentDir || !(await findEntry(parentDir))) {
+      throw new Error(`Path not found: ${path}`);
     }
 
-    // Handle 404/not found errors when blob doesn't exist
-    let metadataBytes: Uint8Array;
-    try {
-      dbg('DOWNLOAD', '_getDirectoryMetadata', 'Downloading blob...');
-      metadataBytes = await this.api.downloadBlobAsBytes(hash);
-      dbg('DOWNLOAD', '_getDirectoryMetadata', 'Downloaded blob', { byteLength: metadataBytes.length });
-    } catch (error: any) {
-      const message = error?.message?.toLowerCase() || '';
-      dbgError('DOWNLOAD', '_getDirectoryMetadata', 'Download failed', error);
+    await this._updateDirectory(parentPath, async (dir) => {
+      const entry = await findEntry(dir);
+      if (!entry) {
+        return undefined;
+      }
+      const attributes = new Map(this._getRefAttributes(entry.ref) ?? []);
+      if (!update(attributes)) {
+        return undefined;
+      }
+      const ref = { ...entry.ref };
+      this._setRefAttributes(ref, attributes);
+      await this._setEntryInDirectory(dir, name, entry.type, ref);
+      return dir;
+    });
+  }
 
-      if (message.includes('404') ||
-          message.includes('not found') ||
-          error?.status === 404) {
-        // Registry entry exists but blob is gone - return empty directory with entry
-        // This preserves entry.revision so callers use (revision + 1) instead of 1
-        dbg('FS5', '_getDirectoryMetadata', '404 detected - returning empty directory with existing entry revision', {
-          entryRevision: entry?.revision
-        });
-        return {
-          directory: {
-            magic: "S5.pro",
-            header: {},
-            dirs: new Map(),
-            files: new Map(),
-          },
-          entry,  // Preserve registry entry for correct revision calculation
-        };
+  /**
+   * Collect every entry of a directory (supports both regular and HAMT-backed)
+   * @param dir Directory to read
+   * @returns Entries keyed like HAMT keys ("f:name" / "d:name")
+   */
+  private async _getAllEntries(dir: DirV1): Promise<Map<string, DirectoryEntry>> {
+    const entries = new Map<string, DirectoryEntry>();
+    if (dir.header.sharding?.root?.cid) {
+      const hamtData = await this.api.downloadBlobAsBytes(
+        dir.header.sharding.root.cid
+      );
+      const hamt = await HAMT.deserialise(hamtData, this.api);
+      for await (const [key, ref] of hamt.entries()) {
+        const type = key.startsWith("f:") ? "file" : "directory";
+        entries.set(key, { name: key.substring(2), type, ref });
+      }
+    } else {
+      for (const [name, ref] of dir.files) {
+        entries.set(`f:${name}`, { name, type: "file", ref });
+      }
+      for (const [name, ref] of dir.dirs) {
+        entries.set(`d:${name}`, { name, type: "directory", ref });
       }
-      throw error;
     }
+    return entries;
+  }
 
-    if (metadataBytes[0] == 0x8d) {
-      if (ks.encryptionKey == undefined) {
-        dbgError('FS5', '_getDirectoryMetadata', 'Encrypted blob but no encryption key');
-        throw new Error("MissingEncryptionKey");
+  /**
+   * Compare two directory snapshots from _getAllEntries
+   * @returns Added, modified and removed entries
+   */
+  private _diffEntries(
+    before: Map<string, DirectoryEntry>,
+    after: Map<string, DirectoryEntry>
+  ): Array<Pick<WatchEvent, "type" | "name" | "entryType">> {
+    const changes: Array<Pick<WatchEvent, "type" | "name" | "entryType">> = [];
+    for (const [key, entry] of after) {
+      const previous = before.get(key);
+      if (!previous) {
+        changes.push({ type: "added", name: entry.name, entryType: entry.type });
+      } else if (
+        !areArraysEqual(
+          this._entryFingerprint(previous),
+          this._entryFingerprint(entry)
+        )
+      ) {
+        changes.push({ type: "modified", name: entry.name, entryType: entry.type });
+      }
+    }
+    for (const [key, entry] of before) {
+      if (!after.has(key)) {
+        changes.push({ type: "removed", name: entry.name, entryType: entry.type });
       }
-      dbg('FS5', '_getDirectoryMetadata', 'Decrypting blob...');
-      const decryptedMetadataBytes = await decryptMutableBytes(
-        metadataBytes,
-        ks.encryptionKey!,
-        this.api.crypto
-      );
-      const directory = DirV1Serialiser.deserialise(decryptedMetadataBytes);
-      dbg('FS5', '_getDirectoryMetadata', 'SUCCESS (encrypted)', {
-        fileCount: directory.files?.size,
-        dirCount: directory.dirs?.size,
-        entryRevision: entry?.revision
-      });
-      return { directory, entry };
-    } else {
-      const directory = DirV1Serialiser.deserialise(metadataBytes);
-      dbg('FS5', '_getDirectoryMetadata', 'SUCCESS (unencrypted)', {
-        fileCount: directory.files?.size,
-        dirCount: directory.dirs?.size,
-        entryRevision: entry?.revision
-      });
-      return { directory, entry };
     }
+    return changes;
   }
 
-  // Phase 2 helper methods
-
   /**
-   * Encode cursor data to a base64url string
-   * @param data Cursor data to encode
-   * @returns Base64url-encoded cursor string
+   * Canonical bytes of an entry, independent of whether it was read from
+   * an inline directory or a HAMT node
    */
-  private _encodeCursor(data: CursorData): string {
-    const encoded = encodeS5(data);
-    return base64UrlNoPaddingEncode(encoded);
+  private _entryFingerprint(entry: DirectoryEntry): Uint8Array {
+    // A du() cache write changes nothing about the directory itself
+    let dirRef = entry.ref as DirRef;
+    if (entry.type === "directory" && dirRef.extra?.has(DIR_REF_EXTRA_DISK_USAGE)) {
+      dirRef = { ...dirRef, extra: new Map(dirRef.extra) };
+      dirRef.extra!.delete(DIR_REF_EXTRA_DISK_USAGE);
+    }
+    return DirV1Serialiser.serialise({
+      magic: "S5.pro",
+      header: {},
+      dirs: entry.type === "directory" ? new Map([["", dirRef]]) : new Map(),
+      files: entry.type === "file" ? new Map([["", entry.ref as FileRef]]) : new Map(),
+    });
   }
 
   /**
-   * Parse a cursor string back to cursor data
-   * @param cursor Base64url-encoded cursor string
-   * @returns Decoded cursor data
+   * Get a file from a directory (supports both regular and HAMT-backed)
+   * @param dir Directory to search
+   * @param fileName Name of the file
+   * @returns FileRef or undefined if not found
    */
-  private _parseCursor(cursor: string): CursorData {
-    if (!cursor || cursor.length === 0) {
-      throw new Error("Cursor cannot be empty");
+  private async _getFileFromDirectory(
+    dir: DirV1,
+    fileName: string
+  ): Promise<FileRef | undefined> {
+    if (dir.header.sharding?.root?.cid) {
+      // Load HAMT and query
+      const hamt = await this._getDirectoryHamt(dir);
+      return (await hamt.get(`f:${fileName}`)) as FileRef | undefined;
+    } else {
+      // Regular lookup
+      return dir.files.get(fileName);
     }
+  }
 
-    try {
-      const decoded = base64UrlNoPaddingDecode(cursor);
-      const data = decodeS5(decoded);
+  /**
+   * Get a directory reference from a directory (supports both regular and HAMT-backed)
+   * @param dir Directory to search
+   * @param dirName Name of the subdirectory
+   * @returns DirRef or undefined if not found
+   */
+  private async _getDirectoryFromDirectory(
+    dir: DirV1,
+    dirName: string
+  ): Promise<DirRef | undefined> {
+    if (dir.header.sharding?.root?.cid) {
+      // Load HAMT and query
+      const hamt = await this._getDirectoryHamt(dir);
+      return (await hamt.get(`d:${dirName}`)) as DirRef | undefined;
+    } else {
+      // Regular lookup
+      return dir.dirs.get(dirName);
+    }
+  }
 
-      // Validate cursor data - check if it has the expected properties
-      if (!data || typeof data !== "object") {
-        throw new Error("Invalid cursor structure");
+  /**
+   * Compare the entries of two directories and recurse into subdirectories
+   * whose content differs
+   * @param pathA Path of the directory in the old tree
+   * @param pathB Path of the directory in the new tree
+   * @param dirA Directory in the old tree
+   * @param dirB Directory in the new tree
+   * @param relativePath Path of both directories relative to the roots
+   * @param changes Collects the changes found
+   * @param ids Collects content ids of added and removed entries for move detection
+   */
+  private async _diffDirectories(
+    pathA: string,
+    pathB: string,
+    dirA: DirV1,
+    dirB: DirV1,
+    relativePath: string,
+    changes: DiffEntry[],
+    ids: Map<DiffEntry, string>
+  ): Promise<void> {
+    const entriesA = await this._getAllEntries(dirA);
+    const entriesB = await this._getAllEntries(dirB);
+
+    for (const [key, entryA] of entriesA) {
+      const path = relativePath ? `${relativePath}/${entryA.name}` : entryA.name;
+      const entryB = entriesB.get(key);
+      if (this._isTrash(`${pathA}/${entryA.name}`) || this._isTrash(`${pathB}/${entryA.name}`)) {
+        continue;
+      }
+      if (!entryB) {
+        await this._collectDiffSubtree(`${pathA}/${entryA.name}`, entryA, path, "removed", changes, ids);
+        continue;
       }
 
-      let position: string;
-      let type: "file" | "directory";
-      let timestamp: number | undefined;
+      if (entryA.type === "file") {
+        const hashA = (entryA.ref as FileRef).hash;
+        const hashB = (entryB.ref as FileRef).hash;
+        if (!areArraysEqual(hashA, hashB)) {
+          changes.push({
+            type: "modified",
+            entryType: "file",
+            path: path,
+            hash: hashB,
+            previousHash: hashA,
+          });
+        }
+        continue;
+      }
 
-      // Handle both Map and plain object formats
-      if (data instanceof Map) {
-        position = data.get("position");
-        type = data.get("type");
-        timestamp = data.get("timestamp");
-      } else {
-        const cursorData = data as any;
-        position = cursorData.position;
-        type = cursorData.type;
-        timestamp = cursorData.timestamp;
+      if (await this._isSameDirectoryContent(entryA.ref as DirRef, entryB.ref as DirRef)) {
+        continue;
       }
+      const childA = await this._loadDirectory(`${pathA}/${entryA.name}`);
+      const childB = await this._loadDirectory(`${pathB}/${entryB.name}`);
+      await this._diffDirectories(
+        `${pathA}/${entryA.name}`,
+        `${pathB}/${entryB.name}`,
+        childA ?? { magic: "S5.pro", header: {}, dirs: new Map(), files: new Map() },
+        childB ?? { magic: "S5.pro", header: {}, dirs: new Map(), files: new Map() },
+        path,
+        changes,
+        ids
+      );
+    }
 
-      if (
-        typeof position !== "string" ||
-        (type !== "file" && type !== "directory")
-      ) {
-        throw new Error("Invalid cursor structure");
+    for (const [key, entryB] of entriesB) {
+      if (!entriesA.has(key) && !this._isTrash(`${pathB}/${entryB.name}`)) {
+        const path = relativePath ? `${relativePath}/${entryB.name}` : entryB.name;
+        await this._collectDiffSubtree(`${pathB}/${entryB.name}`, entryB, path, "added", changes, ids);
       }
+    }
+  }
 
-      return {
-        position,
+  /**
+   * Report an entry that only exists in one of the compared trees, together
+   * with everything below it
+   * @param path Path of the entry in its tree
+   * @param entry The entry
+   * @param relativePath Path of the entry relative to the roots
+   * @param type Whether the entry was added or removed
+   * @param changes Collects the changes found
+   * @param ids Collects content ids for move detection
+   */
+  private async _collectDiffSubtree(
+    path: string,
+    entry: DirectoryEntry,
+    relativePath: string,
+    type: "added" | "removed",
+    changes: DiffEntry[],
+    ids: Map<DiffEntry, string>
+  ): Promise<void> {
+    if (entry.type === "file") {
+      const hash = (entry.ref as FileRef).hash;
+      const change: DiffEntry = { type, entryType: "file", path: relativePath, hash };
+      changes.push(change);
+      ids.set(change, base64UrlNoPaddingEncode(hash));
+      return;
+    }
+
+    const change: DiffEntry = { type, entryType: "directory", path: relativePath };
+    changes.push(change);
+    const blobHash = await this._getDirectoryBlobHash((entry.ref as DirRef).link);
+    if (blobHash) {
+      ids.set(change, base64UrlNoPaddingEncode(blobHash));
+    }
+
+    const dir = await this._loadDirectory(path);
+    if (!dir) {
+      return;
+    }
+    for (const child of (await this._getAllEntries(dir)).values()) {
+      if (this._isTrash(`${path}/${child.name}`)) {
+        continue;
+      }
+      await this._collectDiffSubtree(
+        `${path}/${child.name}`,
+        child,
+        `${relativePath}/${child.name}`,
         type,
-        timestamp,
-      };
-    } catch (e) {
-      throw new Error(`Failed to parse cursor: ${e}`);
+        changes,
+        ids
+      );
     }
   }
 
   /**
-   * Load a directory at the specified path
-   * @param path Path to the directory (e.g., "home/docs")
-   * @returns The DirV1 object or undefined if not found
+   * Check whether two subdirectories are known to have the same content, either
+   * because they link to the same directory or to the same DirV1 blob
    */
-  private async _loadDirectory(path: string): Promise<DirV1 | undefined> {
-    const preprocessedPath = await this._preprocessLocalPath(path);
-    const ks = await this.getKeySet(preprocessedPath);
-    const metadata = await this._getDirectoryMetadata(ks);
-    return metadata?.directory;
+  private async _isSameDirectoryContent(a: DirRef, b: DirRef): Promise<boolean> {
+    if (
+      a.link.type === b.link.type &&
+      areArraysEqual(
+        a.link.hash ?? a.link.publicKey ?? new Uint8Array(0),
+        b.link.hash ?? b.link.publicKey ?? new Uint8Array(0)
+      )
+    ) {
+      return true;
+    }
+    const hashA = await this._getDirectoryBlobHash(a.link);
+    const hashB = await this._getDirectoryBlobHash(b.link);
+    return hashA !== undefined && hashB !== undefined && areArraysEqual(hashA, hashB);
   }
 
   /**
-   * Update a directory at the specified path
-   * @param path Path to the directory
-   * @param updater Function to update the directory
+   * Hash of the DirV1 blob a directory link currently points to
+   * @param link Directory link
+   * @returns 32 byte BLAKE3 hash, or undefined if the directory has no content yet
    */
-  private async _updateDirectory(
-    path: string,
-    updater: DirectoryTransactionFunction
-  ): Promise<void> {
-    dbg('FS5', '_updateDirectory', 'ENTER', { path });
-
-    // Create intermediate directories if needed
-    const segments = path.split("/").filter((s) => s);
-    dbg('FS5', '_updateDirectory', 'Path segments', { segments, count: segments.length });
+  private async _getDirectoryBlobHash(link: DirLink): Promise<Uint8Array | undefined> {
+    link = await this._followResolverLink(link);
+    if (link.type === "fixed_hash_blake3") {
+      return link.hash;
+    }
+    if (!link.publicKey) {
+      return undefined;
+    }
+    const entry = await this.api.registryGet(
+      concatBytes(new Uint8Array([mkeyEd25519]), link.publicKey)
+    );
+    if (!entry) {
+      return undefined;
+    }
+    // Same layouts as in _getDirectoryMetadata
+    const data = entry.data;
+    return data[0] == mhashBlake3 || data[0] == mhashBlake3Default
+      ? data.subarray(1, 33)
+      : data.subarray(3, 35);
+  }
 
-    // First ensure all parent directories exist
-    for (let i = 1; i <= segments.length; i++) {
-      const currentPath = segments.slice(0, i).join("/");
-      const parentPath = segments.slice(0, i - 1).join("/") || "";
-      const dirName = segments[i - 1];
+  /**
+   * Add up the files below a directory into `usage`
+   * @param path Directory path
+   * @param relativePath Path of the directory relative to the measured root
+   * @param dir The loaded directory
+   * @param usage Statistics being collected, largest file paths are kept relative
+   * @param largestFiles Number of largest files to keep
+   * @param hashes Receives the link and current blob hash of every subdirectory
+   * @returns Totals of the directory's subtree
+   */
+  private async _collectDiskUsage(
+    path: string,
+    relativePath: string,
+    dir: DirV1,
+    usage: Omit<DiskUsage, "path" | "cached">,
+    largestFiles: number,
+    hashes: [DirLink, Uint8Array | undefined][]
+  ): Promise<DiskUsageTotals> {
+    const totals: DiskUsageTotals = { files: 0, directories: 0, totalSize: 0 };
+    if (dir.header.sharding?.root?.cid) {
+      usage.shardedDirectories++;
+    }
 
-      dbg('FS5', '_updateDirectory', `Checking segment ${i}/${segments.length}`, {
-        currentPath,
-        parentPath,
-        dirName
-      });
+    for (const entry of (await this._getAllEntries(dir)).values()) {
+      const entryPath = relativePath ? `${relativePath}/${entry.name}` : entry.name;
 
-      // Check if this directory exists
-      try {
-        dbg('FS5', '_updateDirectory', 'Loading directory to check existence...', { currentPath });
-        const dir = await this._loadDirectory(currentPath);
-        if (!dir) {
-          // Create this directory
-          dbg('DIRECTORY', '_updateDirectory', 'Directory missing - creating', {
-            currentPath,
-            parentPath,
-            dirName
-          });
-          try {
-            await this.createDirectory(parentPath, dirName);
-            dbg('DIRECTORY', '_updateDirectory', 'Directory created', { currentPath });
-          } catch (createError: any) {
-            // Ignore "same name" (race condition) and "does not exist" (parent will be created in next iteration)
-            // DirectoryTransactionResult stores error in .e, not .message
-            const errorStr = createError?.message || createError?.e?.message || createError?.e || createError?.toString?.() || '';
-            if (!errorStr.toString().includes('same name') && !errorStr.toString().includes('does not exist')) {
-              throw createError;
-            }
-            dbg('DIRECTORY', '_updateDirectory', 'Directory creation deferred or already exists', { currentPath });
-          }
+      if (entry.type === "file") {
+        const fileRef = entry.ref as FileRef;
+        const size = Number(fileRef.size);
+        totals.files++;
+        totals.totalSize += size;
+        if (fileRef.extra?.has("encryption")) {
+          usage.encryptedFiles++;
         } else {
-          dbg('FS5', '_updateDirectory', 'Directory exists', { currentPath });
+          usage.plainFiles++;
         }
-      } catch (error: any) {
-        // Directory might not exist, try to create it
-        dbg('DIRECTORY', '_updateDirectory', 'Error loading directory - attempting create', {
-          currentPath,
-          parentPath,
-          dirName,
-          error: error?.message
+        const byType = (usage.mediaTypes[fileRef.media_type ?? "unknown"] ??= {
+          files: 0,
+          totalSize: 0,
         });
-        try {
-          await this.createDirectory(parentPath, dirName);
-          dbg('DIRECTORY', '_updateDirectory', 'Directory created after error', { currentPath });
-        } catch (createError: any) {
-          // Ignore "same name" (race condition) and "does not exist" (parent will be created in next iteration)
-          // DirectoryTransactionResult stores error in .e, not .message
-          const errorStr = createError?.message || createError?.e?.message || createError?.e || createError?.toString?.() || '';
-          if (!errorStr.toString().includes('same name') && !errorStr.toString().includes('does not exist')) {
-            throw createError;
-          }
-          dbg('DIRECTORY', '_updateDirectory', 'Directory creation deferred or already exists', { currentPath });
+        byType.files++;
+        byType.totalSize += size;
+        if (largestFiles > 0) {
+          usage.largestFiles.push({ path: entryPath, size: size, mediaType: fileRef.media_type });
+          usage.largestFiles.sort(
+            (a, b) => b.size - a.size || (a.path < b.path ? -1 : a.path > b.path ? 1 : 0)
+          );
+          usage.largestFiles.length = Math.min(usage.largestFiles.length, largestFiles);
         }
+        continue;
+      }
+
+      if (this._isTrash(`${path}/${entry.name}`)) {
+        continue;
+      }
+      const link = (entry.ref as DirRef).link;
+      hashes.push([link, await this._getDirectoryBlobHash(link)]);
+      totals.directories++;
+      const child = await this._loadDirectory(`${path}/${entry.name}`);
+      if (!child) {
+        continue;
+      }
+      const childTotals = await this._collectDiskUsage(
+        `${path}/${entry.name}`,
+        entryPath,
+        child,
+        usage,
+        largestFiles,
+        hashes
+      );
+      totals.files += childTotals.files;
+      totals.directories += childTotals.directories;
+      totals.totalSize += childTotals.totalSize;
+      if (!relativePath) {
+        usage.subdirectories[entry.name] = childTotals;
       }
     }
+    return totals;
+  }
 
-    // Now perform the update
-    const preprocessedPath = await this._preprocessLocalPath(path || "home");
-    dbg('FS5', '_updateDirectory', 'Running transaction', { preprocessedPath });
+  /**
+   * Read the du() cache of a directory, if every directory it covers still has
+   * the DirV1 blob hash recorded with it
+   * @param dirRef DirRef of the measured directory
+   * @param largestFiles Number of largest files the caller wants
+   * @returns Cached statistics with relative largest file paths, or undefined
+   */
+  private async _getCachedDiskUsage(
+    dirRef: DirRef,
+    largestFiles: number
+  ): Promise<Omit<DiskUsage, "path" | "cached"> | undefined> {
+    const cache = dirRef.extra?.get(DIR_REF_EXTRA_DISK_USAGE);
+    if (!(cache instanceof Map) || !(cache.get("largest") >= largestFiles)) {
+      return undefined;
+    }
+    const dirs = cache.get("dirs");
+    if (!Array.isArray(dirs) || dirs.length === 0) {
+      return undefined;
+    }
 
-    const result = await this.runTransactionOnDirectory(
-      preprocessedPath,
-      updater
-    );
+    // The first entry is the directory itself, a relinked DirRef keeps its extra
+    const linkKey = dirRef.link.publicKey ?? dirRef.link.hash;
+    if (dirs[0][0] !== dirRef.link.type || !linkKey || !areArraysEqual(dirs[0][1], linkKey)) {
+      return undefined;
+    }
+    for (const [type, key, hash] of dirs) {
+      const link: DirLink =
+        type === "fixed_hash_blake3" ? { type, hash: key } : { type, publicKey: key };
+      const current = await this._getDirectoryBlobHash(link);
+      if (!current || !areArraysEqual(current, hash)) {
+        return undefined;
+      }
+    }
 
-    dbg('FS5', '_updateDirectory', 'Transaction complete, unwrapping result...', {
-      resultType: result.type
-    });
-    result.unwrap();
-    dbg('FS5', '_updateDirectory', 'SUCCESS', { path });
+    const usage = JSON.parse(cache.get("usage"));
+    usage.largestFiles = usage.largestFiles.slice(0, largestFiles);
+    return usage;
+  }
+
+  /**
+   * Keep du() statistics in the DirRef.extra of a directory. This is best
+   * effort, a read-only or concurrently changed parent just isn't cached.
+   */
+  private async _storeDiskUsageCache(
+    parentPath: string,
+    name: string,
+    link: DirLink,
+    usage: Omit<DiskUsage, "path" | "cached">,
+    largestFiles: number,
+    hashes: [DirLink, Uint8Array | undefined][]
+  ): Promise<void> {
+    const cache = new Map<string, any>([
+      ["dirs", hashes.map(([l, hash]) => [l.type, l.publicKey ?? l.hash, hash])],
+      ["largest", largestFiles],
+      ["usage", JSON.stringify(usage)],
+    ]);
+    try {
+      await this._updateDirectory(parentPath, async (parent) => {
+        const current = await this._getDirectoryFromDirectory(parent, name);
+        const currentKey = current?.link.publicKey ?? current?.link.hash;
+        const key = link.publicKey ?? link.hash;
+        if (
+          !current ||
+          current.link.type !== link.type ||
+          !currentKey ||
+          !key ||
+          !areArraysEqual(currentKey, key)
+        ) {
+          return undefined;
+        }
+        if (this._isSameDiskUsageCache(current.extra?.get(DIR_REF_EXTRA_DISK_USAGE), cache)) {
+          return undefined;
+        }
+        const ref: DirRef = { ...current, extra: new Map(current.extra ?? []) };
+        ref.extra!.set(DIR_REF_EXTRA_DISK_USAGE, cache);
+        await this._setEntryInDirectory(parent, name, "directory", ref);
+        return parent;
+      });
+    } catch (e) {
+      debug.fs5(' Path API: DU cache not stored', { path: parentPath, name: name, error: e });
+    }
+  }
+
+  /**
+   * Check whether a stored du() cache already holds the given statistics
+   */
+  private _isSameDiskUsageCache(stored: unknown, cache: Map<string, any>): boolean {
+    if (
+      !(stored instanceof Map) ||
+      stored.get("largest") !== cache.get("largest") ||
+      stored.get("usage") !== cache.get("usage")
+    ) {
+      return false;
+    }
+    const a = stored.get("dirs");
+    const b = cache.get("dirs");
+    return (
+      Array.isArray(a) &&
+      a.length === b.length &&
+      a.every(
+        (dir: any[], i: number) =>
+          dir[0] === b[i][0] && areArraysEqual(dir[1], b[i][1]) && areArraysEqual(dir[2], b[i][2])
+      )
+    );
   }
 
   /**
-   * Get the oldest timestamp from all files and subdirectories in a directory
-   * @param dir Directory to scan
-   * @returns Oldest timestamp in seconds, or undefined if no timestamps found
+   * Turn collected or cached du() statistics into the public result
    */
-  private _getOldestTimestamp(dir: DirV1): number | undefined {
-    let oldest: number | undefined;
+  private _toDiskUsage(
+    path: string,
+    usage: Omit<DiskUsage, "path" | "cached">,
+    cached: boolean
+  ): DiskUsage {
+    return {
+      path: path,
+      ...usage,
+      largestFiles: usage.largestFiles.map((file) => ({
+        ...file,
+        path: path ? `${path}/${file.path}` : file.path,
+      })),
+      cached: cached,
+    };
+  }
 
-    // Check all files
-    for (const [_, file] of dir.files) {
-      if (file.timestamp && (!oldest || file.timestamp < oldest)) {
-        oldest = file.timestamp;
+  /**
+   * Walk the files below a directory depth-first, ordering the entries of each
+   * directory by name with subdirectories before files of the same name
+   * @param path Directory to walk
+   * @param segments Path of the directory relative to the search root
+   * @param after Relative path of a file to resume after, skipping everything up to it
+   * @returns Async iterator of file paths relative to the search root and their FileRef
+   */
+  private async *_walkFiles(
+    path: string,
+    segments: string[],
+    after?: string[]
+  ): AsyncIterableIterator<{ segments: string[]; fileRef: FileRef }> {
+    let dir: DirV1 | undefined;
+    try {
+      dir = await this._loadDirectory(path);
+    } catch (e) {
+      if (segments.length === 0) {
+        throw e;
       }
+      debug.fs5(' Find: skipping unreadable directory', { path: path });
+      return;
+    }
+    if (!dir) {
+      return;
     }
 
-    // Check all subdirectories
-    for (const [_, subdir] of dir.dirs) {
-      if (subdir.ts_seconds && (!oldest || subdir.ts_seconds < oldest)) {
-        oldest = subdir.ts_seconds;
+    const depth = segments.length;
+    const entries = [...(await this._getAllEntries(dir)).values()].sort((a, b) => {
+      if (a.name !== b.name) {
+        return a.name < b.name ? -1 : 1;
       }
-    }
+      return a.type === b.type ? 0 : a.type === "directory" ? -1 : 1;
+    });
 
-    return oldest;
+    for (const entry of entries) {
+      let resumeAfter: string[] | undefined;
+      if (after && depth < after.length) {
+        // Entries up to the cursor were returned by an earlier search, only the
+        // directory on the path to the cursor is entered again
+        if (entry.name < after[depth]) {
+          continue;
+        }
+        if (entry.name === after[depth]) {
+          if (depth === after.length - 1) {
+            continue;
+          }
+          if (entry.type === "directory") {
+            resumeAfter = after;
+          }
+        }
+      }
+
+      const entrySegments = [...segments, entry.name];
+      if (entry.type === "file") {
+        yield { segments: entrySegments, fileRef: entry.ref as FileRef };
+      } else if (!this._isTrash(path ? `${path}/${entry.name}` : entry.name)) {
+        yield* this._walkFiles(
+          path ? `${path}/${entry.name}` : entry.name,
+          entrySegments,
+          resumeAfter
+        );
+      }
+    }
   }
 
   /**
-   * Get the newest timestamp from all files and subdirectories in a directory
-   * @param dir Directory to scan
-   * @returns Newest timestamp in seconds, or undefined if no timestamps found
+   * Check a file against the filters of a find query
+   * @param relativePath Path of the file relative to the search root
+   * @param fileRef FileRef of the file
+   * @param query The find query
+   * @param pattern Compiled glob of the query, if any
+   * @returns true if the file matches every filter
    */
-  private _getNewestTimestamp(dir: DirV1): number | undefined {
-    let newest: number | undefined;
+  private _matchesFindQuery(
+    relativePath: string,
+    fileRef: FileRef,
+    query: FindQuery,
+    pattern?: RegExp
+  ): boolean {
+    if (pattern && !pattern.test(relativePath)) {
+      return false;
+    }
 
-    // Check all files
-    for (const [_, file] of dir.files) {
-      if (file.timestamp && (!newest || file.timestamp > newest)) {
-        newest = file.timestamp;
+    if (query.mediaType !== undefined) {
+      const mediaType = fileRef.media_type ?? "";
+      const matches = query.mediaType.endsWith("/")
+        ? mediaType.startsWith(query.mediaType)
+        : mediaType === query.mediaType;
+      if (!matches) {
+        return false;
       }
     }
 
-    // Check all subdirectories
-    for (const [_, subdir] of dir.dirs) {
-      if (subdir.ts_seconds && (!newest || subdir.ts_seconds > newest)) {
-        newest = subdir.ts_seconds;
-      }
+    const size = Number(fileRef.size);
+    if (query.minSize !== undefined && size < query.minSize) {
+      return false;
+    }
+    if (query.maxSize !== undefined && size > query.maxSize) {
+      return false;
     }
 
-    return newest;
+    // FileRef timestamps have second precision
+    if (query.modifiedAfter !== undefined || query.modifiedBefore !== undefined) {
+      if (fileRef.timestamp === undefined) {
+        return false;
+      }
+      if (
+        query.modifiedAfter !== undefined &&
+        fileRef.timestamp < Math.floor(query.modifiedAfter / 1000)
+      ) {
+        return false;
+      }
+      if (
+        query.modifiedBefore !== undefined &&
+        fileRef.timestamp > Math.floor(query.modifiedBefore / 1000)
+      ) {
+        return false;
+      }
+    }
+    return true;
   }
 
   /**
-   * Extract detailed metadata from a FileRef
-   * @param file FileRef to extract metadata from
-   * @returns Metadata object with all file properties
+   * Parse a cursor returned by find()
+   * @param cursor Base64url-encoded cursor string
+   * @returns Path of the last returned file relative to the search root
    */
-  private _extractFileMetadata(file: FileRef): Record<string, any> {
-    const metadata: Record<string, any> = {
-      size: Number(file.size),
-      mediaType: file.media_type || "application/octet-stream",
-      timestamp: file.timestamp
-        ? new Date(file.timestamp * 1000).toISOString()
-        : undefined,
-      custom: file.extra ? Object.fromEntries(file.extra) : undefined,
-    };
-
-    // Add optional fields if present
-    if (file.locations && file.locations.length > 0) {
-      metadata.locations = file.locations;
+  private _parseFindCursor(cursor: string): string[] {
+    let segments: unknown;
+    try {
+      segments = decodeS5(base64UrlNoPaddingDecode(cursor));
+    } catch {
+      throw new Error("Invalid cursor");
     }
-
-    if (file.prev) {
-      metadata.hasHistory = true;
+    if (
+      !Array.isArray(segments) ||
+      segments.length === 0 ||
+      !segments.every((segment) => typeof segment === "string")
+    ) {
+      throw new Error("Invalid cursor");
     }
-
-    return metadata;
+    return segments;
   }
 
   /**
-   * Extract metadata from a DirRef
-   * @param dir DirRef to extract metadata from
-   * @returns Metadata object with directory properties
+   * Check whether a directory contains a file or subdirectory with the given name
+   * @param dir Directory to search
+   * @param name Entry name
+   * @returns true if either a file or a subdirectory uses the name
    */
-  private _extractDirMetadata(dir: DirRef): Record<string, any> {
-    return {
-      timestamp: dir.ts_seconds
-        ? new Date(dir.ts_seconds * 1000).toISOString()
-        : undefined,
-      extra: dir.extra,
-    };
+  private async _hasEntry(dir: DirV1, name: string): Promise<boolean> {
+    if (await this._getFileFromDirectory(dir, name)) return true;
+    return (await this._getDirectoryFromDirectory(dir, name)) !== undefined;
   }
 
-  // HAMT Integration Methods (Week 3)
-
   /**
-   * Serialize a directory with HAMT backing
-   * @param dir Directory to serialize
-   * @param hamt HAMT instance containing the entries
-   * @returns Serialized directory bytes
+   * Insert or replace an entry in a directory (supports both regular and HAMT-backed)
+   * @param dir Directory to modify in place
+   * @param name Entry name
+   * @param type Entry type
+   * @param ref FileRef or DirRef to store
    */
-  private async _serialiseShardedDirectory(
+  private async _setEntryInDirectory(
     dir: DirV1,
-    hamt: HAMT
-  ): Promise<Uint8Array> {
-    // Store HAMT structure
-    const hamtData = hamt.serialise();
-    const { hash } = await this.api.uploadBlob(new Blob([hamtData as BlobPart]));
-
-    // Update directory to reference HAMT
-    dir.header.sharding = {
-      type: "hamt",
-      config: {
-        bitsPerLevel: 5,
-        maxInlineEntries: 1000,
-        hashFunction: 0,
-      },
-      root: {
-        cid: hash,
-        totalEntries: dir.files.size + dir.dirs.size,
-        depth: await hamt.getDepth(),
-      },
-    };
-
-    // Clear inline maps for sharded directory
-    dir.files.clear();
-    dir.dirs.clear();
+    name: string,
+    type: "file" | "directory",
+    ref: FileRef | DirRef
+  ): Promise<void> {
+    if (dir.header.sharding?.root?.cid) {
+      const hamt = await this._getDirectoryHamt(dir);
+      const key = `${type === "file" ? "f" : "d"}:${name}`;
+      const existed = (await hamt.get(key)) !== undefined;
+      await hamt.insert(key, ref);
 
-    // Serialize using DirV1Serialiser
-    return DirV1Serialiser.serialise(dir);
+      await this._storeDirectoryHamt(dir, hamt);
+      if (!existed) {
+        dir.header.sharding.root.totalEntries++;
+      }
+    } else {
+      if (type === "file") {
+        dir.files.set(name, ref as FileRef);
+      } else {
+        dir.dirs.set(name, ref as DirRef);
+      }
+      await this._checkAndConvertToSharded(dir);
+    }
   }
 
   /**
-   * List entries from a HAMT-backed directory
-   * @param hamt HAMT instance
-   * @param cursor Optional cursor for pagination
-   * @returns Async iterator of directory entries
+   * Remove an entry from a directory (supports both regular and HAMT-backed)
+   * @param dir Directory to modify in place
+   * @param name Entry name
+   * @param type Entry type
+   * @returns true if the entry existed and was removed
    */
-  private async *_listWithHAMT(
-    hamt: HAMT,
-    cursor?: string
-  ): AsyncIterableIterator<ListResult> {
-    const parsedCursor = cursor ? this._parseCursor(cursor) : undefined;
-    const iterator = parsedCursor?.path
-      ? hamt.entriesFrom(parsedCursor.path)
-      : hamt.entries();
+  private async _removeEntryFromDirectory(
+    dir: DirV1,
+    name: string,
+    type: "file" | "directory"
+  ): Promise<boolean> {
+    if (dir.header.sharding?.root?.cid) {
+      const hamt = await this._getDirectoryHamt(dir);
+      const deleted = await hamt.delete(`${type === "file" ? "f" : "d"}:${name}`);
+      if (deleted) {
+        await this._storeDirectoryHamt(dir, hamt);
+        dir.header.sharding.root.totalEntries--;
+      }
+      return deleted;
+    }
+    return type === "file" ? dir.files.delete(name) : dir.dirs.delete(name);
+  }
 
-    for await (const [key, value] of iterator) {
-      if (key.startsWith("f:")) {
-        // File entry
-        const name = key.substring(2);
-        const fileRef = value as FileRef;
-        const metadata = this._extractFileMetadata(fileRef);
 
-        yield {
-          name,
-          type: "file",
-          size: metadata.size,
-          mediaType: metadata.mediaType,
-          timestamp: metadata.timestamp,
-          cursor: this._encodeCursor({
-            position: name,
-            type: "file",
-            timestamp: metadata.timestamp,
-            path: await hamt.getPathForKey(key),
-          }),
-        };
-      } else if (key.startsWith("d:")) {
-        // Directory entry
-        const name = key.substring(2);
-        const dirRef = value as DirRef;
+  /**
+   * Keep changes to a sharded directory's HAMT in memory until
+   * _flushDirectoryHamt() is called, so a batch of changes uploads it once
+   * @param dir Directory about to be changed
+   */
+  private _batchDirectoryHamt(dir: DirV1): void {
+    this.batchedHamts.set(dir, { dirty: false });
+  }
 
-        yield {
-          name,
-          type: "directory",
-          cursor: this._encodeCursor({
-            position: name,
-            type: "directory",
-            timestamp: dirRef.ts_seconds,
-            path: await hamt.getPathForKey(key),
-          }),
-        };
-      }
+  /**
+   * Upload the HAMT of a directory batched with _batchDirectoryHamt() if it changed
+   * @param dir Directory whose batch ends
+   */
+  private async _flushDirectoryHamt(dir: DirV1): Promise<void> {
+    const batch = this.batchedHamts.get(dir);
+    this.batchedHamts.delete(dir);
+    if (batch?.hamt && batch.dirty) {
+      await this._storeDirectoryHamt(dir, batch.hamt);
     }
   }
 
   /**
-   * Get a file from a directory (supports both regular and HAMT-backed)
-   * @param dir Directory to search
-   * @param fileName Name of the file
-   * @returns FileRef or undefined if not found
+   * Load the HAMT of a sharded directory, or the in-memory copy of a batched one
    */
-  private async _getFileFromDirectory(
-    dir: DirV1,
-    fileName: string
-  ): Promise<FileRef | undefined> {
-    if (dir.header.sharding?.root?.cid) {
-      // Load HAMT and query
-      const hamtData = await this.api.downloadBlobAsBytes(
-        dir.header.sharding.root.cid
-      );
-      const hamt = await HAMT.deserialise(hamtData, this.api);
-      return (await hamt.get(`f:${fileName}`)) as FileRef | undefined;
-    } else {
-      // Regular lookup
-      return dir.files.get(fileName);
+  private async _getDirectoryHamt(dir: DirV1): Promise<HAMT> {
+    const batch = this.batchedHamts.get(dir);
+    if (batch?.hamt) {
+      return batch.hamt;
+    }
+    const hamtData = await this.api.downloadBlobAsBytes(
+      dir.header.sharding!.root!.cid
+    );
+    const hamt = await HAMT.deserialise(hamtData, this.api);
+    if (batch) {
+      batch.hamt = hamt;
     }
+    return hamt;
   }
 
   /**
-   * Get a directory reference from a directory (supports both regular and HAMT-backed)
-   * @param dir Directory to search
-   * @param dirName Name of the subdirectory
-   * @returns DirRef or undefined if not found
+   * Upload a changed HAMT and point the directory at it, deferred for batched directories
    */
-  private async _getDirectoryFromDirectory(
-    dir: DirV1,
-    dirName: string
-  ): Promise<DirRef | undefined> {
-    if (dir.header.sharding?.root?.cid) {
-      // Load HAMT and query
-      const hamtData = await this.api.downloadBlobAsBytes(
-        dir.header.sharding.root.cid
-      );
-      const hamt = await HAMT.deserialise(hamtData, this.api);
-      return (await hamt.get(`d:${dirName}`)) as DirRef | undefined;
-    } else {
-      // Regular lookup
-      return dir.dirs.get(dirName);
+  private async _storeDirectoryHamt(dir: DirV1, hamt: HAMT): Promise<void> {
+    const batch = this.batchedHamts.get(dir);
+    if (batch) {
+      batch.hamt = hamt;
+      batch.dirty = true;
+      return;
     }
+    const { hash } = await this.api.uploadBlob(new Blob([hamt.serialise() as BlobPart]));
+    dir.header.sharding!.root!.cid = hash;
   }
 
-
   /**
    * Check and convert directory to sharded if it exceeds threshold
    * @param dir Directory to check
@@ -2202,19 +5779,9 @@ export class FS5 {
       if (!dirRef) return undefined;
 
       // Construct child KeySet from DirRef link
-      if (dirRef.link.type === 'mutable_registry_ed25519' && dirRef.link.publicKey) {
-        ks = {
-          publicKey: concatBytes(new Uint8Array([mkeyEd25519]), dirRef.link.publicKey),
-          writeKey: undefined,
-          encryptionKey: undefined,
-        };
-      } else if (dirRef.link.type === 'fixed_hash_blake3' && dirRef.link.hash) {
-        ks = {
-          publicKey: concatBytes(new Uint8Array([mhashBlake3Default]), dirRef.link.hash),
-          writeKey: undefined,
-          encryptionKey: undefined,
-        };
-      } else {
+      try {
+        ks = await this._keySetForLink(dirRef.link);
+      } catch {
         return undefined;
       }
 
@@ -2238,9 +5805,7 @@ export class FS5 {
 
     // Download file blob
     try {
-      const data = await this.api.downloadBlobAsBytes(
-        concatBytes(new Uint8Array([MULTIHASH_BLAKE3]), fileRef.hash)
-      );
+      const data = await this._downloadStoredBlob(fileRef);
       dbg('FS5', 'readFromPublicDirectory', 'SUCCESS', { size: data.length });
       return data;
     } catch (e: any) {
@@ -2286,13 +5851,20 @@ export class FS5 {
     let dir = await loadDir();
     if (!dir) return undefined;
 
+    // Resolver links are followed, only mutable directories have a registry key
+    const mutableLinkOf = async (dirRef: DirRef | undefined): Promise<DirLink | undefined> => {
+      if (!dirRef) return undefined;
+      const link = await this._followResolverLink(dirRef.link);
+      return link.type === 'mutable_registry_ed25519' && link.publicKey ? link : undefined;
+    };
+
     for (let i = 0; i < segments.length - 1; i++) {
-      const dirRef = await this._getDirectoryFromDirectory(dir, segments[i]);
-      if (!dirRef || dirRef.link.type !== 'mutable_registry_ed25519' || !dirRef.link.publicKey) {
+      const link = await mutableLinkOf(await this._getDirectoryFromDirectory(dir, segments[i]));
+      if (!link) {
         return undefined;
       }
       ks = {
-        publicKey: concatBytes(new Uint8Array([mkeyEd25519]), dirRef.link.publicKey),
+        publicKey: concatBytes(new Uint8Array([mkeyEd25519]), link.publicKey!),
         writeKey: undefined,
         encryptionKey: undefined,
       };
@@ -2301,12 +5873,14 @@ export class FS5 {
       dir = next;
     }
 
-    const finalRef = await this._getDirectoryFromDirectory(dir, segments[segments.length - 1]);
-    if (!finalRef || finalRef.link.type !== 'mutable_registry_ed25519' || !finalRef.link.publicKey) {
+    const finalLink = await mutableLinkOf(
+      await this._getDirectoryFromDirectory(dir, segments[segments.length - 1])
+    );
+    if (!finalLink) {
       return undefined;
     }
     dbg('FS5', 'getPublicDirectoryKeyFrom', 'SUCCESS', { keyLength: 32 });
-    return finalRef.link.publicKey.slice();
+    return finalLink.publicKey!.slice();
   }
 }
 interface KeySet {
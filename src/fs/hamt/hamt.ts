@@ -421,13 +421,7 @@ export class HAMT {
           
           if (k.startsWith("f:")) {
             // FileRef
-            const fileRef: FileRef = { 
-              hash: getVField('hash'), 
-              size: getVField('size')
-            };
-            const mediaType = getVField('media_type');
-            if (mediaType) fileRef.media_type = mediaType;
-            return [k, fileRef] as [string, FileRef];
+            return [k, this._reconstructFileRef(v)] as [string, FileRef];
           } else {
             // DirRef
             const linkData = getVField('link');
@@ -436,7 +430,16 @@ export class HAMT {
               type: linkData.get('type'),
               hash: linkData.get('hash')
             } : linkData;
+            if (linkIsMap && linkData.get('publicKey') !== undefined) {
+              link.publicKey = linkData.get('publicKey');
+            }
             const dirRef: DirRef = { link };
+            const tsSeconds = getVField('ts_seconds');
+            if (tsSeconds !== undefined) dirRef.ts_seconds = tsSeconds;
+            const tsNanos = getVField('ts_nanos');
+            if (tsNanos !== undefined) dirRef.ts_nanos = tsNanos;
+            const extra = getVField('extra');
+            if (extra instanceof Map) dirRef.extra = extra;
             return [k, dirRef] as [string, DirRef];
           }
         });
@@ -550,18 +553,10 @@ export class HAMT {
         const leafEntries = child.entries.map(([k, v]) => {
           if (k.startsWith("f:")) {
             // FileRef
-            return [k, new Map<string, any>([
-              ["hash", (v as any).hash],
-              ["size", (v as any).size]
-            ])];
+            return [k, this._prepareFileRefForSerialization(v as FileRef)];
           } else {
             // DirRef
-            return [k, new Map<string, any>([
-              ["link", new Map<string, any>([
-                ["type", (v as any).link.type],
-                ["hash", (v as any).link.hash]
-              ])]
-            ])];
+            return [k, this._prepareDirRefForSerialization(v as DirRef)];
           }
         });
         
@@ -580,6 +575,67 @@ export class HAMT {
     ]);
   }
 
+  /**
+   * Prepare a FileRef leaf value for serialization (optional fields only when set)
+   */
+  private _prepareFileRefForSerialization(fileRef: FileRef): Map<string, any> {
+    const result = new Map<string, any>([
+      ["hash", fileRef.hash],
+      ["size", fileRef.size]
+    ]);
+    if (fileRef.media_type !== undefined) result.set("media_type", fileRef.media_type);
+    if (fileRef.timestamp !== undefined) result.set("timestamp", fileRef.timestamp);
+    if (fileRef.timestamp_subsec_nanos !== undefined) {
+      result.set("timestamp_subsec_nanos", fileRef.timestamp_subsec_nanos);
+    }
+    if (fileRef.extra !== undefined && fileRef.extra.size > 0) result.set("extra", fileRef.extra);
+    if (fileRef.prev !== undefined) {
+      result.set("prev", this._prepareFileRefForSerialization(fileRef.prev));
+    }
+    return result;
+  }
+
+  /**
+   * Prepare a DirRef leaf value for serialization (optional fields only when set)
+   */
+  private _prepareDirRefForSerialization(dirRef: DirRef): Map<string, any> {
+    const link = new Map<string, any>([
+      ["type", dirRef.link.type],
+      ["hash", dirRef.link.hash]
+    ]);
+    if (dirRef.link.publicKey !== undefined) link.set("publicKey", dirRef.link.publicKey);
+
+    const result = new Map<string, any>([["link", link]]);
+    if (dirRef.ts_seconds !== undefined) result.set("ts_seconds", dirRef.ts_seconds);
+    if (dirRef.ts_nanos !== undefined) result.set("ts_nanos", dirRef.ts_nanos);
+    if (dirRef.extra !== undefined && dirRef.extra.size > 0) result.set("extra", dirRef.extra);
+    return result;
+  }
+
+  /**
+   * Reconstruct a FileRef leaf value from decoded data
+   */
+  private _reconstructFileRef(data: Map<string, any> | any): FileRef {
+    const isMap = data instanceof Map;
+    const getField = (field: string) => isMap ? data.get(field) : data[field];
+
+    const fileRef: FileRef = {
+      hash: getField('hash'),
+      size: getField('size')
+    };
+    const mediaType = getField('media_type');
+    if (mediaType) fileRef.media_type = mediaType;
+    const timestamp = getField('timestamp');
+    if (timestamp !== undefined) fileRef.timestamp = timestamp;
+    const subsecNanos = getField('timestamp_subsec_nanos');
+    if (subsecNanos !== undefined) fileRef.timestamp_subsec_nanos = subsecNanos;
+    const extra = getField('extra');
+    if (extra instanceof Map) fileRef.extra = extra;
+    const prev = getField('prev');
+    if (prev !== undefined && prev !== null) fileRef.prev = this._reconstructFileRef(prev);
+    return fileRef;
+  }
+
   /**
    * Deserialize a HAMT from storage
    */
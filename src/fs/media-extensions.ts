@@ -247,10 +247,8 @@ export class FS5MediaExtensions {
         }))
       };
 
-      const manifestData = new TextEncoder().encode(JSON.stringify(manifest, null, 2));
-      await this.fs5.put(`${galleryPath}/manifest.json`, manifestData, {
-        mediaType: 'application/json'
-      });
+      // Stored as compact JSON with the json encoding, so get() returns the parsed manifest
+      await this.fs5.putJSON(`${galleryPath}/manifest.json`, manifest);
     }
 
     return results;
@@ -0,0 +1,117 @@
+/**
+ * PublicFS5 - Read-only view of another user's public directory
+ *
+ * Built from the 32-byte public key of a directory's registry entry, for
+ * example one returned by `FS5.getPublicDirectoryKey()`. No identity is
+ * needed, so third-party apps can browse a published folder with only an
+ * `S5Node` (or any other `S5APIInterface`). Paths are relative to the
+ * public directory.
+ *
+ * @example
+ * ```typescript
+ * const publicFs = new PublicFS5(node, publisherKey);
+ *
+ * for await (const item of publicFs.list('')) {
+ *   console.log(item.type, item.name);
+ * }
+ * for await (const entry of publicFs.walk('photos')) {
+ *   console.log(entry.path, entry.size);
+ * }
+ * const readme = await publicFs.get('README.md');
+ * ```
+ */
+
+import type { S5APIInterface } from '../api/s5.js';
+import { mkeyEd25519 } from '../constants.js';
+import { buildDirectoryURI, FS5 } from './fs5.js';
+import { DirectoryWalker, WalkOptions, WalkResult, WalkStats } from './utils/walker.js';
+import type { GetOptions, ListOptions, ListResult } from './dirv1/types.js';
+
+/**
+ * Browse a public directory tree without an identity
+ */
+export class PublicFS5 {
+  /** Public key of the directory's registry entry (32 bytes) */
+  readonly publicKey: Uint8Array;
+  private readonly fs5: FS5;
+
+  /**
+   * @param api - S5 API used to fetch registry entries and blobs, e.g. an S5Node
+   * @param publicKey - 32-byte Ed25519 public key of the directory, without multicodec prefix
+   * @throws Error if publicKey is not 32 bytes
+   */
+  constructor(api: S5APIInterface, publicKey: Uint8Array) {
+    if (publicKey.length !== 32) {
+      throw new Error('publicKey must be exactly 32 bytes');
+    }
+    this.publicKey = publicKey;
+    const root = buildDirectoryURI(new Uint8Array([mkeyEd25519, ...publicKey]));
+    this.fs5 = new FS5(api, undefined, { root: root });
+  }
+
+  /**
+   * Get data at a path in the public directory
+   *
+   * @param path - Path relative to the public directory (e.g., "docs/readme.md")
+   * @returns The decoded data or undefined if not found
+   */
+  async get(path: string, options?: GetOptions): Promise<any | undefined> {
+    return this.fs5.get(path, options);
+  }
+
+  /**
+   * Get the raw bytes of a file in the public directory
+   *
+   * @param path - Path relative to the public directory
+   * @returns The file contents or undefined if not found
+   */
+  async getBytes(path: string): Promise<Uint8Array | undefined> {
+    return this.fs5.getBytes(path);
+  }
+
+  /**
+   * Get metadata of a file or directory: size, media type and timestamps for
+   * files, entry counts for directories
+   *
+   * @param path - Path relative to the public directory, "" for the directory itself
+   * @returns Metadata or undefined if not found
+   */
+  async getMetadata(path: string): Promise<Record<string, any> | undefined> {
+    return this.fs5.getMetadata(path);
+  }
+
+  /**
+   * List a directory in the public tree
+   *
+   * @param path - Path relative to the public directory, "" for the directory itself
+   * @param options - Same options as `FS5.list()`
+   * @returns Async iterator of directory entries
+   */
+  list(path: string, options?: ListOptions): AsyncIterableIterator<ListResult> {
+    return this.fs5.list(path, options);
+  }
+
+  /**
+   * Walk a directory tree in the public directory
+   *
+   * @param path - Directory to start from, "" for the public directory itself
+   * @param options - Same options as `DirectoryWalker.walk()`
+   * @returns Async iterator of entries with paths relative to the public directory
+   */
+  async *walk(path: string = '', options?: WalkOptions): AsyncIterableIterator<WalkResult> {
+    // The walker uses "/" for the root and prefixes entry paths with it
+    for await (const entry of new DirectoryWalker(this.fs5, path || '/').walk(options)) {
+      yield { ...entry, path: entry.path.replace(/^\//, '') };
+    }
+  }
+
+  /**
+   * Count files, directories and total size below a directory
+   *
+   * @param path - Directory to start from, "" for the public directory itself
+   * @param options - Same options as `DirectoryWalker.count()`
+   */
+  async count(path: string = '', options?: WalkOptions): Promise<WalkStats> {
+    return new DirectoryWalker(this.fs5, path || '/').count(options);
+  }
+}
@@ -0,0 +1,168 @@
+/**
+ * SharedDirectory - View of a directory opened from a share link
+ *
+ * Share links are created with `FS5.createShareLink()` and opened with
+ * `FS5.openShared()`, so a folder can be shared with teammates who have
+ * their own identities. Paths are relative to the shared directory.
+ *
+ * @example
+ * ```typescript
+ * // Owner
+ * const link = await s5.fs.createShareLink('home/team', { writable: false });
+ *
+ * // Teammate
+ * const shared = await teammate.fs.openShared(link);
+ * for await (const item of shared.list('')) {
+ *   console.log(item.name);
+ * }
+ * const notes = await shared.get('notes/today.md');
+ *
+ * // Collaborators with write access
+ * const grant = await s5.fs.grantWriteAccess('home/projects/website');
+ * const project = await collaborator.fs.openShared(grant);
+ * await project.put('pages/about.md', '# About');
+ * ```
+ */
+
+import type { FS5 } from './fs5.js';
+import type {
+  DeleteOptions,
+  GetOptions,
+  ListOptions,
+  ListResult,
+  PutOptions,
+} from './dirv1/types.js';
+
+/**
+ * Read access to a shared directory tree, plus writes for writable links
+ */
+export class SharedDirectory {
+  /**
+   * @param fs5 - FS5 view rooted at the shared directory
+   * @param uri - The share link the view was opened from
+   * @param writable - Whether the link carries a write key
+   */
+  constructor(
+    private readonly fs5: FS5,
+    readonly uri: string,
+    readonly writable: boolean
+  ) {}
+
+  /**
+   * Get data at a path in the shared tree
+   *
+   * @param path - Path relative to the shared directory (e.g., "notes/today.md")
+   * @returns The decoded data or undefined if not found
+   */
+  async get(path: string, options?: GetOptions): Promise<any | undefined> {
+    return this.fs5.get(path, options);
+  }
+
+  /**
+   * Get the raw bytes of a file in the shared tree
+   *
+   * @param path - Path relative to the shared directory
+   * @returns The file contents or undefined if not found
+   */
+  async getBytes(path: string): Promise<Uint8Array | undefined> {
+    return this.fs5.getBytes(path);
+  }
+
+  /**
+   * Get a file in the shared tree as text
+   *
+   * @param path - Path relative to the shared directory
+   * @returns The file contents or undefined if not found
+   */
+  async getText(path: string): Promise<string | undefined> {
+    return this.fs5.getText(path);
+  }
+
+  /**
+   * Get metadata of a file or directory in the shared tree
+   *
+   * @param path - Path relative to the shared directory, "" for the shared directory itself
+   * @returns Metadata or undefined if not found
+   */
+  async getMetadata(path: string): Promise<Record<string, any> | undefined> {
+    return this.fs5.getMetadata(path);
+  }
+
+  /**
+   * List a directory in the shared tree
+   *
+   * @param path - Path relative to the shared directory, "" for the shared directory itself
+   * @param options - Same options as `FS5.list()`
+   * @returns Async iterator of directory entries
+   */
+  list(path: string, options?: ListOptions): AsyncIterableIterator<ListResult> {
+    return this.fs5.list(path, options);
+  }
+
+  /**
+   * Store data at a path in the shared tree
+   *
+   * @param path - Path relative to the shared directory
+   * @param data - Data to store, encoded like `FS5.put()`
+   * @throws Error if the share link is read-only
+   */
+  async put(path: string, data: any, options?: PutOptions): Promise<void> {
+    this.assertWritable();
+    return this.fs5.put(path, data, options);
+  }
+
+  /**
+   * Delete a file or empty directory in the shared tree. There is no trash in
+   * a shared view, so this always deletes permanently.
+   *
+   * @param path - Path relative to the shared directory
+   * @returns true if deleted, false if not found
+   * @throws Error if the share link is read-only
+   */
+  async delete(path: string, options?: DeleteOptions): Promise<boolean> {
+    this.assertWritable();
+    return this.fs5.delete(path, { ...options, soft: false });
+  }
+
+  /**
+   * Create a subdirectory in the shared tree
+   *
+   * @param path - Parent directory relative to the shared directory, "" for the shared directory itself
+   * @param name - Name of the new directory
+   * @throws Error if the share link is read-only
+   */
+  async createDirectory(path: string, name: string): Promise<void> {
+    this.assertWritable();
+    await this.fs5.createDirectory(path, name);
+  }
+
+  /**
+   * Move a file or directory within the shared tree
+   *
+   * @param sourcePath - Current path relative to the shared directory
+   * @param destPath - New path relative to the shared directory
+   * @throws Error if the share link is read-only
+   */
+  async move(sourcePath: string, destPath: string): Promise<void> {
+    this.assertWritable();
+    return this.fs5.move(sourcePath, destPath);
+  }
+
+  /**
+   * Rename a file or directory within its parent directory
+   *
+   * @param path - Path relative to the shared directory
+   * @param newName - New name (must not contain "/")
+   * @throws Error if the share link is read-only
+   */
+  async rename(path: string, newName: string): Promise<void> {
+    this.assertWritable();
+    return this.fs5.rename(path, newName);
+  }
+
+  private assertWritable(): void {
+    if (!this.writable) {
+      throw new Error('Share link is read-only');
+    }
+  }
+}
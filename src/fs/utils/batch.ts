@@ -18,6 +18,8 @@ export interface BatchOptions {
   cursor?: string;
   /** Whether to preserve metadata (timestamps, etc) */
   preserveMetadata?: boolean;
+  /** Move deleted directories to the trash in one step (default: the FS5 softDelete setting) */
+  soft?: boolean;
 }
 
 /**
@@ -201,11 +203,24 @@ export class BatchOperations {
       recursive = true, 
       onProgress, 
       onError = "stop",
-      cursor
+      cursor,
+      soft = this.fs.softDelete
     } = options;
 
     try {
-      if (recursive) {
+      if (recursive && soft) {
+        // The whole tree moves to the trash at once, so it can be restored as a unit
+        await this.fs.delete(path, { soft: true });
+        state.success++;
+
+        if (onProgress) {
+          onProgress({
+            operation: "delete",
+            processed: 1,
+            currentPath: path
+          });
+        }
+      } else if (recursive) {
         // First, collect all paths to delete (bottom-up order)
         const pathsToDelete: Array<{ path: string; isDir: boolean }> = [];
         
@@ -234,7 +249,7 @@ export class BatchOperations {
         // Delete all collected paths
         for (const { path: entryPath, isDir } of pathsToDelete) {
           try {
-            await this.fs.delete(entryPath);
+            await this.fs.delete(entryPath, { soft: false });
             state.success++;
 
             if (onProgress) {
@@ -264,7 +279,7 @@ export class BatchOperations {
 
         // Finally, delete the directory itself
         try {
-          await this.fs.delete(path);
+          await this.fs.delete(path, { soft: false });
           state.success++;
         } catch (error) {
           state.failed++;
@@ -287,7 +302,7 @@ export class BatchOperations {
           throw new Error(`Directory ${path} is not empty`);
         }
 
-        await this.fs.delete(path);
+        await this.fs.delete(path, { soft });
         state.success++;
 
         if (onProgress) {
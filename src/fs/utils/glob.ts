@@ -0,0 +1,64 @@
+/**
+ * Convert a glob pattern to a regular expression matching "/" separated paths.
+ *
+ * Supported syntax:
+ * - `*` matches any characters except "/"
+ * - `**` matches any number of path segments, `**` followed by "/" also matches none
+ * - `?` matches a single character except "/"
+ * - `[abc]`, `[a-z]` and `[!abc]` match a character class
+ * - `{jpg,png}` matches one of the alternatives
+ *
+ * @param pattern Glob pattern (e.g., "**\/*.jpg")
+ * @returns Regular expression anchored to the whole path
+ */
+export function globToRegExp(pattern: string): RegExp {
+  let source = "";
+  let braceDepth = 0;
+
+  for (let i = 0; i < pattern.length; i++) {
+    const char = pattern[i];
+
+    if (char === "*") {
+      if (pattern[i + 1] === "*") {
+        if (pattern[i + 2] === "/") {
+          source += "(?:.*/)?";
+          i += 2;
+        } else {
+          source += ".*";
+          i += 1;
+        }
+      } else {
+        source += "[^/]*";
+      }
+    } else if (char === "?") {
+      source += "[^/]";
+    } else if (char === "[") {
+      const end = pattern.indexOf("]", i + 1);
+      if (end === -1) {
+        source += "\\[";
+        continue;
+      }
+      let charClass = pattern.slice(i + 1, end).replace(/\\/g, "\\\\");
+      if (charClass.startsWith("!")) {
+        charClass = "^" + charClass.slice(1);
+      }
+      source += `[${charClass}]`;
+      i = end;
+    } else if (char === "{") {
+      braceDepth++;
+      source += "(?:";
+    } else if (char === "}" && braceDepth > 0) {
+      braceDepth--;
+      source += ")";
+    } else if (char === "," && braceDepth > 0) {
+      source += "|";
+    } else {
+      source += char.replace(/[.+^${}()|\\\]]/g, "\\$&");
+    }
+  }
+
+  if (braceDepth > 0) {
+    throw new Error(`Invalid glob pattern: ${pattern}`);
+  }
+  return new RegExp(`^${source}$`);
+}
@@ -18,6 +18,7 @@ import { concatBytes } from "@noble/hashes/utils";
 import { dbg, dbgError, debug } from "../util/debug.js";
 
 const portalUploadEndpoint = 'upload';
+const portalPinEndpoint = 'pin';
 
 const hiddenStorageServiceAccountsPath = 'accounts.json';
 
@@ -30,6 +31,9 @@ interface BlobCacheEntry {
 // Blob cache TTL: 5 minutes - blobs are immutable so cache is safe
 const BLOB_CACHE_TTL_MS = 300000;
 
+// Number of blob hashes remembered as stored for the account, the oldest are dropped first
+const KNOWN_BLOBS_MAX = 10000;
+
 export class S5APIWithIdentity implements S5APIInterface {
     private readonly node: S5Node;
     private readonly identity: S5UserIdentity;
@@ -46,6 +50,10 @@ export class S5APIWithIdentity implements S5APIInterface {
     // Prevents 404s when P2P network hasn't propagated new blob URLs yet
     private blobCache: Map<string, BlobCacheEntry> = new Map();
 
+    // Hashes of blobs a portal is known to store for this account, in the order
+    // they were last used, uploading them again is skipped
+    private knownBlobs: Set<string> = new Set();
+
     constructor(node: S5Node, identity: S5UserIdentity, authStore: KeyValueStore) {
         this.node = node;
         this.identity = identity;
@@ -82,6 +90,18 @@ export class S5APIWithIdentity implements S5APIInterface {
         }
     }
 
+    /**
+     * Remember a blob as stored for this account, dropping the least recently
+     * used hashes beyond KNOWN_BLOBS_MAX
+     */
+    private rememberKnownBlob(hashKey: string): void {
+        this.knownBlobs.delete(hashKey);
+        this.knownBlobs.add(hashKey);
+        if (this.knownBlobs.size > KNOWN_BLOBS_MAX) {
+            this.knownBlobs.delete(this.knownBlobs.values().next().value!);
+        }
+    }
+
     /**
      * Remove expired entries from the blob cache
      */
@@ -402,6 +422,20 @@ export class S5APIWithIdentity implements S5APIInterface {
         }
         const blake3Hash = await this.crypto.hashBlake3Blob(blob);
         const expectedBlobIdentifier = new BlobIdentifier(concatBytes(new Uint8Array([MULTIHASH_BLAKE3]), blake3Hash), blob.size);
+        const hashKey = base64UrlNoPaddingEncode(expectedBlobIdentifier.hash);
+
+        // Blobs are content-addressed, one that is already stored has the same identifier
+        if (this.knownBlobs.has(hashKey)) {
+            debug.upload(' Portal: Skipping upload of known blob', {
+                hash: expectedBlobIdentifier.toHex().slice(0, 16) + '...'
+            });
+            this.rememberKnownBlob(hashKey);
+            return expectedBlobIdentifier;
+        }
+        if (await this.pinExistingBlob(expectedBlobIdentifier)) {
+            this.rememberKnownBlob(hashKey);
+            return expectedBlobIdentifier;
+        }
 
         const portals = Object.values(this.accountConfigs);
         debug.upload(' Portal: Starting upload', {
@@ -450,8 +484,8 @@ export class S5APIWithIdentity implements S5APIInterface {
 
                 // CRITICAL: Cache the blob content for immediate read-your-writes consistency
                 // This prevents 404s when P2P network hasn't propagated the new blob yet
-                const hashKey = base64UrlNoPaddingEncode(expectedBlobIdentifier.hash);
                 this.setBlobInCache(hashKey, blobBytes);
+                this.rememberKnownBlob(hashKey);
 
                 debug.upload(' Portal: Upload successful', {
                     portal: portal.host,
@@ -473,6 +507,128 @@ export class S5APIWithIdentity implements S5APIInterface {
         throw new Error("Failed to upload blob with 3 tries for each available portal");
     }
 
+    /**
+     * Check whether a portal already serves a blob, with a HEAD request to its
+     * download URL, and pin it for this account there. Being downloadable alone
+     * doesn't keep the blob stored, whoever pinned it may unpin it. Only a
+     * successful pin counts, errors let the upload go ahead.
+     */
+    private async pinExistingBlob(bid: BlobIdentifier): Promise<boolean> {
+        const { fetch } = await this.getHttpClient();
+        const cid = bid.toBase58();
+        for (const portal of Object.values(this.accountConfigs)) {
+            try {
+                const res = await fetch(portal.apiURL(`blob/${cid}`), {
+                    method: 'HEAD',
+                    headers: portal.headers,
+                });
+                if (!res.ok) {
+                    continue;
+                }
+                const pinRes = await fetch(portal.apiURL(`${portalPinEndpoint}/${cid}`), {
+                    method: 'POST',
+                    headers: portal.headers,
+                });
+                if (pinRes.ok) {
+                    debug.upload(' Portal: Blob already stored, pinned instead of uploading', {
+                        portal: portal.host,
+                        hash: bid.toHex().slice(0, 16) + '...'
+                    });
+                    return true;
+                }
+                debug.upload(' Portal: Pinning existing blob failed', {
+                    portal: portal.host,
+                    status: pinRes.status
+                });
+            } catch (e) {
+                debug.upload(' Portal: Blob exists check failed', {
+                    portal: portal.host,
+                    error: (e as Error).message?.slice(0, 100) || String(e).slice(0, 100)
+                });
+            }
+        }
+        return false;
+    }
+
+    async uploadBlobStream(stream: ReadableStream<Uint8Array>): Promise<BlobIdentifier> {
+        const portals = Object.values(this.accountConfigs);
+        if (portals.length == 0) {
+            throw new Error("No portals available for upload");
+        }
+        // The stream can only be consumed once, so only the first portal is tried
+        const portal = portals[0];
+
+        const hasher = this.crypto.newHasherBlake3();
+        let size = 0;
+
+        // Build the multipart/form-data body by hand so the file part can be streamed
+        const boundary = `----s5js${base64UrlNoPaddingEncode(this.crypto.generateSecureRandomBytes(12))}`;
+        const head = utf8ToBytes(
+            `--${boundary}\r\n` +
+            `Content-Disposition: form-data; name="file"; filename="file"\r\n` +
+            `Content-Type: application/octet-stream\r\n\r\n`
+        );
+        const tail = utf8ToBytes(`\r\n--${boundary}--\r\n`);
+        const reader = stream.getReader();
+        const body = new ReadableStream<Uint8Array>({
+            start(controller) {
+                controller.enqueue(head);
+            },
+            async pull(controller) {
+                const { done, value } = await reader.read();
+                if (done) {
+                    controller.enqueue(tail);
+                    controller.close();
+                    return;
+                }
+                hasher.update(value);
+                size += value.length;
+                controller.enqueue(value);
+            },
+            cancel(reason) {
+                return reader.cancel(reason);
+            },
+        });
+
+        debug.upload(' Portal: Starting streaming upload', {
+            portal: portal.host,
+        });
+
+        const { fetch } = await this.getHttpClient();
+        const authHeader = portal.headers['Authorization'] || portal.headers['authorization'] || '';
+        const res = await fetch(portal.apiURL(portalUploadEndpoint), {
+            method: 'POST',
+            headers: {
+                'Authorization': authHeader,
+                'Content-Type': `multipart/form-data; boundary=${boundary}`,
+            },
+            body: body,
+            duplex: 'half',
+        });
+        if (!res.ok) {
+            const errorText = await res.text();
+            throw new Error(`HTTP ${res.status}: ${errorText}`);
+        }
+        const responseData = await res.json() as any;
+        const expectedBlobIdentifier = new BlobIdentifier(
+            concatBytes(new Uint8Array([MULTIHASH_BLAKE3]), hasher.digest()),
+            size,
+        );
+        const bid = BlobIdentifier.decode(responseData.cid);
+        if (bid.toHex() !== expectedBlobIdentifier.toHex()) {
+            throw new Error(`Integrity check for blob upload to ${portal.host} failed (got ${bid}, expected ${expectedBlobIdentifier})`);
+        }
+        this.rememberKnownBlob(base64UrlNoPaddingEncode(expectedBlobIdentifier.hash));
+
+        debug.upload(' Portal: Streaming upload successful', {
+            portal: portal.host,
+            size: size,
+            verified: true,
+            hash: bid.toHex().slice(0, 16) + '...'
+        });
+        return expectedBlobIdentifier;
+    }
+
     pinHash(hash: Uint8Array): Promise<void> {
         throw new Error("Method not implemented.");
     }
@@ -567,6 +723,62 @@ export class S5APIWithIdentity implements S5APIInterface {
         }
     }
 
+    async downloadBlobRange(hash: Uint8Array, offset: number, length: number): Promise<Uint8Array> {
+        const hashKey = base64UrlNoPaddingEncode(hash);
+        const cached = this.getBlobFromCache(hashKey);
+        if (cached) {
+            return cached.slice(offset, offset + length);
+        }
+
+        try {
+            return await this.node.downloadBlobRange(hash, offset, length);
+        } catch (p2pError) {
+            const portals = Object.values(this.accountConfigs);
+            if (portals.length === 0) {
+                throw p2pError;
+            }
+
+            const cid = new BlobIdentifier(hash, 0).toBase58();
+            for (const portal of portals) {
+                const downloadUrl = `${portal.protocol}://${portal.host}/s5/blob/${cid}`;
+                try {
+                    const { fetch } = await this.getHttpClient();
+                    const res = await fetch(downloadUrl, {
+                        headers: {
+                            ...portal.headers,
+                            'Range': `bytes=${offset}-${offset + length - 1}`,
+                        }
+                    });
+                    if (res.status === 206) {
+                        const bytes = new Uint8Array(await res.arrayBuffer());
+                        if (bytes.length === length) {
+                            return bytes;
+                        }
+                    } else if (res.ok) {
+                        // Portal ignored the Range header, verify and slice the full blob
+                        const bytes = new Uint8Array(await res.arrayBuffer());
+                        const downloadedHash = await this.crypto.hashBlake3(bytes);
+                        if (areArraysEqual(downloadedHash, hash.subarray(1))) {
+                            this.setBlobInCache(hashKey, bytes);
+                            return bytes.slice(offset, offset + length);
+                        }
+                    }
+                    debug.download(' Portal range fallback failed', {
+                        portal: portal.host,
+                        status: res.status
+                    });
+                } catch (portalError) {
+                    debug.download(' Portal range fallback error', {
+                        portal: portal.host,
+                        error: ((portalError as Error).message || '').slice(0, 50)
+                    });
+                }
+            }
+
+            throw p2pError;
+        }
+    }
+
     /**
      * Download content by CID from S5 network
      *
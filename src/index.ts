@@ -1,6 +1,9 @@
 // Main entry point for S5.js library
 export { S5 } from './s5.js';
 export { FS5 } from './fs/fs5.js';
+export { SharedDirectory } from './fs/shared-directory.js';
+export { PublicFS5 } from './fs/public-fs5.js';
+export { PreconditionFailedError } from './fs/errors.js';
 export { S5UserIdentity } from './identity/identity.js';
 export { S5Node } from './node/node.js';
 export { S5APIInterface } from './api/s5.js';
@@ -41,7 +44,26 @@ export type {
   GetOptions,
   ListOptions,
   ListResult,
-  CursorData
+  ListSortBy,
+  CursorData,
+  VersionInfo,
+  DeleteOptions,
+  DirectoryTransaction,
+  FindQuery,
+  FindResult,
+  DiffEntry,
+  DiskUsage,
+  DiskUsageOptions,
+  DiskUsageTotals,
+  FS5Options,
+  TrashEntry,
+  EmptyTrashOptions,
+  ShareLinkOptions,
+  RotateKeysOptions,
+  DirectoryPolicy,
+  FileEncoding,
+  WatchEvent,
+  WatchOptions
 } from './fs/dirv1/types.js';
 
 // Export FS5 media integration types
@@ -91,12 +91,105 @@ export class S5Node implements S5APIInterface {
             await new Promise(resolve => setTimeout(resolve, 10));
         }
     }
+    async downloadBlobRange(hash: Uint8Array, offset: number, length: number, timeoutMs: number = 10000): Promise<Uint8Array> {
+        if (length <= 0) {
+            return new Uint8Array(0);
+        }
+        const locationHash = new Uint8Array([0x1f, ...hash.subarray(1)]);
+        this.p2p.sendHashRequest(locationHash, [3, 5]);
+        const hashStr = base64UrlNoPaddingEncode(locationHash);
+        const rangeHeader = `bytes=${offset}-${offset + length - 1}`;
+
+        debug.download('Range download requested %O', {
+            hash: hashStr.slice(0, 16) + '...',
+            range: rangeHeader
+        });
+
+        const startTime = Date.now();
+        let urlsAlreadyTried: Set<string> = new Set([]);
+        let lastError: string | null = null;
+
+        while (true) {
+            if (Date.now() - startTime > timeoutMs) {
+                throw new Error(`Blob not found: ${lastError || 'timeout'} (hash: ${hashStr.slice(0, 16)}...)`);
+            }
+
+            for (const location of this.p2p.blobLocations.get(hashStr) ?? []) {
+                const url = location.parts[0];
+                if (!urlsAlreadyTried.has(url)) {
+                    urlsAlreadyTried.add(url);
+                    try {
+                        const res = await fetch(url, { headers: { 'Range': rangeHeader } });
+                        if (res.status === 404) {
+                            lastError = '404 not found';
+                            continue;
+                        }
+                        if (res.status === 206) {
+                            const bytes = new Uint8Array(await res.arrayBuffer());
+                            if (bytes.length === length) {
+                                return bytes;
+                            }
+                            lastError = `unexpected range length ${bytes.length}`;
+                        } else if (res.status >= 200 && res.status < 300) {
+                            // Server ignored the Range header and sent the full blob
+                            const bytes = new Uint8Array(await res.arrayBuffer());
+                            const bytesHash = await this.crypto.hashBlake3(bytes);
+                            if (areArraysEqual(bytesHash, hash.subarray(1))) {
+                                return bytes.slice(offset, offset + length);
+                            }
+                        }
+                    } catch (e) {
+                        console.debug('downloadBlobRange', hash, e);
+                    }
+                }
+            }
+            await new Promise(resolve => setTimeout(resolve, 10));
+        }
+    }
     registryGet(pk: Uint8Array): Promise<RegistryEntry | undefined> {
         return this.registry.get(pk);
     }
 
-    registryListen(pk: Uint8Array): AsyncIterator<RegistryEntry> {
-        throw new Error("Method not implemented.");
+    /// Yields every registry entry accepted for `pk` from now on, until return() is called
+    registryListen(pk: Uint8Array): AsyncIterableIterator<RegistryEntry> {
+        const queue: RegistryEntry[] = [];
+        let pending: ((result: IteratorResult<RegistryEntry>) => void) | undefined;
+        let closed = false;
+
+        const subscription = this.registry.listen(pk).subscribe((entry) => {
+            if (pending !== undefined) {
+                const resolve = pending;
+                pending = undefined;
+                resolve({ value: entry, done: false });
+            } else {
+                queue.push(entry);
+            }
+        });
+
+        return {
+            next(): Promise<IteratorResult<RegistryEntry>> {
+                if (queue.length > 0) {
+                    return Promise.resolve({ value: queue.shift()!, done: false });
+                }
+                if (closed) {
+                    return Promise.resolve({ value: undefined, done: true });
+                }
+                return new Promise((resolve) => pending = resolve);
+            },
+            async return(): Promise<IteratorResult<RegistryEntry>> {
+                closed = true;
+                queue.length = 0;
+                subscription.unsubscribe();
+                if (pending !== undefined) {
+                    pending({ value: undefined, done: true });
+                    pending = undefined;
+                }
+                return { value: undefined, done: true };
+            },
+            [Symbol.asyncIterator]() {
+                return this;
+            },
+        };
     }
     registrySet(entry: RegistryEntry): Promise<void> {
         return this.registry.put(entry, true);
@@ -104,6 +197,9 @@ export class S5Node implements S5APIInterface {
     uploadBlob(blob: Blob): Promise<BlobIdentifier> {
         throw new Error("Method not implemented.");
     }
+    uploadBlobStream(stream: ReadableStream<Uint8Array>): Promise<BlobIdentifier> {
+        throw new Error("Method not implemented.");
+    }
     pinHash(hash: Uint8Array): Promise<void> {
         throw new Error("Method not implemented.");
     }
@@ -0,0 +1,271 @@
+/// BLAKE3 verified streaming with Bao outboards
+///
+/// A Bao outboard holds the interior nodes of a blob's BLAKE3 hash tree apart
+/// from the blob itself, so every part of the blob can be checked against its
+/// BLAKE3 hash as it arrives instead of only after the whole blob is downloaded.
+/// Only nodes above chunk groups of 256 KiB are kept (64 bytes per group).
+///
+/// Layout: the blob size as 8 byte little-endian integer, followed by the
+/// (left, right) chaining value pairs of all parent nodes in pre-order
+
+import { decodeLittleEndian } from "./little_endian.js";
+
+/// Size of the pieces a blob is verified in, blobs up to this size have an empty outboard
+export const BAO_CHUNK_GROUP_SIZE = 262144;
+
+const CHUNK_LEN = 1024;
+const BLOCK_LEN = 64;
+const CHUNKS_PER_GROUP = BAO_CHUNK_GROUP_SIZE / CHUNK_LEN;
+
+const CHUNK_START = 1;
+const CHUNK_END = 2;
+const PARENT = 4;
+const ROOT = 8;
+
+const IV = new Uint32Array([
+    0x6a09e667, 0xbb67ae85, 0x3c6ef372, 0xa54ff53a,
+    0x510e527f, 0x9b05688c, 0x1f83d9ab, 0x5be0cd19,
+]);
+
+const MSG_PERMUTATION = [2, 6, 3, 10, 7, 0, 4, 13, 1, 11, 12, 5, 9, 14, 15, 8];
+
+// Message word order for each of the 7 rounds
+const MSG_SCHEDULE: number[][] = [[0, 1, 2, 3, 4, 5, 6, 7, 8, 9, 10, 11, 12, 13, 14, 15]];
+for (let round = 1; round < 7; round++) {
+    MSG_SCHEDULE.push(MSG_PERMUTATION.map((i) => MSG_SCHEDULE[round - 1][i]));
+}
+
+function rotr(x: number, n: number): number {
+    return (x >>> n) | (x << (32 - n));
+}
+
+function g(v: Uint32Array, a: number, b: number, c: number, d: number, x: number, y: number): void {
+    v[a] = v[a] + v[b] + x;
+    v[d] = rotr(v[d] ^ v[a], 16);
+    v[c] = v[c] + v[d];
+    v[b] = rotr(v[b] ^ v[c], 12);
+    v[a] = v[a] + v[b] + y;
+    v[d] = rotr(v[d] ^ v[a], 8);
+    v[c] = v[c] + v[d];
+    v[b] = rotr(v[b] ^ v[c], 7);
+}
+
+/// The BLAKE3 compression function, truncated to the 8 word chaining value
+function compress(cv: Uint32Array, m: Uint32Array, counter: number, blockLen: number, flags: number): Uint32Array {
+    const v = new Uint32Array(16);
+    v.set(cv);
+    v.set(IV.subarray(0, 4), 8);
+    v[12] = counter;
+    v[13] = Math.floor(counter / 0x100000000);
+    v[14] = blockLen;
+    v[15] = flags;
+    for (const s of MSG_SCHEDULE) {
+        g(v, 0, 4, 8, 12, m[s[0]], m[s[1]]);
+        g(v, 1, 5, 9, 13, m[s[2]], m[s[3]]);
+        g(v, 2, 6, 10, 14, m[s[4]], m[s[5]]);
+        g(v, 3, 7, 11, 15, m[s[6]], m[s[7]]);
+        g(v, 0, 5, 10, 15, m[s[8]], m[s[9]]);
+        g(v, 1, 6, 11, 12, m[s[10]], m[s[11]]);
+        g(v, 2, 7, 8, 13, m[s[12]], m[s[13]]);
+        g(v, 3, 4, 9, 14, m[s[14]], m[s[15]]);
+    }
+    const out = new Uint32Array(8);
+    for (let i = 0; i < 8; i++) {
+        out[i] = v[i] ^ v[i + 8];
+    }
+    return out;
+}
+
+function bytesToWords(bytes: Uint8Array, words: number): Uint32Array {
+    const padded = new Uint8Array(words * 4);
+    padded.set(bytes);
+    const view = new DataView(padded.buffer);
+    const out = new Uint32Array(words);
+    for (let i = 0; i < words; i++) {
+        out[i] = view.getUint32(i * 4, true);
+    }
+    return out;
+}
+
+function wordsToBytes(words: Uint32Array): Uint8Array {
+    const out = new Uint8Array(words.length * 4);
+    const view = new DataView(out.buffer);
+    words.forEach((word, i) => view.setUint32(i * 4, word, true));
+    return out;
+}
+
+function wordsEqual(a: Uint32Array, b: Uint32Array): boolean {
+    return a.length === b.length && a.every((word, i) => word === b[i]);
+}
+
+function chunkCV(chunk: Uint8Array, chunkCounter: number, root: boolean): Uint32Array {
+    let cv: Uint32Array = IV;
+    const blocks = Math.max(1, Math.ceil(chunk.length / BLOCK_LEN));
+    for (let i = 0; i < blocks; i++) {
+        const block = chunk.subarray(i * BLOCK_LEN, (i + 1) * BLOCK_LEN);
+        let flags = i === 0 ? CHUNK_START : 0;
+        if (i === blocks - 1) {
+            flags |= CHUNK_END | (root ? ROOT : 0);
+        }
+        cv = compress(cv, bytesToWords(block, 16), chunkCounter, block.length, flags);
+    }
+    return cv;
+}
+
+function parentCV(left: Uint32Array, right: Uint32Array, root: boolean): Uint32Array {
+    const block = new Uint32Array(16);
+    block.set(left);
+    block.set(right, 8);
+    return compress(IV, block, 0, BLOCK_LEN, PARENT | (root ? ROOT : 0));
+}
+
+/// Largest power of two below `count`, the size of the left subtree over `count` leaves
+function leftSubtreeSize(count: number): number {
+    let size = 1;
+    while (size * 2 < count) {
+        size *= 2;
+    }
+    return size;
+}
+
+/// Chaining value of the subtree over `data`, which starts at chunk `startChunk` of the blob
+function subtreeCV(data: Uint8Array, startChunk: number, root: boolean): Uint32Array {
+    const chunks = Math.max(1, Math.ceil(data.length / CHUNK_LEN));
+    if (chunks === 1) {
+        return chunkCV(data, startChunk, root);
+    }
+    const leftChunks = leftSubtreeSize(chunks);
+    return parentCV(
+        subtreeCV(data.subarray(0, leftChunks * CHUNK_LEN), startChunk, false),
+        subtreeCV(data.subarray(leftChunks * CHUNK_LEN), startChunk + leftChunks, false),
+        root,
+    );
+}
+
+function groupCount(size: number): number {
+    return Math.max(1, Math.ceil(size / BAO_CHUNK_GROUP_SIZE));
+}
+
+/// Builds the outboard of a blob from its bytes, which can be passed in pieces of any size
+export class BaoOutboardBuilder {
+    private readonly groupCVs: Uint32Array[] = [];
+    private buffer = new Uint8Array(BAO_CHUNK_GROUP_SIZE);
+    private filled = 0;
+    private size = 0;
+
+    update(data: Uint8Array): void {
+        let offset = 0;
+        while (offset < data.length) {
+            const n = Math.min(BAO_CHUNK_GROUP_SIZE - this.filled, data.length - offset);
+            this.buffer.set(data.subarray(offset, offset + n), this.filled);
+            this.filled += n;
+            offset += n;
+            if (this.filled === BAO_CHUNK_GROUP_SIZE) {
+                this.groupCVs.push(subtreeCV(this.buffer, this.groupCVs.length * CHUNKS_PER_GROUP, false));
+                this.filled = 0;
+            }
+        }
+        this.size += data.length;
+    }
+
+    finish(): Uint8Array {
+        if (this.filled > 0) {
+            this.groupCVs.push(
+                subtreeCV(this.buffer.subarray(0, this.filled), this.groupCVs.length * CHUNKS_PER_GROUP, false),
+            );
+        }
+        const pairs: Uint32Array[] = [];
+        const writeTree = (cvs: Uint32Array[], root: boolean): Uint32Array => {
+            if (cvs.length === 1) {
+                return cvs[0];
+            }
+            // Pre-order: the pair is stored before the nodes of both subtrees
+            const index = pairs.length;
+            pairs.push(new Uint32Array(16));
+            const split = leftSubtreeSize(cvs.length);
+            const left = writeTree(cvs.slice(0, split), false);
+            const right = writeTree(cvs.slice(split), false);
+            pairs[index].set(left);
+            pairs[index].set(right, 8);
+            return parentCV(left, right, root);
+        };
+        if (this.groupCVs.length > 1) {
+            writeTree(this.groupCVs, true);
+        }
+
+        const outboard = new Uint8Array(8 + pairs.length * 64);
+        const view = new DataView(outboard.buffer);
+        view.setUint32(0, this.size % 0x100000000, true);
+        view.setUint32(4, Math.floor(this.size / 0x100000000), true);
+        pairs.forEach((pair, i) => outboard.set(wordsToBytes(pair), 8 + i * 64));
+        return outboard;
+    }
+}
+
+/// Builds the outboard of a blob held in memory
+export function createBaoOutboard(data: Uint8Array): Uint8Array {
+    const builder = new BaoOutboardBuilder();
+    builder.update(data);
+    return builder.finish();
+}
+
+/// Checks chunk groups of a blob against its BLAKE3 hash
+///
+/// The outboard is verified against the hash when the verifier is created,
+/// so a tampered outboard is rejected before any blob data is read
+export class BaoVerifier {
+    /// Size of the blob in bytes
+    readonly size: number;
+    /// Number of chunk groups, groups are BAO_CHUNK_GROUP_SIZE bytes except the last one
+    readonly groups: number;
+    private readonly groupCVs: Uint32Array[] = [];
+
+    constructor(hash: Uint8Array, outboard: Uint8Array) {
+        if (hash.length !== 32 || outboard.length < 8) {
+            throw new Error("Invalid Bao outboard");
+        }
+        this.size = decodeLittleEndian(outboard.subarray(0, 8));
+        this.groups = groupCount(this.size);
+        if (outboard.length !== 8 + (this.groups - 1) * 64) {
+            throw new Error("Invalid Bao outboard");
+        }
+
+        let pairIndex = 0;
+        const readTree = (expected: Uint32Array, count: number, root: boolean) => {
+            if (count === 1) {
+                this.groupCVs.push(expected);
+                return;
+            }
+            const pair = bytesToWords(outboard.subarray(8 + pairIndex * 64, 8 + (pairIndex + 1) * 64), 16);
+            pairIndex++;
+            const left = pair.subarray(0, 8);
+            const right = pair.subarray(8, 16);
+            if (!wordsEqual(parentCV(left, right, root), expected)) {
+                throw new Error("Bao outboard does not match the blob hash");
+            }
+            const split = leftSubtreeSize(count);
+            readTree(left, split, false);
+            readTree(right, count - split, false);
+        };
+        readTree(bytesToWords(hash, 8), this.groups, true);
+    }
+
+    /// Byte range of a chunk group in the blob
+    groupRange(index: number): { start: number; end: number } {
+        const start = index * BAO_CHUNK_GROUP_SIZE;
+        return { start: start, end: Math.min(this.size, start + BAO_CHUNK_GROUP_SIZE) };
+    }
+
+    /// Throws if `data` is not the content of chunk group `index`
+    verifyGroup(index: number, data: Uint8Array): void {
+        const { start, end } = this.groupRange(index);
+        if (
+            index < 0 ||
+            index >= this.groups ||
+            data.length !== end - start ||
+            !wordsEqual(subtreeCV(data, index * CHUNKS_PER_GROUP, this.groups === 1), this.groupCVs[index])
+        ) {
+            throw new Error(`Bao verification failed for chunk group ${index}`);
+        }
+    }
+}
@@ -0,0 +1,37 @@
+/// Re-chunks a byte stream so every emitted chunk is exactly `chunkSize` bytes long,
+/// except for the last one which holds the remainder
+export function fixedSizeChunks(chunkSize: number): TransformStream<Uint8Array, Uint8Array> {
+    let buffer = new Uint8Array(chunkSize);
+    let filled = 0;
+    return new TransformStream<Uint8Array, Uint8Array>({
+        transform(chunk, controller) {
+            let offset = 0;
+            while (offset < chunk.length) {
+                const n = Math.min(chunkSize - filled, chunk.length - offset);
+                buffer.set(chunk.subarray(offset, offset + n), filled);
+                filled += n;
+                offset += n;
+                if (filled === chunkSize) {
+                    controller.enqueue(buffer);
+                    buffer = new Uint8Array(chunkSize);
+                    filled = 0;
+                }
+            }
+        },
+        flush(controller) {
+            if (filled > 0) {
+                controller.enqueue(buffer.slice(0, filled));
+            }
+        },
+    });
+}
+
+/// Passes chunks through unchanged, calling `observer` with each one on the way
+export function tapStream(observer: (chunk: Uint8Array) => void): TransformStream<Uint8Array, Uint8Array> {
+    return new TransformStream<Uint8Array, Uint8Array>({
+        transform(chunk, controller) {
+            observer(chunk);
+            controller.enqueue(chunk);
+        },
+    });
+}
@@ -0,0 +1,55 @@
+import { describe, test, expect, beforeEach, afterEach, vi } from "vitest";
+import { S5Node } from "../src/node/node.js";
+import { JSCryptoImplementation } from "../src/api/crypto/js.js";
+import { base64UrlNoPaddingEncode } from "../src/util/base64.js";
+
+describe("S5Node.downloadBlobRange", () => {
+  const crypto = new JSCryptoImplementation();
+  const data = new Uint8Array(1000).map((_, i) => i % 256);
+  let node: S5Node;
+  let hash: Uint8Array;
+  let fetchMock: ReturnType<typeof vi.fn>;
+
+  beforeEach(async () => {
+    hash = new Uint8Array([0x1e, ...(await crypto.hashBlake3(data))]);
+    node = new S5Node(crypto);
+    const locationKey = base64UrlNoPaddingEncode(new Uint8Array([0x1f, ...hash.subarray(1)]));
+    (node as any).p2p = {
+      sendHashRequest: () => {},
+      blobLocations: new Map([[locationKey, [{ parts: ["https://storage.example/blob"] }]]]),
+    };
+    fetchMock = vi.fn();
+    vi.stubGlobal("fetch", fetchMock);
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  test("sends a Range header and returns the partial content", async () => {
+    fetchMock.mockResolvedValue(new Response(data.slice(100, 150), { status: 206 }));
+
+    const result = await node.downloadBlobRange(hash, 100, 50);
+
+    expect(result).toEqual(data.slice(100, 150));
+    expect(fetchMock).toHaveBeenCalledWith("https://storage.example/blob", {
+      headers: { Range: "bytes=100-149" },
+    });
+  });
+
+  test("slices a verified full response when the server ignores Range", async () => {
+    fetchMock.mockResolvedValue(new Response(data, { status: 200 }));
+    expect(await node.downloadBlobRange(hash, 10, 5)).toEqual(data.slice(10, 15));
+  });
+
+  test("does not modify the caller's hash", async () => {
+    fetchMock.mockResolvedValue(new Response(data.slice(0, 10), { status: 206 }));
+    await node.downloadBlobRange(hash, 0, 10);
+    expect(hash[0]).toBe(0x1e);
+  });
+
+  test("times out when no location serves the range", async () => {
+    fetchMock.mockResolvedValue(new Response(null, { status: 404 }));
+    await expect(node.downloadBlobRange(hash, 0, 10, 100)).rejects.toThrow("Blob not found");
+  });
+});
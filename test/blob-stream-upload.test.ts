@@ -0,0 +1,76 @@
+import { describe, test, expect, beforeEach, vi } from "vitest";
+import { S5APIWithIdentity } from "../src/identity/api.js";
+import { S5Portal } from "../src/account/portal.js";
+import { JSCryptoImplementation } from "../src/api/crypto/js.js";
+import { BlobIdentifier } from "../src/identifier/blob.js";
+
+describe("S5APIWithIdentity.uploadBlobStream", () => {
+  const crypto = new JSCryptoImplementation();
+  const data = new Uint8Array(5000).map((_, i) => i % 256);
+  let api: S5APIWithIdentity;
+  let fetchMock: ReturnType<typeof vi.fn>;
+
+  beforeEach(() => {
+    api = new S5APIWithIdentity(
+      { crypto } as any,
+      { hiddenDBKey: new Uint8Array(32) } as any,
+      {} as any,
+    );
+    (api as any).accountConfigs = {
+      "portal.example": new S5Portal("https", "portal.example", { Authorization: "Bearer token" }),
+    };
+    fetchMock = vi.fn();
+    (api as any).httpClientCache = { fetch: fetchMock, FormData: undefined };
+  });
+
+  function streamOf(bytes: Uint8Array, pieceSize: number): ReadableStream<Uint8Array> {
+    let offset = 0;
+    return new ReadableStream({
+      pull(controller) {
+        if (offset >= bytes.length) return controller.close();
+        controller.enqueue(bytes.slice(offset, offset + pieceSize));
+        offset += pieceSize;
+      },
+    });
+  }
+
+  async function expectedIdentifier(): Promise<BlobIdentifier> {
+    return new BlobIdentifier(new Uint8Array([0x1e, ...(await crypto.hashBlake3(data))]), data.length);
+  }
+
+  test("streams a multipart body and returns the verified blob identifier", async () => {
+    const expected = await expectedIdentifier();
+    let sentBody = "";
+    fetchMock.mockImplementation(async (url: string, init: any) => {
+      sentBody = Buffer.from(await new Response(init.body).arrayBuffer()).toString("latin1");
+      return new Response(JSON.stringify({ cid: expected.toBase58() }), { status: 200 });
+    });
+
+    const result = await api.uploadBlobStream(streamOf(data, 1200));
+
+    expect(result.toHex()).toBe(expected.toHex());
+    const [url, init] = fetchMock.mock.calls[0];
+    expect(url).toBe("https://portal.example/s5/upload");
+    expect(init.duplex).toBe("half");
+    expect(init.headers.Authorization).toBe("Bearer token");
+    const boundary = init.headers["Content-Type"].split("boundary=")[1];
+    expect(sentBody.startsWith(`--${boundary}\r\n`)).toBe(true);
+    expect(sentBody.endsWith(`\r\n--${boundary}--\r\n`)).toBe(true);
+    expect(sentBody).toContain(Buffer.from(data).toString("latin1"));
+  });
+
+  test("rejects when the portal reports a different hash", async () => {
+    const other = new BlobIdentifier(new Uint8Array([0x1e, ...new Uint8Array(32)]), data.length);
+    fetchMock.mockImplementation(async (url: string, init: any) => {
+      await new Response(init.body).arrayBuffer();
+      return new Response(JSON.stringify({ cid: other.toBase58() }), { status: 200 });
+    });
+
+    await expect(api.uploadBlobStream(streamOf(data, 1000))).rejects.toThrow("Integrity check");
+  });
+
+  test("surfaces HTTP errors", async () => {
+    fetchMock.mockResolvedValue(new Response("quota exceeded", { status: 402 }));
+    await expect(api.uploadBlobStream(streamOf(data, 1000))).rejects.toThrow("HTTP 402: quota exceeded");
+  });
+});
@@ -0,0 +1,133 @@
+import { describe, test, expect, beforeEach, vi } from "vitest";
+import { S5APIWithIdentity } from "../src/identity/api.js";
+import { S5Portal } from "../src/account/portal.js";
+import { JSCryptoImplementation } from "../src/api/crypto/js.js";
+import { BlobIdentifier } from "../src/identifier/blob.js";
+
+describe("S5APIWithIdentity.uploadBlob deduplication", () => {
+  const crypto = new JSCryptoImplementation();
+  const data = new Uint8Array(5000).map((_, i) => i % 256);
+  let api: S5APIWithIdentity;
+  let fetchMock: ReturnType<typeof vi.fn>;
+  let stored: boolean;
+  let pinnable: boolean;
+
+  class MockFormData {
+    append() {}
+  }
+
+  beforeEach(() => {
+    api = new S5APIWithIdentity(
+      { crypto } as any,
+      { hiddenDBKey: new Uint8Array(32) } as any,
+      {} as any,
+    );
+    (api as any).accountConfigs = {
+      "portal.example": new S5Portal("https", "portal.example", { Authorization: "Bearer token" }),
+    };
+    stored = false;
+    pinnable = true;
+    fetchMock = vi.fn(async (url: string, init: any) => {
+      if (init.method === "HEAD") {
+        return new Response(null, { status: stored ? 200 : 404 });
+      }
+      if (url.includes("/s5/pin/")) {
+        return new Response(null, { status: stored && pinnable ? 200 : 404 });
+      }
+      stored = true;
+      return new Response(JSON.stringify({ cid: (await expectedIdentifier()).toBase58() }), { status: 200 });
+    });
+    (api as any).httpClientCache = { fetch: fetchMock, FormData: MockFormData };
+  });
+
+  async function expectedIdentifier(): Promise<BlobIdentifier> {
+    return new BlobIdentifier(new Uint8Array([0x1e, ...(await crypto.hashBlake3(data))]), data.length);
+  }
+  const methods = () => fetchMock.mock.calls.map(([, init]) => init.method);
+
+  test("uploads a new blob after checking the portal", async () => {
+    const result = await api.uploadBlob(new Blob([data]));
+
+    expect(result.toHex()).toBe((await expectedIdentifier()).toHex());
+    expect(methods()).toEqual(["HEAD", "POST"]);
+    const [url, init] = fetchMock.mock.calls[0];
+    expect(url).toBe(`https://portal.example/s5/blob/${(await expectedIdentifier()).toBase58()}`);
+    expect(init.headers.Authorization).toBe("Bearer token");
+  });
+
+  test("skips the upload for blobs it uploaded before", async () => {
+    const first = await api.uploadBlob(new Blob([data]));
+    fetchMock.mockClear();
+
+    const second = await api.uploadBlob(new Blob([data]));
+
+    expect(second.toHex()).toBe(first.toHex());
+    expect(second.size).toBe(data.length);
+    expect(fetchMock).not.toHaveBeenCalled();
+  });
+
+  test("pins blobs the portal already stores instead of uploading them", async () => {
+    stored = true;
+
+    const result = await api.uploadBlob(new Blob([data]));
+
+    expect(result.toHex()).toBe((await expectedIdentifier()).toHex());
+    expect(methods()).toEqual(["HEAD", "POST"]);
+    const [url, init] = fetchMock.mock.calls[1];
+    expect(url).toBe(`https://portal.example/s5/pin/${result.toBase58()}`);
+    expect(init.headers.Authorization).toBe("Bearer token");
+
+    fetchMock.mockClear();
+    await api.uploadBlob(new Blob([data]));
+    expect(fetchMock).not.toHaveBeenCalled();
+  });
+
+  test("uploads blobs the portal serves but doesn't pin for the account", async () => {
+    stored = true;
+    pinnable = false;
+
+    await api.uploadBlob(new Blob([data]));
+
+    expect(fetchMock.mock.calls.map(([url]) => url.split("/")[4])).toEqual([
+      "blob",
+      "pin",
+      "upload",
+    ]);
+  });
+
+  test("forgets the least recently used blobs beyond the limit", async () => {
+    const known = (api as any).knownBlobs as Set<string>;
+    for (let i = 0; i < 10000; i++) {
+      known.add(`hash${i}`);
+    }
+    await api.uploadBlob(new Blob([data]));
+
+    expect(known.size).toBe(10000);
+    expect(known.has("hash0")).toBe(false);
+    expect(known.has("hash1")).toBe(true);
+  });
+
+  test("uploads when the exists check fails", async () => {
+    fetchMock.mockImplementationOnce(async () => {
+      throw new Error("network down");
+    });
+
+    const result = await api.uploadBlob(new Blob([data]));
+
+    expect(result.toHex()).toBe((await expectedIdentifier()).toHex());
+    expect(methods()).toEqual(["HEAD", "POST"]);
+  });
+
+  test("remembers blobs uploaded as a stream", async () => {
+    fetchMock.mockImplementation(async (url: string, init: any) => {
+      await new Response(init.body).arrayBuffer();
+      return new Response(JSON.stringify({ cid: (await expectedIdentifier()).toBase58() }), { status: 200 });
+    });
+    await api.uploadBlobStream(new Blob([data]).stream());
+    fetchMock.mockClear();
+
+    await api.uploadBlob(new Blob([data]));
+
+    expect(fetchMock).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,115 @@
+import { describe, test, expect, beforeEach } from "vitest";
+import { FS5 } from "../../src/fs/fs5.js";
+import { SimpleMockAPI, SimpleMockIdentity } from "../test-utils.js";
+
+describe("Extended attributes", () => {
+  let fs: FS5;
+
+  beforeEach(async () => {
+    const api = new SimpleMockAPI();
+    fs = new FS5(api as any, new SimpleMockIdentity() as any);
+    await fs.ensureIdentityInitialized();
+    await fs.put("home/docs/report.txt", "Quarterly report");
+  });
+
+  test("sets, merges and reads attributes", async () => {
+    await fs.setAttributes("home/docs/report.txt", { tags: ["work", "q3"], origin: "scanner" });
+    await fs.setAttributes("home/docs/report.txt", { origin: "upload", reviewed: true });
+
+    expect(await fs.getAttributes("home/docs/report.txt")).toEqual({
+      tags: ["work", "q3"],
+      origin: "upload",
+      reviewed: true,
+    });
+  });
+
+  test("returns an empty object without attributes and undefined for missing paths", async () => {
+    expect(await fs.getAttributes("home/docs/report.txt")).toEqual({});
+    expect(await fs.getAttributes("home/docs/missing.txt")).toBeUndefined();
+  });
+
+  test("stores binary values", async () => {
+    const checksum = new Uint8Array([1, 2, 3, 4]);
+    await fs.setAttributes("home/docs/report.txt", { checksum });
+    expect((await fs.getAttributes("home/docs/report.txt"))?.checksum).toEqual(checksum);
+  });
+
+  test("removes a single attribute", async () => {
+    await fs.setAttributes("home/docs/report.txt", { origin: "scanner", reviewed: true });
+
+    expect(await fs.removeAttribute("home/docs/report.txt", "origin")).toBe(true);
+    expect(await fs.removeAttribute("home/docs/report.txt", "origin")).toBe(false);
+    expect(await fs.getAttributes("home/docs/report.txt")).toEqual({ reviewed: true });
+  });
+
+  test("survive put overwrites unless cleared", async () => {
+    await fs.setAttributes("home/docs/report.txt", { origin: "scanner" });
+
+    await fs.put("home/docs/report.txt", "Quarterly report, revised");
+    expect(await fs.getAttributes("home/docs/report.txt")).toEqual({ origin: "scanner" });
+
+    await fs.put("home/docs/report.txt", "Fresh start", { clearAttributes: true });
+    expect(await fs.getAttributes("home/docs/report.txt")).toEqual({});
+  });
+
+  test("are returned by getMetadata", async () => {
+    await fs.setAttributes("home/docs/report.txt", { origin: "scanner" });
+    await fs.setAttributes("home/docs", { color: "blue" });
+
+    expect((await fs.getMetadata("home/docs/report.txt"))?.attributes).toEqual({ origin: "scanner" });
+    expect((await fs.getMetadata("home/docs"))?.attributes).toEqual({ color: "blue" });
+  });
+
+  test("cannot clobber encryption metadata", async () => {
+    await fs.put("home/docs/secret.txt", "Classified", {
+      encryption: { algorithm: "xchacha20-poly1305" },
+    });
+    await fs.setAttributes("home/docs/secret.txt", { encryption: "none", key: "oops" });
+
+    expect(await fs.get("home/docs/secret.txt")).toBe("Classified");
+    expect((await fs.getAttributes("home/docs/secret.txt"))?.encryption).toBe("none");
+  });
+
+  test("keep the wrapped write key of moved directories intact", async () => {
+    await fs.move("home/docs", "home/archive-docs");
+    await fs.setAttributes("home/archive-docs", { moved: true });
+
+    await fs.put("home/archive-docs/new.txt", "Still writable");
+    expect(await fs.get("home/archive-docs/new.txt")).toBe("Still writable");
+    expect(await fs.getAttributes("home/archive-docs")).toEqual({ moved: true });
+  });
+
+  test("work in HAMT-sharded directories", async () => {
+    for (let i = 0; i < 1000; i++) {
+      await fs.put(`home/big/file${i}.txt`, `Content ${i}`);
+    }
+    await fs.setAttributes("home/big/file3.txt", { tag: "three" });
+    await fs.put("home/big/file3.txt", "Changed");
+
+    expect(await fs.getAttributes("home/big/file3.txt")).toEqual({ tag: "three" });
+  }, 120000);
+
+  test("are kept in snapshots and restored versions", async () => {
+    await fs.setAttributes("home/docs/report.txt", { origin: "scanner" });
+    await fs.setAttributes("home/docs", { color: "blue" });
+    await fs.snapshot("home", "archive/home");
+    expect(await fs.getAttributes("archive/home/docs")).toEqual({ color: "blue" });
+    expect(await fs.getAttributes("archive/home/docs/report.txt")).toEqual({ origin: "scanner" });
+
+    await fs.put("home/docs/report.txt", "Broken", { keepVersions: 2 });
+    await fs.restoreVersion("home/docs/report.txt", 1);
+    expect(await fs.getAttributes("home/docs/report.txt")).toEqual({ origin: "scanner" });
+  });
+
+  test("reject missing paths, top-level directories and undefined values", async () => {
+    await expect(fs.setAttributes("home/docs/missing.txt", { a: 1 })).rejects.toThrow(
+      "Path not found: home/docs/missing.txt"
+    );
+    await expect(fs.setAttributes("home", { a: 1 })).rejects.toThrow(
+      "Cannot set attributes on the root or top-level directories"
+    );
+    await expect(fs.setAttributes("home/docs/report.txt", { a: undefined })).rejects.toThrow(
+      'Invalid value for attribute "a"'
+    );
+  });
+});
@@ -0,0 +1,116 @@
+import { describe, test, expect, beforeEach } from "vitest";
+import { FS5 } from "../../src/fs/fs5.js";
+import { PreconditionFailedError } from "../../src/fs/errors.js";
+import { SimpleMockAPI, SimpleMockIdentity } from "../test-utils.js";
+
+describe("Conditional writes", () => {
+  let fs: FS5;
+
+  beforeEach(async () => {
+    const api = new SimpleMockAPI();
+    fs = new FS5(api as any, new SimpleMockIdentity() as any);
+    await fs.ensureIdentityInitialized();
+  });
+
+  const hashOf = async (path: string) => (await fs.listVersions(path))![0].hash;
+
+  test("ifMatch with the current hash allows the write", async () => {
+    await fs.putJSON("home/doc.json", { v: 1 });
+    const hash = await hashOf("home/doc.json");
+
+    await fs.putJSON("home/doc.json", { v: 2 }, { ifMatch: hash });
+    expect(await fs.getJSON("home/doc.json")).toEqual({ v: 2 });
+  });
+
+  test("ifMatch with a stale hash fails with the current state", async () => {
+    await fs.putJSON("home/doc.json", { v: 1 });
+    const staleHash = await hashOf("home/doc.json");
+    await fs.putJSON("home/doc.json", { v: 2 });
+    const latestHash = await hashOf("home/doc.json");
+
+    const error = await fs
+      .putJSON("home/doc.json", { v: 3 }, { ifMatch: staleHash })
+      .catch((e) => e);
+
+    expect(error).toBeInstanceOf(PreconditionFailedError);
+    expect(error.message).toBe("Precondition failed, file has changed: home/doc.json");
+    expect(error.path).toBe("home/doc.json");
+    expect(error.currentHash).toEqual(latestHash);
+    expect(await fs.getJSON("home/doc.json")).toEqual({ v: 2 });
+  });
+
+  test("ifMatch accepts the file timestamp in milliseconds", async () => {
+    await fs.put("home/note.txt", "First", { timestamp: 1700000000000 });
+
+    await expect(
+      fs.put("home/note.txt", "Second", { ifMatch: 1600000000000 })
+    ).rejects.toBeInstanceOf(PreconditionFailedError);
+
+    await fs.put("home/note.txt", "Second", { ifMatch: 1700000000000 });
+    expect(await fs.get("home/note.txt")).toBe("Second");
+  });
+
+  test("ifMatch fails when the file doesn't exist", async () => {
+    await expect(
+      fs.put("home/missing.txt", "Data", { ifMatch: new Uint8Array(32) })
+    ).rejects.toThrow("Precondition failed, file not found: home/missing.txt");
+  });
+
+  test("ifNoneMatch only creates new files", async () => {
+    await fs.put("home/lock", "Owner A", { ifNoneMatch: "*" });
+
+    const error = await fs
+      .put("home/lock", "Owner B", { ifNoneMatch: "*" })
+      .catch((e) => e);
+    expect(error).toBeInstanceOf(PreconditionFailedError);
+    expect(error.message).toBe("Precondition failed, file already exists: home/lock");
+    expect(await fs.get("home/lock")).toBe("Owner A");
+  });
+
+  test("concurrent create-only writes let exactly one writer win", async () => {
+    const results = await Promise.allSettled([
+      fs.put("home/claim", "Device A", { ifNoneMatch: "*" }),
+      fs.put("home/claim", "Device B", { ifNoneMatch: "*" }),
+    ]);
+
+    expect(results.filter((r) => r.status === "fulfilled")).toHaveLength(1);
+    const rejected = results.find((r) => r.status === "rejected") as PromiseRejectedResult;
+    expect(rejected.reason).toBeInstanceOf(PreconditionFailedError);
+  });
+
+  test("conditions also apply to putText", async () => {
+    await fs.putText("home/a.txt", "One");
+
+    await expect(
+      fs.putText("home/a.txt", "Two", { ifNoneMatch: "*" })
+    ).rejects.toBeInstanceOf(PreconditionFailedError);
+  });
+
+  test("delete with ifMatch only removes the expected version", async () => {
+    await fs.put("home/file.txt", "Original");
+    const hash = await hashOf("home/file.txt");
+    await fs.put("home/file.txt", "Edited elsewhere");
+
+    await expect(fs.delete("home/file.txt", { ifMatch: hash })).rejects.toBeInstanceOf(
+      PreconditionFailedError
+    );
+    expect(await fs.get("home/file.txt")).toBe("Edited elsewhere");
+
+    const latestHash = await hashOf("home/file.txt");
+    expect(await fs.delete("home/file.txt", { ifMatch: latestHash })).toBe(true);
+    expect(await fs.get("home/file.txt")).toBeUndefined();
+  });
+
+  test("delete with ifMatch fails for missing files", async () => {
+    await expect(
+      fs.delete("home/none.txt", { ifMatch: new Uint8Array(32) })
+    ).rejects.toThrow("Precondition failed, file not found: home/none.txt");
+  });
+
+  test("writes without conditions are unaffected", async () => {
+    await fs.put("home/plain.txt", "One");
+    await fs.put("home/plain.txt", "Two");
+    expect(await fs.get("home/plain.txt")).toBe("Two");
+    expect(await fs.delete("home/plain.txt")).toBe(true);
+  });
+});
@@ -0,0 +1,118 @@
+import { describe, test, expect, beforeEach, vi } from "vitest";
+import { FS5 } from "../../src/fs/fs5.js";
+import { SimpleMockAPI, SimpleMockIdentity } from "../test-utils.js";
+
+describe("FS5.diff", () => {
+  let fs: FS5;
+
+  const summary = (changes: any[]) =>
+    changes.map((c) => (c.from ? `${c.type} ${c.from} -> ${c.path}` : `${c.type} ${c.path}`));
+
+  beforeEach(async () => {
+    const api = new SimpleMockAPI();
+    fs = new FS5(api as any, new SimpleMockIdentity() as any);
+    await fs.ensureIdentityInitialized();
+
+    await fs.put("home/project/README.md", "# Project");
+    await fs.put("home/project/src/main.ts", "Main source");
+    await fs.put("home/project/src/util.ts", "Util source");
+    await fs.put("home/project/assets/logo.svg", "Logo data");
+  });
+
+  test("reports nothing for identical trees", async () => {
+    await fs.snapshot("home/project", "archive/snap");
+
+    expect(await fs.diff("archive/snap", "home/project")).toEqual([]);
+  });
+
+  test("reports added, removed and modified files", async () => {
+    await fs.snapshot("home/project", "archive/snap");
+    await fs.put("home/project/src/main.ts", "Main source v2");
+    await fs.delete("home/project/assets/logo.svg");
+    await fs.put("home/project/docs/guide.md", "Guide");
+
+    const changes = await fs.diff("archive/snap", "home/project");
+
+    expect(summary(changes)).toEqual([
+      "removed assets/logo.svg",
+      "added docs",
+      "added docs/guide.md",
+      "modified src/main.ts",
+    ]);
+    const modified = changes.find((c) => c.type === "modified")!;
+    expect(modified.entryType).toBe("file");
+    expect(modified.hash).not.toEqual(modified.previousHash);
+  });
+
+  test("detects moved files by hash", async () => {
+    await fs.snapshot("home/project", "archive/snap");
+    await fs.move("home/project/src/util.ts", "home/project/lib/util.ts");
+
+    const changes = await fs.diff("archive/snap", "home/project");
+
+    expect(summary(changes)).toEqual(["added lib", "moved src/util.ts -> lib/util.ts"]);
+  });
+
+  test("detects moved directories as a single change", async () => {
+    await fs.snapshot("home/project", "archive/before");
+    await fs.rename("home/project/assets", "static");
+    await fs.snapshot("home/project", "archive/after");
+
+    const changes = await fs.diff("archive/before", "archive/after");
+
+    expect(summary(changes)).toEqual(["moved assets -> static"]);
+    expect(changes[0].entryType).toBe("directory");
+  });
+
+  test("skips identical subtrees without loading them", async () => {
+    await fs.snapshot("home/project", "archive/before");
+    await fs.put("home/project/README.md", "# Project v2");
+    await fs.snapshot("home/project", "archive/after");
+
+    const load = vi.spyOn(fs as any, "_loadDirectory");
+    const changes = await fs.diff("archive/before", "archive/after");
+
+    expect(summary(changes)).toEqual(["modified README.md"]);
+    const loaded = load.mock.calls.map((call) => call[0]);
+    expect(loaded).toEqual(["archive/before", "archive/after"]);
+  });
+
+  test("compares two live directories", async () => {
+    await fs.put("home/copy/README.md", "# Project");
+    await fs.put("home/copy/src/main.ts", "Main source");
+
+    const changes = await fs.diff("home/project", "home/copy");
+
+    expect(summary(changes)).toEqual([
+      "removed assets",
+      "removed assets/logo.svg",
+      "removed src/util.ts",
+    ]);
+  });
+
+  test("works across sharded directories", async () => {
+    await fs.transaction("home/big", (tx) => {
+      for (let i = 0; i < 1005; i++) {
+        tx.put(`file${i}.txt`, `Content ${i}`);
+      }
+    });
+    await fs.snapshot("home/big", "archive/big");
+    await fs.transaction("home/big", (tx) => {
+      tx.put("file7.txt", "Changed");
+      tx.delete("file8.txt");
+      tx.put("extra.txt", "Extra");
+    });
+
+    const changes = await fs.diff("archive/big", "home/big");
+
+    expect(summary(changes)).toEqual([
+      "added extra.txt",
+      "modified file7.txt",
+      "removed file8.txt",
+    ]);
+  });
+
+  test("fails for missing paths", async () => {
+    await expect(fs.diff("home/project", "home/missing")).rejects.toThrow();
+  });
+});
@@ -0,0 +1,157 @@
+import { describe, test, expect, beforeEach, vi } from "vitest";
+import { FS5 } from "../../src/fs/fs5.js";
+import { BatchOperations } from "../../src/fs/utils/batch.js";
+import { SimpleMockAPI, SimpleMockIdentity } from "../test-utils.js";
+
+describe("FS5 directory policy", () => {
+  let api: SimpleMockAPI;
+  let fs: FS5;
+
+  const fileRefOf = async (path: string) => {
+    const segments = path.split("/");
+    const dir = await (fs as any)._loadDirectory(segments.slice(0, -1).join("/"));
+    return dir.files.get(segments[segments.length - 1]);
+  };
+  const isEncrypted = async (path: string) => (await fileRefOf(path)).extra.has("encryption");
+  const jpeg = () =>
+    new Blob([new Uint8Array([0xff, 0xd8, 0xff, 0xe0, 0x00, 0x10, 0x4a, 0x46, 0xff, 0xd9])], {
+      type: "image/jpeg",
+    });
+
+  beforeEach(async () => {
+    api = new SimpleMockAPI();
+    fs = new FS5(api as any, new SimpleMockIdentity() as any);
+    await fs.ensureIdentityInitialized();
+    await fs.setDirectoryPolicy("home/private", { encryptFiles: true });
+  });
+
+  test("stores the policy in the directory header", async () => {
+    const dir = await (fs as any)._loadDirectory("home/private");
+    expect(dir.header.policy).toEqual({ encryptFiles: true });
+    expect(await fs.getDirectoryPolicy("home/private")).toEqual({ encryptFiles: true });
+    expect(await fs.getDirectoryPolicy("home")).toEqual({});
+  });
+
+  test("put encrypts files without encryption options", async () => {
+    await fs.put("home/private/notes.txt", "Secret notes");
+    await fs.putJSON("home/private/config.json", { token: "abc" });
+    await fs.put("home/public.txt", "Public");
+
+    expect(await isEncrypted("home/private/notes.txt")).toBe(true);
+    expect(await isEncrypted("home/private/config.json")).toBe(true);
+    expect(await isEncrypted("home/public.txt")).toBe(false);
+    expect(await fs.get("home/private/notes.txt")).toBe("Secret notes");
+    expect(await fs.getJSON("home/private/config.json")).toEqual({ token: "abc" });
+  });
+
+  test("explicit encryption options are kept", async () => {
+    const key = new Uint8Array(32).fill(7);
+    await fs.put("home/private/keyed.bin", new Uint8Array([1, 2, 3]), {
+      encryption: { algorithm: "xchacha20-poly1305", key: key },
+    });
+
+    expect((await fileRefOf("home/private/keyed.bin")).extra.get("encryption").get("key")).toEqual(
+      Array.from(key)
+    );
+  });
+
+  test("fails instead of writing in plaintext when a directory can't be loaded", async () => {
+    vi.spyOn(api, "registryGet").mockRejectedValueOnce(new Error("Network error"));
+
+    await expect(fs.put("home/private/notes.txt", "Secret notes")).rejects.toThrow(
+      "Network error"
+    );
+    expect(await fs.get("home/private/notes.txt")).toBeUndefined();
+  });
+
+  test("loads each existing directory on the path once", async () => {
+    await fs.put("home/private/a/b/file.txt", "File");
+    const getSpy = vi.spyOn(api, "registryGet");
+
+    expect(await fs.getDirectoryPolicy("home/private/a/b/missing/deeper")).toEqual({
+      encryptFiles: true,
+    });
+    // The root, home, private, a and b
+    expect(getSpy).toHaveBeenCalledTimes(5);
+  });
+
+  test("subdirectories inherit the policy unless they set their own", async () => {
+    await fs.put("home/private/photos/2024/beach.txt", "Beach");
+    await fs.setDirectoryPolicy("home/private/shared", { encryptFiles: false });
+    await fs.put("home/private/shared/readme.txt", "Readme");
+    await fs.put("home/private/shared/inner/file.txt", "Inner");
+
+    expect(await fs.getDirectoryPolicy("home/private/photos/2024")).toEqual({ encryptFiles: true });
+    expect(await isEncrypted("home/private/photos/2024/beach.txt")).toBe(true);
+    expect(await isEncrypted("home/private/shared/readme.txt")).toBe(false);
+    expect(await isEncrypted("home/private/shared/inner/file.txt")).toBe(false);
+  });
+
+  test("an empty policy removes it", async () => {
+    await fs.setDirectoryPolicy("home/private", {});
+    await fs.put("home/private/notes.txt", "Notes");
+
+    expect((await (fs as any)._loadDirectory("home/private")).header.policy).toBeUndefined();
+    expect(await isEncrypted("home/private/notes.txt")).toBe(false);
+  });
+
+  test("applies to putText and transactions", async () => {
+    await fs.putText("home/private/a.txt", "A");
+    await fs.transaction("home/private", (tx) => {
+      tx.put("c.txt", "C");
+    });
+
+    expect(await isEncrypted("home/private/a.txt")).toBe(true);
+    expect(await isEncrypted("home/private/c.txt")).toBe(true);
+    expect(await fs.get("home/private/c.txt")).toBe("C");
+  });
+
+  test("putImage encrypts images in policy directories", async () => {
+    await fs.putImage("home/private/photo.jpg", jpeg(), {
+      generateThumbnail: false,
+      extractMetadata: false,
+    });
+
+    expect(await isEncrypted("home/private/photo.jpg")).toBe(true);
+  });
+
+  test("createImageGallery encrypts images and the manifest", async () => {
+    await fs.createImageGallery(
+      "home/private/gallery",
+      [{ name: "one.jpg", blob: jpeg() }],
+      { generateThumbnails: false }
+    );
+
+    expect(await isEncrypted("home/private/gallery/one.jpg")).toBe(true);
+    expect(await isEncrypted("home/private/gallery/manifest.json")).toBe(true);
+  });
+
+  test("BatchOperations.copyDirectory encrypts copies into policy directories", async () => {
+    await fs.put("home/docs/a.txt", "A");
+    await fs.put("home/docs/sub/b.txt", "B");
+
+    await new BatchOperations(fs).copyDirectory("home/docs", "home/private/docs");
+
+    expect(await isEncrypted("home/private/docs/a.txt")).toBe(true);
+    expect(await isEncrypted("home/private/docs/sub/b.txt")).toBe(true);
+    expect(await fs.get("home/private/docs/sub/b.txt")).toBe("B");
+  });
+
+  test("shared views can set a policy on their root", async () => {
+    await fs.put("home/team/readme.txt", "Readme");
+    const view = await fs.openShared(await fs.grantWriteAccess("home/team"));
+    const viewFs = (view as any).fs5 as FS5;
+
+    await viewFs.setDirectoryPolicy("", { encryptFiles: true });
+    await view.put("notes.txt", "Notes");
+
+    expect(await isEncrypted("home/team/notes.txt")).toBe(true);
+    expect(await fs.getDirectoryPolicy("home/team")).toEqual({ encryptFiles: true });
+  });
+
+  test("rejects a policy on the root directory", async () => {
+    await expect(fs.setDirectoryPolicy("", { encryptFiles: true })).rejects.toThrow(
+      "Cannot set a policy on the root directory"
+    );
+  });
+});
@@ -0,0 +1,129 @@
+import { describe, test, expect, beforeEach, vi } from "vitest";
+import { FS5 } from "../../src/fs/fs5.js";
+import { SimpleMockAPI, SimpleMockIdentity } from "../test-utils.js";
+
+describe("FS5.du", () => {
+  let api: SimpleMockAPI;
+  let fs: FS5;
+
+  beforeEach(async () => {
+    api = new SimpleMockAPI();
+    fs = new FS5(api as any, new SimpleMockIdentity() as any);
+    await fs.ensureIdentityInitialized();
+
+    await fs.put("home/project/README.md", "Hello world");
+    await fs.put("home/project/src/main.ts", "x".repeat(300), { mediaType: "text/typescript" });
+    await fs.put("home/project/src/util.ts", "x".repeat(100), { mediaType: "text/typescript" });
+    await fs.put("home/project/assets/logo.png", new Uint8Array(500), { mediaType: "image/png" });
+    await fs.put("home/project/assets/icons/small.png", new Uint8Array(50), {
+      mediaType: "image/png",
+      encryption: { algorithm: "xchacha20-poly1305" },
+    });
+  });
+
+  test("reports totals, subdirectories and media types", async () => {
+    const usage = await fs.du("home/project");
+
+    expect(usage.path).toBe("home/project");
+    expect(usage.files).toBe(5);
+    expect(usage.directories).toBe(3);
+    expect(usage.totalSize).toBe(11 + 300 + 100 + 500 + 50);
+    expect(usage.subdirectories).toEqual({
+      src: { files: 2, directories: 0, totalSize: 400 },
+      assets: { files: 2, directories: 1, totalSize: 550 },
+    });
+    expect(usage.mediaTypes["text/typescript"]).toEqual({ files: 2, totalSize: 400 });
+    expect(usage.mediaTypes["image/png"]).toEqual({ files: 2, totalSize: 550 });
+    expect(usage.cached).toBe(false);
+  });
+
+  test("counts encrypted and plain files", async () => {
+    const usage = await fs.du("home/project");
+
+    expect(usage.encryptedFiles).toBe(1);
+    expect(usage.plainFiles).toBe(4);
+  });
+
+  test("lists the largest files first with their full path", async () => {
+    const usage = await fs.du("home/project", { largestFiles: 2 });
+
+    expect(usage.largestFiles).toEqual([
+      { path: "home/project/assets/logo.png", size: 500, mediaType: "image/png" },
+      { path: "home/project/src/main.ts", size: 300, mediaType: "text/typescript" },
+    ]);
+    expect((await fs.du("home/project", { largestFiles: 0 })).largestFiles).toEqual([]);
+  });
+
+  test("counts HAMT-sharded directories", async () => {
+    await fs.transaction("home/project/bulk", (tx) => {
+      for (let i = 0; i < 1005; i++) {
+        tx.put(`item${i}.txt`, "i");
+      }
+    });
+
+    const usage = await fs.du("home/project");
+
+    expect(usage.shardedDirectories).toBe(1);
+    expect(usage.subdirectories.bulk).toEqual({ files: 1005, directories: 0, totalSize: 1005 });
+    expect(usage.files).toBe(1010);
+  });
+
+  test("throws for a missing directory", async () => {
+    await expect(fs.du("home/missing")).rejects.toThrow();
+  });
+
+  test("reuses a cached result without loading the tree", async () => {
+    const first = await fs.du("home/project", { cache: true });
+    expect(first.cached).toBe(false);
+
+    const loadSpy = vi.spyOn(fs as any, "_loadDirectory");
+    const second = await fs.du("home/project", { cache: true });
+
+    expect(second.cached).toBe(true);
+    expect({ ...second, cached: false }).toEqual(first);
+    expect(loadSpy.mock.calls.map((call) => call[0])).toEqual(["home"]);
+  });
+
+  test("invalidates the cache when anything below the directory changes", async () => {
+    await fs.du("home/project", { cache: true });
+
+    await fs.put("home/project/assets/icons/big.png", new Uint8Array(1000), {
+      mediaType: "image/png",
+    });
+    const usage = await fs.du("home/project", { cache: true });
+
+    expect(usage.cached).toBe(false);
+    expect(usage.files).toBe(6);
+    expect(usage.largestFiles[0].path).toBe("home/project/assets/icons/big.png");
+    expect((await fs.du("home/project", { cache: true })).cached).toBe(true);
+  });
+
+  test("recomputes when more largest files are requested than were cached", async () => {
+    await fs.du("home/project", { cache: true, largestFiles: 1 });
+
+    const more = await fs.du("home/project", { cache: true, largestFiles: 3 });
+    expect(more.cached).toBe(false);
+    expect(more.largestFiles).toHaveLength(3);
+
+    const fewer = await fs.du("home/project", { cache: true, largestFiles: 2 });
+    expect(fewer.cached).toBe(true);
+    expect(fewer.largestFiles.map((f) => f.size)).toEqual([500, 300]);
+  });
+
+  test("writes the parent only once when the cached value is unchanged", async () => {
+    const setSpy = vi.spyOn(api, "registrySet");
+    const [a, b] = await Promise.all([
+      fs.du("home/project", { cache: true }),
+      fs.du("home/project", { cache: true }),
+    ]);
+
+    expect(a).toEqual(b);
+    expect(setSpy).toHaveBeenCalledTimes(1);
+    expect((await fs.du("home/project", { cache: true })).cached).toBe(true);
+  });
+
+  test("does not cache unless asked to", async () => {
+    await fs.du("home/project");
+    expect((await fs.du("home/project", { cache: true })).cached).toBe(false);
+  });
+});
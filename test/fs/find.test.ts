@@ -0,0 +1,157 @@
+import { describe, test, expect, beforeEach } from "vitest";
+import { FS5 } from "../../src/fs/fs5.js";
+import { globToRegExp } from "../../src/fs/utils/glob.js";
+import { SimpleMockAPI, SimpleMockIdentity } from "../test-utils.js";
+
+describe("globToRegExp", () => {
+  test("matches single and multiple path segments", () => {
+    expect(globToRegExp("*.jpg").test("a.jpg")).toBe(true);
+    expect(globToRegExp("*.jpg").test("dir/a.jpg")).toBe(false);
+    expect(globToRegExp("**/*.jpg").test("a.jpg")).toBe(true);
+    expect(globToRegExp("**/*.jpg").test("x/y/a.jpg")).toBe(true);
+    expect(globToRegExp("photos/**").test("photos/2024/a.png")).toBe(true);
+    expect(globToRegExp("photos/**").test("music/a.mp3")).toBe(false);
+  });
+
+  test("supports ?, character classes and alternatives", () => {
+    expect(globToRegExp("img?.png").test("img1.png")).toBe(true);
+    expect(globToRegExp("img?.png").test("img10.png")).toBe(false);
+    expect(globToRegExp("[ab]*.txt").test("b.txt")).toBe(true);
+    expect(globToRegExp("[!ab]*.txt").test("b.txt")).toBe(false);
+    expect(globToRegExp("**/*.{jpg,png}").test("x/a.png")).toBe(true);
+    expect(globToRegExp("**/*.{jpg,png}").test("x/a.gif")).toBe(false);
+  });
+
+  test("escapes regular expression characters", () => {
+    expect(globToRegExp("a+b.(1).txt").test("a+b.(1).txt")).toBe(true);
+    expect(globToRegExp("a.txt").test("abtxt")).toBe(false);
+    expect(() => globToRegExp("*.{jpg,png")).toThrow("Invalid glob pattern: *.{jpg,png");
+  });
+});
+
+describe("FS5.find", () => {
+  let fs: FS5;
+  const day = 24 * 60 * 60 * 1000;
+  const now = Date.UTC(2024, 5, 15);
+
+  const collect = async (root: string, query = {}) => {
+    const results = [];
+    for await (const result of fs.find(root, query)) {
+      results.push(result);
+    }
+    return results;
+  };
+
+  beforeEach(async () => {
+    const api = new SimpleMockAPI();
+    fs = new FS5(api as any, new SimpleMockIdentity() as any);
+    await fs.ensureIdentityInitialized();
+
+    const image = new Uint8Array(2048);
+    await fs.put("home/photos/beach.jpg", image, { timestamp: now - 2 * day });
+    await fs.put("home/photos/2023/old.jpg", image.subarray(0, 100), { timestamp: now - 300 * day });
+    await fs.put("home/photos/2024/city.png", image, { timestamp: now - 1 * day });
+    await fs.put("home/photos/notes.txt", "Trip notes", { timestamp: now });
+    await fs.put("home/music/song.mp3", new Uint8Array(4096), { timestamp: now - 3 * day });
+  });
+
+  test("returns every file depth-first in name order", async () => {
+    const results = await collect("home");
+
+    expect(results.map((r) => r.path)).toEqual([
+      "home/music/song.mp3",
+      "home/photos/2023/old.jpg",
+      "home/photos/2024/city.png",
+      "home/photos/beach.jpg",
+      "home/photos/notes.txt",
+    ]);
+  });
+
+  test("matches glob patterns relative to the root", async () => {
+    const all = await collect("home/photos", { glob: "**/*.jpg" });
+    expect(all.map((r) => r.path)).toEqual([
+      "home/photos/2023/old.jpg",
+      "home/photos/beach.jpg",
+    ]);
+
+    const topLevel = await collect("home/photos", { glob: "*.{jpg,png}" });
+    expect(topLevel.map((r) => r.name)).toEqual(["beach.jpg"]);
+  });
+
+  test("filters by media type prefix or exact type", async () => {
+    const images = await collect("home", { mediaType: "image/" });
+    expect(images.map((r) => r.name)).toEqual(["old.jpg", "city.png", "beach.jpg"]);
+
+    const png = await collect("home", { mediaType: "image/png" });
+    expect(png.map((r) => r.name)).toEqual(["city.png"]);
+  });
+
+  test("filters by size range", async () => {
+    const results = await collect("home", { minSize: 1000, maxSize: 3000 });
+    expect(results.map((r) => r.name)).toEqual(["city.png", "beach.jpg"]);
+  });
+
+  test("finds images modified this week", async () => {
+    const results = await collect("home", {
+      mediaType: "image/",
+      modifiedAfter: now - 7 * day,
+      modifiedBefore: now,
+    });
+
+    expect(results.map((r) => r.name)).toEqual(["city.png", "beach.jpg"]);
+    expect(results[0].timestamp).toBe(now - 1 * day);
+  });
+
+  test("returns full FileRef metadata", async () => {
+    const [result] = await collect("home/photos", { glob: "beach.jpg" });
+
+    expect(result.size).toBe(2048);
+    expect(result.mediaType).toBe("image/jpeg");
+    expect(result.fileRef.hash).toHaveLength(32);
+    expect(result.fileRef.media_type).toBe("image/jpeg");
+    expect(Number(result.fileRef.size)).toBe(2048);
+  });
+
+  test("stops at the limit and resumes from a cursor", async () => {
+    const first = await collect("home", { limit: 2 });
+    expect(first.map((r) => r.name)).toEqual(["song.mp3", "old.jpg"]);
+
+    const second = await collect("home", { limit: 2, cursor: first[1].cursor });
+    expect(second.map((r) => r.name)).toEqual(["city.png", "beach.jpg"]);
+
+    const third = await collect("home", { limit: 2, cursor: second[1].cursor });
+    expect(third.map((r) => r.name)).toEqual(["notes.txt"]);
+  });
+
+  test("resumes correctly when filters skip entries", async () => {
+    const first = await collect("home", { mediaType: "image/", limit: 1 });
+    const rest = await collect("home", { mediaType: "image/", cursor: first[0].cursor });
+
+    expect(rest.map((r) => r.name)).toEqual(["city.png", "beach.jpg"]);
+  });
+
+  test("orders a directory before a file with the same name", async () => {
+    await fs.put("home/mix/b/inner.txt", "Inner");
+    await fs.put("home/mix/b", "File b");
+    await fs.put("home/mix/a.txt", "File a");
+
+    const all = await collect("home/mix");
+    expect(all.map((r) => r.path)).toEqual([
+      "home/mix/a.txt",
+      "home/mix/b/inner.txt",
+      "home/mix/b",
+    ]);
+
+    const resumed = await collect("home/mix", { cursor: all[1].cursor });
+    expect(resumed.map((r) => r.path)).toEqual(["home/mix/b"]);
+    expect(await collect("home/mix", { cursor: all[2].cursor })).toEqual([]);
+  });
+
+  test("fails for a missing root like list does", async () => {
+    await expect(collect("home/missing")).rejects.toThrow("does not exist");
+  });
+
+  test("rejects invalid cursors", async () => {
+    await expect(collect("home", { cursor: "not-a-cursor" })).rejects.toThrow("Invalid cursor");
+  });
+});
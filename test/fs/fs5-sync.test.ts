@@ -0,0 +1,223 @@
+import { describe, test, expect, beforeEach, afterEach } from "vitest";
+import { mkdtemp, mkdir, readFile, readdir, rm, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { FS5 } from "../../src/fs/fs5.js";
+import { FS5Sync } from "../../src/fs/fs5-sync.js";
+import { SimpleMockAPI, SimpleMockIdentity } from "../test-utils.js";
+
+class StreamMockAPI extends SimpleMockAPI {
+  async uploadBlobStream(stream: ReadableStream<Uint8Array>) {
+    return this.uploadBlob(await new Response(stream).blob());
+  }
+}
+
+describe("FS5Sync", () => {
+  let fs: FS5;
+  let localDir: string;
+  let sync: FS5Sync;
+
+  const writeLocal = async (path: string, content: string) => {
+    await mkdir(join(localDir, path, ".."), { recursive: true });
+    await writeFile(join(localDir, path), content);
+  };
+  const readLocal = (path: string) => readFile(join(localDir, path), "utf8");
+  const summary = (result: { actions: any[] }) =>
+    result.actions.map((a) => `${a.type} ${a.path}`);
+
+  beforeEach(async () => {
+    const api = new StreamMockAPI();
+    fs = new FS5(api as any, new SimpleMockIdentity() as any);
+    await fs.ensureIdentityInitialized();
+    localDir = await mkdtemp(join(tmpdir(), "s5-sync-"));
+    sync = new FS5Sync(fs, { localDir, remotePath: "home/project" });
+  });
+
+  afterEach(async () => {
+    await rm(localDir, { recursive: true, force: true });
+  });
+
+  test("push uploads local files and a second push does nothing", async () => {
+    await writeLocal("README.md", "# Project");
+    await writeLocal("src/main.ts", "Main");
+
+    const first = await sync.push();
+    expect(summary(first)).toEqual(["upload README.md", "upload src/main.ts"]);
+    expect(first.errors).toEqual([]);
+    expect(await fs.getText("home/project/src/main.ts")).toBe("Main");
+
+    const second = await sync.push();
+    expect(second.actions).toEqual([]);
+  });
+
+  test("pull downloads remote files into an empty folder", async () => {
+    await fs.put("home/project/docs/guide.md", "Guide");
+    await fs.put("home/project/data.bin", new Uint8Array([1, 2, 3]));
+
+    const result = await sync.pull();
+
+    expect(summary(result)).toEqual(["download data.bin", "download docs/guide.md"]);
+    expect(await readLocal("docs/guide.md")).toBe("Guide");
+    expect(new Uint8Array(await readFile(join(localDir, "data.bin")))).toEqual(
+      new Uint8Array([1, 2, 3])
+    );
+  });
+
+  test("two-way sync propagates edits and deletions in both directions", async () => {
+    await writeLocal("local-edit.txt", "One");
+    await writeLocal("remote-edit.txt", "One");
+    await writeLocal("local-delete.txt", "One");
+    await writeLocal("remote-delete.txt", "One");
+    await sync.sync();
+
+    await writeLocal("local-edit.txt", "Local change");
+    await fs.put("home/project/remote-edit.txt", "Remote change");
+    await rm(join(localDir, "local-delete.txt"));
+    await fs.delete("home/project/remote-delete.txt");
+
+    const result = await sync.sync();
+
+    expect(summary(result)).toEqual([
+      "delete-remote local-delete.txt",
+      "upload local-edit.txt",
+      "delete-local remote-delete.txt",
+      "download remote-edit.txt",
+    ]);
+    expect(await fs.getText("home/project/local-edit.txt")).toBe("Local change");
+    expect(await readLocal("remote-edit.txt")).toBe("Remote change");
+    expect(await fs.get("home/project/local-delete.txt")).toBeUndefined();
+    await expect(readLocal("remote-delete.txt")).rejects.toThrow();
+
+    expect((await sync.sync()).actions).toEqual([]);
+  });
+
+  test("keeps both versions when a file changed on both sides", async () => {
+    await writeLocal("notes.txt", "Base");
+    await sync.sync();
+
+    await writeLocal("notes.txt", "Local version");
+    await fs.put("home/project/notes.txt", "Remote version!");
+
+    const result = await sync.sync();
+
+    expect(result.actions).toHaveLength(1);
+    const [conflict] = result.actions;
+    expect(conflict.type).toBe("conflict");
+    expect(conflict.conflictPath).toMatch(/^notes\.conflict-.+\.txt$/);
+
+    expect(await readLocal("notes.txt")).toBe("Remote version!");
+    expect(await readLocal(conflict.conflictPath!)).toBe("Local version");
+    expect(await fs.getText(`home/project/${conflict.conflictPath}`)).toBe("Local version");
+    expect((await sync.sync()).actions).toEqual([]);
+  });
+
+  test("an edit wins over a deletion on the other side", async () => {
+    await writeLocal("doc.txt", "Base");
+    await sync.sync();
+
+    await rm(join(localDir, "doc.txt"));
+    await fs.put("home/project/doc.txt", "Edited remotely");
+
+    const result = await sync.sync();
+    expect(summary(result)).toEqual(["download doc.txt"]);
+    expect(await readLocal("doc.txt")).toBe("Edited remotely");
+  });
+
+  test("one-way push keeps remote-only files", async () => {
+    await fs.put("home/project/remote-only.txt", "Remote");
+    await writeLocal("local.txt", "Local");
+
+    const result = await sync.push();
+
+    expect(summary(result)).toEqual(["upload local.txt"]);
+    expect(await fs.getText("home/project/remote-only.txt")).toBe("Remote");
+  });
+
+  test("include and exclude patterns limit what is synced", async () => {
+    await writeLocal("src/main.ts", "Main");
+    await writeLocal("src/main.test.ts", "Test");
+    await writeLocal("build/out.js", "Output");
+    await writeLocal("README.md", "Readme");
+
+    const filtered = new FS5Sync(fs, {
+      localDir,
+      remotePath: "home/project",
+      include: ["src/**", "*.md"],
+      exclude: ["**/*.test.ts"],
+    });
+    const result = await filtered.push();
+
+    expect(summary(result)).toEqual(["upload README.md", "upload src/main.ts"]);
+    const remoteNames: string[] = [];
+    for await (const item of fs.list("home/project")) remoteNames.push(item.name);
+    expect(remoteNames.sort()).toEqual(["README.md", "src"]);
+  });
+
+  test("dry run reports actions without changing anything", async () => {
+    await writeLocal("a.txt", "A");
+    await fs.put("home/project/b.txt", "B");
+
+    const result = await sync.sync({ dryRun: true });
+
+    expect(result.dryRun).toBe(true);
+    expect(summary(result)).toEqual(["upload a.txt", "download b.txt"]);
+    expect(await fs.get("home/project/a.txt")).toBeUndefined();
+    expect(await readdir(localDir)).toEqual(["a.txt"]);
+  });
+
+  test("persists state between instances and skips the state file", async () => {
+    await writeLocal("a.txt", "A");
+    await sync.sync();
+
+    const state = JSON.parse(await readLocal(".s5sync.json"));
+    expect(Object.keys(state.files)).toEqual(["a.txt"]);
+    expect(await fs.get("home/project/.s5sync.json")).toBeUndefined();
+
+    await rm(join(localDir, "a.txt"));
+    const again = new FS5Sync(fs, { localDir, remotePath: "home/project" });
+    expect(summary(await again.sync())).toEqual(["delete-remote a.txt"]);
+  });
+
+  test("compares encrypted remote files by their plaintext hash", async () => {
+    await fs.put("home/project/secret.txt", "Secret", {
+      encryption: { algorithm: "xchacha20-poly1305" },
+    });
+    await writeLocal("secret.txt", "Secret");
+
+    expect((await sync.sync()).actions).toEqual([]);
+  });
+
+  test("rejects a state file that belongs to another remote path", async () => {
+    await writeLocal("a.txt", "A");
+    await sync.sync();
+
+    const other = new FS5Sync(fs, { localDir, remotePath: "home/other" });
+    await expect(other.sync()).rejects.toThrow("belongs to home/project, not home/other");
+  });
+
+  test("leaves the trash out when syncing its parent", async () => {
+    const home = new FS5Sync(fs, { localDir, remotePath: "home" });
+    await fs.put("home/notes.txt", "Notes");
+    await fs.delete("home/notes.txt", { soft: true });
+    await writeLocal(".trash/local.txt", "Local");
+
+    const result = await home.sync();
+
+    expect(summary(result)).toEqual([]);
+    expect((await readdir(localDir)).sort()).toEqual([".s5sync.json", ".trash"]);
+    expect(await fs.listTrash()).toHaveLength(1);
+  });
+
+  test("never writes outside the local folder", async () => {
+    const inner = join(localDir, "local");
+    await fs.put("home/project/../escaped.txt", "pwned");
+    await fs.put("home/project/safe.txt", "Safe");
+
+    const result = await new FS5Sync(fs, { localDir: inner, remotePath: "home/project" }).pull();
+
+    expect(summary(result)).toEqual(["download safe.txt"]);
+    expect(result.errors.map((e) => e.error.message)).toEqual(["Unsafe path: ../escaped.txt"]);
+    expect(await readdir(localDir)).toEqual(["local"]);
+    expect(await readFile(join(inner, "safe.txt"), "utf8")).toBe("Safe");
+  });
+});
@@ -0,0 +1,148 @@
+import { describe, test, expect, beforeEach } from "vitest";
+import { FS5 } from "../../src/fs/fs5.js";
+import { SimpleMockAPI, SimpleMockIdentity } from "../test-utils.js";
+
+describe("Sorted and filtered listings", () => {
+  let fs: FS5;
+  const base = Date.UTC(2024, 0, 1);
+
+  const collect = async (path: string, options = {}) => {
+    const results = [];
+    for await (const item of fs.list(path, options)) {
+      results.push(item);
+    }
+    return results;
+  };
+
+  const collectPages = async (path: string, options: any, pageSize: number) => {
+    const all = [];
+    let cursor: string | undefined;
+    while (true) {
+      const page = await collect(path, { ...options, limit: pageSize, cursor });
+      if (page.length === 0) break;
+      all.push(...page);
+      cursor = page[page.length - 1].cursor;
+    }
+    return all;
+  };
+
+  beforeEach(async () => {
+    const api = new SimpleMockAPI();
+    fs = new FS5(api as any, new SimpleMockIdentity() as any);
+    await fs.ensureIdentityInitialized();
+
+    await fs.put("home/docs/b.txt", "BB", { timestamp: base + 3000 });
+    await fs.put("home/docs/a.txt", "AAAA", { timestamp: base + 1000 });
+    await fs.put("home/docs/c.txt", "C", { timestamp: base + 2000 });
+    await fs.createDirectory("home/docs", "folder");
+  });
+
+  test("sorts by name in both orders, files and directories together", async () => {
+    const asc = await collect("home/docs", { sortBy: "name" });
+    expect(asc.map((i) => i.name)).toEqual(["a.txt", "b.txt", "c.txt", "folder"]);
+
+    const desc = await collect("home/docs", { sortBy: "name", order: "desc" });
+    expect(desc.map((i) => i.name)).toEqual(["folder", "c.txt", "b.txt", "a.txt"]);
+  });
+
+  test("order alone sorts by name", async () => {
+    const desc = await collect("home/docs", { order: "desc" });
+    expect(desc.map((i) => i.name)).toEqual(["folder", "c.txt", "b.txt", "a.txt"]);
+  });
+
+  test("sorts by size and timestamp", async () => {
+    const files = (item: { type: string }) => item.type === "file";
+
+    const bySize = await collect("home/docs", { sortBy: "size", filter: files });
+    expect(bySize.map((i) => i.name)).toEqual(["c.txt", "b.txt", "a.txt"]);
+
+    const newest = await collect("home/docs", { sortBy: "timestamp", order: "desc", filter: files });
+    expect(newest.map((i) => i.name)).toEqual(["b.txt", "c.txt", "a.txt"]);
+    expect(newest[0].timestamp).toBe(base + 3000);
+  });
+
+  test("filter works without sorting and limit counts only matches", async () => {
+    const textFiles = await collect("home/docs", {
+      filter: (item: any) => item.name.endsWith(".txt"),
+      limit: 2,
+    });
+    expect(textFiles).toHaveLength(2);
+    expect(textFiles.every((i) => i.name.endsWith(".txt"))).toBe(true);
+
+    const dirs = await collect("home/docs", { filter: (item: any) => item.type === "directory" });
+    expect(dirs.map((i) => i.name)).toEqual(["folder"]);
+  });
+
+  test("pages through a sorted listing with cursors", async () => {
+    const pages = await collectPages("home/docs", { sortBy: "size", order: "desc" }, 1);
+    expect(pages.map((i) => i.name)).toEqual(["a.txt", "b.txt", "c.txt", "folder"]);
+  });
+
+  test("cursors stay valid when entries change between pages", async () => {
+    const first = await collect("home/docs", { sortBy: "name", limit: 2 });
+    expect(first.map((i) => i.name)).toEqual(["a.txt", "b.txt"]);
+
+    await fs.delete("home/docs/b.txt");
+    await fs.put("home/docs/aa.txt", "New");
+    await fs.put("home/docs/bb.txt", "New");
+
+    const rest = await collect("home/docs", { sortBy: "name", cursor: first[1].cursor });
+    expect(rest.map((i) => i.name)).toEqual(["bb.txt", "c.txt", "folder"]);
+  });
+
+  test("rejects cursors from a different sort order", async () => {
+    const [first] = await collect("home/docs", { sortBy: "name", limit: 1 });
+
+    await expect(
+      collect("home/docs", { sortBy: "size", cursor: first.cursor })
+    ).rejects.toThrow("Cursor was created for a different sort order");
+    await expect(
+      collect("home/docs", { sortBy: "name", order: "desc", cursor: first.cursor })
+    ).rejects.toThrow("Cursor was created for a different sort order");
+  });
+
+  describe("sharded directories", () => {
+    const total = 1010;
+
+    beforeEach(async () => {
+      await fs.transaction("home/big", (tx) => {
+        for (let i = 0; i < total; i++) {
+          tx.put(`item${String(i).padStart(4, "0")}.txt`, "x".repeat(i % 7), {
+            timestamp: base + i * 1000,
+          });
+        }
+      });
+    });
+
+    test("sorts and pages sharded directories", async () => {
+      const pages = await collectPages("home/big", { sortBy: "name" }, 300);
+
+      expect(pages).toHaveLength(total);
+      expect(pages[0].name).toBe("item0000.txt");
+      expect(pages[total - 1].name).toBe("item1009.txt");
+      const names = pages.map((i) => i.name);
+      expect(names).toEqual([...names].sort());
+    });
+
+    test("sorts sharded directories by timestamp descending", async () => {
+      const page = await collect("home/big", { sortBy: "timestamp", order: "desc", limit: 3 });
+      expect(page.map((i) => i.name)).toEqual(["item1009.txt", "item1008.txt", "item1007.txt"]);
+    });
+
+    test("unsorted cursors page through every entry exactly once", async () => {
+      const pages = await collectPages("home/big", {}, 250);
+
+      expect(pages).toHaveLength(total);
+      expect(new Set(pages.map((i) => i.name)).size).toBe(total);
+    });
+
+    test("filters sharded listings", async () => {
+      const matches = await collect("home/big", {
+        filter: (item: any) => item.name.startsWith("item100"),
+      });
+      expect(matches.map((i) => i.name).sort()).toEqual(
+        Array.from({ length: 10 }, (_, i) => `item100${i}.txt`)
+      );
+    });
+  });
+});
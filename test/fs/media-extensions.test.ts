@@ -27,7 +27,8 @@ global.Image = class Image {
   }
 } as any;
 
-global.URL = {
+// Keep URL constructible, fs5:// URIs are parsed with it
+Object.assign(global.URL, {
   createObjectURL: (blob: Blob) => {
     lastCreatedBlob = blob;
     return 'blob:mock-url';
@@ -35,7 +36,7 @@ global.URL = {
   revokeObjectURL: (url: string) => {
     lastCreatedBlob = null;
   },
-} as any;
+});
 
 global.document = {
   createElement: (tag: string) => {
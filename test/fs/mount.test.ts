@@ -0,0 +1,173 @@
+import { describe, test, expect, beforeEach } from "vitest";
+import { FS5 } from "../../src/fs/fs5.js";
+import { DirectoryWalker } from "../../src/fs/utils/walker.js";
+import { BatchOperations } from "../../src/fs/utils/batch.js";
+import { SimpleMockAPI, SimpleMockIdentity } from "../test-utils.js";
+
+describe("FS5.mount", () => {
+  let api: SimpleMockAPI;
+  let owner: FS5;
+  let teammate: FS5;
+
+  const names = async (fs: FS5, path: string) => {
+    const result: string[] = [];
+    for await (const item of fs.list(path)) {
+      result.push(item.name);
+    }
+    return result.sort();
+  };
+
+  beforeEach(async () => {
+    api = new SimpleMockAPI();
+    owner = new FS5(api as any, new SimpleMockIdentity() as any);
+    await owner.ensureIdentityInitialized();
+    teammate = new FS5(api as any, { fsRootKey: new Uint8Array(32).fill(7) } as any);
+    await teammate.ensureIdentityInitialized();
+
+    await owner.put("home/team/notes.md", "Meeting notes");
+    await owner.put("home/team/specs/api.json", { version: 2 });
+  });
+
+  test("list and get pass through a read-only mount", async () => {
+    await teammate.mount("home/shared/team", await owner.createShareLink("home/team"));
+
+    expect(await names(teammate, "home/shared/team")).toEqual(["notes.md", "specs"]);
+    expect(await teammate.get("home/shared/team/notes.md")).toBe("Meeting notes");
+    expect(await teammate.get("home/shared/team/specs/api.json")).toEqual({ version: 2 });
+
+    await owner.put("home/team/notes.md", "Updated notes");
+    expect(await teammate.get("home/shared/team/notes.md")).toBe("Updated notes");
+  });
+
+  test("stores the mount as a registry DirRef marked in extra", async () => {
+    await teammate.mount("home/shared/team", await owner.createShareLink("home/team"));
+
+    const parent = await (teammate as any)._loadDirectory("home/shared");
+    const dirRef = parent.dirs.get("team");
+    expect(dirRef.link.type).toBe("mutable_registry_ed25519");
+    expect(dirRef.link.publicKey).toEqual(await owner.getPublicDirectoryKey("home/team"));
+    expect(dirRef.extra.has("mount")).toBe(true);
+    expect(dirRef.extra.has("wrapped_write_key")).toBe(false);
+  });
+
+  test("read-only mounts reject writes", async () => {
+    await teammate.mount("home/shared/team", await owner.createShareLink("home/team"));
+
+    await expect(teammate.put("home/shared/team/new.txt", "x")).rejects.toThrow(
+      "Missing write access"
+    );
+    expect(await owner.get("home/team/new.txt")).toBeUndefined();
+  });
+
+  test("writable mounts write into the foreign tree", async () => {
+    await teammate.mount(
+      "home/shared/team",
+      await owner.createShareLink("home/team", { writable: true })
+    );
+
+    await teammate.put("home/shared/team/todo.txt", "Review specs");
+    await teammate.put("home/shared/team/specs/draft.md", "Draft");
+    await teammate.put("home/shared/team/new/deeper.txt", "Deep");
+
+    expect(await owner.get("home/team/todo.txt")).toBe("Review specs");
+    expect(await owner.get("home/team/specs/draft.md")).toBe("Draft");
+    expect(await owner.get("home/team/new/deeper.txt")).toBe("Deep");
+  });
+
+  test("mounts an encrypted directory using the key from the URI", async () => {
+    await teammate.mount("home/shared/owner-root", await owner.createShareLink(""));
+
+    const parent = await (teammate as any)._loadDirectory("home/shared");
+    expect(parent.dirs.get("owner-root").extra.get("mount").get("encryption_key")).toHaveLength(32);
+    expect(await names(teammate, "home/shared/owner-root")).toEqual(["archive", "home"]);
+    expect(await teammate.get("home/shared/owner-root/home/team/notes.md")).toBe("Meeting notes");
+  });
+
+  test("the walker and BatchOperations pass through the mount", async () => {
+    await teammate.mount("home/shared/team", await owner.createShareLink("home/team"));
+
+    const walked: string[] = [];
+    for await (const entry of new DirectoryWalker(teammate, "home/shared/team").walk()) {
+      walked.push(entry.path);
+    }
+    expect(walked.sort()).toEqual([
+      "home/shared/team/notes.md",
+      "home/shared/team/specs",
+      "home/shared/team/specs/api.json",
+    ]);
+
+    const result = await new BatchOperations(teammate).copyDirectory(
+      "home/shared/team",
+      "home/copy"
+    );
+    expect(result.failed).toBe(0);
+    expect(await teammate.get("home/copy/specs/api.json")).toEqual({ version: 2 });
+  });
+
+  test("moved mounts keep their access", async () => {
+    await teammate.mount("home/a/readonly", await owner.createShareLink("home/team"));
+    await teammate.mount(
+      "home/a/writable",
+      await owner.createShareLink("home/team/specs", { writable: true })
+    );
+
+    await teammate.move("home/a/readonly", "home/b/readonly");
+    await teammate.move("home/a/writable", "home/b/writable");
+
+    expect(await teammate.get("home/b/readonly/notes.md")).toBe("Meeting notes");
+    await expect(teammate.put("home/b/readonly/x.txt", "x")).rejects.toThrow(
+      "Missing write access"
+    );
+    await teammate.put("home/b/writable/moved.txt", "Still writable");
+    expect(await owner.get("home/team/specs/moved.txt")).toBe("Still writable");
+  });
+
+  test("mounts snapshots read-only", async () => {
+    await owner.snapshot("home/team", "archive/team-v1");
+
+    await teammate.mount("home/shared/v1", await owner.createShareLink("archive/team-v1"));
+
+    expect(await teammate.get("home/shared/v1/notes.md")).toBe("Meeting notes");
+    const parent = await (teammate as any)._loadDirectory("home/shared");
+    expect(parent.dirs.get("v1").link.type).toBe("fixed_hash_blake3");
+  });
+
+  test("rejects existing paths, top-level paths and invalid URIs", async () => {
+    const link = await owner.createShareLink("home/team");
+    await teammate.put("home/shared/team/local.txt", "Local");
+
+    await expect(teammate.mount("home/shared/team", link)).rejects.toThrow(
+      "Path already exists: home/shared/team"
+    );
+    await expect(teammate.mount("home", link)).rejects.toThrow(
+      "Cannot mount at the root or top-level directories"
+    );
+    await expect(teammate.mount("home/x", "https://example.com")).rejects.toThrow(
+      "Invalid fs5 URI"
+    );
+    await expect(teammate.mount("home/x", `${link}/notes.md`)).rejects.toThrow("Invalid fs5 URI");
+  });
+
+  test("rejects a write key that doesn't belong to the directory", async () => {
+    await teammate.put("home/mine/file.txt", "Mine");
+    const ownLink = await teammate.createShareLink("home/mine", { writable: true });
+    const foreign = await owner.createShareLink("home/team");
+    const forged = ownLink.replace(/@.*$/, `@${foreign.substring("fs5://".length)}`);
+
+    await expect(teammate.mount("home/shared/team", forged)).rejects.toThrow(
+      "Write key does not match the mounted directory"
+    );
+  });
+
+  test("unmount removes only the link", async () => {
+    await teammate.mount("home/shared/team", await owner.createShareLink("home/team"));
+
+    await teammate.unmount("home/shared/team");
+
+    expect(await names(teammate, "home/shared")).toEqual([]);
+    expect(await owner.get("home/team/notes.md")).toBe("Meeting notes");
+    await expect(teammate.unmount("home/shared/team")).rejects.toThrow(
+      "Not a mount point: home/shared/team"
+    );
+  });
+});
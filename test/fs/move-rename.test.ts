@@ -0,0 +1,138 @@
+import { describe, test, expect, beforeEach } from "vitest";
+import { FS5 } from "../../src/fs/fs5.js";
+import { SimpleMockAPI, SimpleMockIdentity } from "../test-utils.js";
+
+async function listNames(fs: FS5, path: string): Promise<string[]> {
+  const names: string[] = [];
+  for await (const item of fs.list(path)) {
+    names.push(item.name);
+  }
+  return names.sort();
+}
+
+describe("FS5 move and rename", () => {
+  let fs: FS5;
+  let api: SimpleMockAPI;
+
+  beforeEach(async () => {
+    api = new SimpleMockAPI();
+    fs = new FS5(api as any, new SimpleMockIdentity() as any);
+    await fs.ensureIdentityInitialized();
+  });
+
+  test("renames a file in place without changing its FileRef", async () => {
+    await fs.put("home/docs/draft.txt", "Hello");
+    const cidBefore = await (fs as any)._getFileFromDirectory(
+      await (fs as any)._loadDirectory("home/docs"),
+      "draft.txt"
+    );
+
+    await fs.rename("home/docs/draft.txt", "final.txt");
+
+    expect(await fs.get("home/docs/final.txt")).toBe("Hello");
+    expect(await fs.get("home/docs/draft.txt")).toBeUndefined();
+    const cidAfter = await (fs as any)._getFileFromDirectory(
+      await (fs as any)._loadDirectory("home/docs"),
+      "final.txt"
+    );
+    expect(cidAfter.hash).toEqual(cidBefore.hash);
+    expect(cidAfter.timestamp).toBe(cidBefore.timestamp);
+  });
+
+  test("moves a file across directories without re-uploading content", async () => {
+    const content = "x".repeat(1000);
+    await fs.put("home/a/file.txt", content);
+    await fs.put("home/b/seed.txt", "seed");
+
+    const blobsBefore = new Set((api as any).blobs.keys());
+    await fs.move("home/a/file.txt", "home/b/file.txt");
+
+    // Only directory blobs are written, the 1000-byte file blob is reused
+    for (const key of (api as any).blobs.keys()) {
+      if (!blobsBefore.has(key)) {
+        expect((api as any).blobs.get(key).length).not.toBe(1000);
+      }
+    }
+    expect(await fs.get("home/b/file.txt")).toBe(content);
+    expect(await listNames(fs, "home/a")).toEqual([]);
+  });
+
+  test("creates missing destination parents", async () => {
+    await fs.put("home/a/file.txt", "data");
+    await fs.move("home/a/file.txt", "home/new/nested/file.txt");
+    expect(await fs.get("home/new/nested/file.txt")).toBe("data");
+  });
+
+  test("moves a directory and keeps it writable", async () => {
+    await fs.put("home/projects/app/readme.txt", "readme");
+    await fs.put("home/projects/app/src/main.ts", "main source");
+    await fs.put("home/archive-target/seed.txt", "seed");
+
+    await fs.move("home/projects/app", "home/archive-target/app-old");
+
+    expect(await listNames(fs, "home/projects")).toEqual([]);
+    expect(await fs.get("home/archive-target/app-old/readme.txt")).toBe("readme");
+    expect(await fs.get("home/archive-target/app-old/src/main.ts")).toBe("main source");
+
+    // Writes to the moved directory and its children land in the same tree
+    await fs.put("home/archive-target/app-old/notes.txt", "notes");
+    await fs.put("home/archive-target/app-old/src/util.ts", "util source");
+    expect(await listNames(fs, "home/archive-target/app-old")).toEqual([
+      "notes.txt",
+      "readme.txt",
+      "src",
+    ]);
+    expect(await fs.get("home/archive-target/app-old/src/util.ts")).toBe("util source");
+  });
+
+  test("renamed directory keeps its registry key", async () => {
+    await fs.put("home/photos/a.jpg", new Uint8Array([1, 2, 3]));
+    const keyBefore = await fs.getPublicDirectoryKey("home/photos");
+
+    await fs.rename("home/photos", "pictures");
+
+    expect(await fs.getPublicDirectoryKey("home/pictures")).toEqual(keyBefore);
+    await fs.put("home/pictures/b.jpg", new Uint8Array([4]));
+    expect(await listNames(fs, "home/pictures")).toEqual(["a.jpg", "b.jpg"]);
+  });
+
+  test("moving a directory back to its original name drops the wrapped key", async () => {
+    await fs.put("home/photos/a.jpg", new Uint8Array([1]));
+    await fs.rename("home/photos", "pictures");
+    const moved = await fs.getMetadata("home/pictures");
+    expect(moved?.extra?.has("wrapped_write_key")).toBe(true);
+
+    await fs.rename("home/pictures", "photos");
+    const restored = await fs.getMetadata("home/photos");
+    expect(restored?.extra).toBeUndefined();
+    await fs.put("home/photos/b.jpg", new Uint8Array([2]));
+    expect(await listNames(fs, "home/photos")).toEqual(["a.jpg", "b.jpg"]);
+  });
+
+  test("throws when the destination already exists", async () => {
+    await fs.put("home/a.txt", "a");
+    await fs.put("home/b.txt", "b");
+    await expect(fs.move("home/a.txt", "home/b.txt")).rejects.toThrow(
+      "Destination already exists"
+    );
+    expect(await fs.get("home/a.txt")).toBe("a");
+  });
+
+  test("throws when the source does not exist", async () => {
+    await expect(fs.move("home/missing.txt", "home/other.txt")).rejects.toThrow(
+      "Path not found"
+    );
+  });
+
+  test("refuses to move a directory into itself", async () => {
+    await fs.put("home/dir/file.txt", "x");
+    await expect(fs.move("home/dir", "home/dir/sub/dir")).rejects.toThrow(
+      "into itself"
+    );
+  });
+
+  test("rejects names containing slashes", async () => {
+    await fs.put("home/a.txt", "a");
+    await expect(fs.rename("home/a.txt", "x/y.txt")).rejects.toThrow("Invalid name");
+  });
+});
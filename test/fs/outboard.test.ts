@@ -0,0 +1,130 @@
+import { describe, test, expect, beforeEach } from "vitest";
+import { FS5 } from "../../src/fs/fs5.js";
+import { BAO_CHUNK_GROUP_SIZE } from "../../src/util/bao.js";
+import { SimpleMockAPI, SimpleMockIdentity } from "../test-utils.js";
+
+class RangeMockAPI extends SimpleMockAPI {
+  ranges: [number, number][] = [];
+
+  async uploadBlobStream(stream: ReadableStream<Uint8Array>) {
+    return this.uploadBlob(await new Response(stream).blob());
+  }
+
+  async downloadBlobRange(hash: Uint8Array, offset: number, length: number): Promise<Uint8Array> {
+    this.ranges.push([offset, length]);
+    return (await this.downloadBlobAsBytes(hash)).slice(offset, offset + length);
+  }
+
+  corrupt(hash: Uint8Array, offset: number) {
+    this.blobs.get(Buffer.from(hash).toString("hex"))![offset] ^= 0xff;
+  }
+}
+
+describe("FS5 Bao outboards", () => {
+  const G = BAO_CHUNK_GROUP_SIZE;
+  let api: RangeMockAPI;
+  let fs: FS5;
+
+  const data = (size: number) => new Uint8Array(size).map((_, i) => (i * 7 + (i >> 12)) % 256);
+  const fileRefOf = async (path: string) => {
+    const segments = path.split("/");
+    const dir = await (fs as any)._loadDirectory(segments.slice(0, -1).join("/"));
+    return dir.files.get(segments[segments.length - 1]);
+  };
+
+  beforeEach(async () => {
+    api = new RangeMockAPI();
+    fs = new FS5(api as any, new SimpleMockIdentity() as any);
+    await fs.ensureIdentityInitialized();
+  });
+
+  test("stores an outboard and verifies downloads group by group", async () => {
+    const content = data(3 * G + 100);
+    await fs.put("home/video.bin", content, { outboard: true });
+
+    const fileRef = await fileRefOf("home/video.bin");
+    const outboard = await api.downloadBlobAsBytes(fileRef.extra.get("bao"));
+    expect(outboard).toHaveLength(8 + 3 * 64);
+
+    expect(await fs.getBytes("home/video.bin")).toEqual(content);
+    expect(api.ranges).toEqual([[0, 3 * G + 100]]);
+  });
+
+  test("uses the FS5 outboard option and skips single group files", async () => {
+    fs = new FS5(api as any, new SimpleMockIdentity() as any, { outboard: true });
+    await fs.put("home/large.bin", data(G + 1));
+    await fs.put("home/small.bin", data(G));
+    await fs.put("home/opt-out.bin", data(G + 1), { outboard: false });
+
+    expect((await fileRefOf("home/large.bin")).extra.has("bao")).toBe(true);
+    expect((await fileRefOf("home/small.bin")).extra.has("bao")).toBe(false);
+    expect((await fileRefOf("home/opt-out.bin")).extra.has("bao")).toBe(false);
+  });
+
+  test("rejects corrupted data before downloading the rest", async () => {
+    const content = data(40 * G);
+    await fs.put("home/big.bin", content, { outboard: true });
+    api.corrupt((await fileRefOf("home/big.bin")).hash, 5 * G + 17);
+
+    await expect(fs.getBytes("home/big.bin")).rejects.toThrow(
+      "Bao verification failed for chunk group 5"
+    );
+    expect(api.ranges).toEqual([[0, 16 * G]]);
+  });
+
+  test("verifies range reads", async () => {
+    const content = data(4 * G);
+    await fs.put("home/video.bin", content, { outboard: true });
+    api.corrupt((await fileRefOf("home/video.bin")).hash, 3 * G + 5);
+
+    expect(await fs.getRange("home/video.bin", G + 10, 1000)).toEqual(
+      content.slice(G + 10, G + 1010)
+    );
+    expect(api.ranges).toEqual([[G, G]]);
+    expect(await fs.getRange("home/video.bin", 2 * G - 10, 20)).toEqual(
+      content.slice(2 * G - 10, 2 * G + 10)
+    );
+    await expect(fs.getRange("home/video.bin", 3 * G, 10)).rejects.toThrow(
+      "Bao verification failed for chunk group 3"
+    );
+  });
+
+  test("covers the ciphertext of encrypted files", async () => {
+    const content = data(2 * G + 500);
+    await fs.put("home/secret.bin", content, {
+      outboard: true,
+      encryption: { algorithm: "xchacha20-poly1305" },
+    });
+
+    expect(await fs.getBytes("home/secret.bin")).toEqual(content);
+    expect(await fs.getRange("home/secret.bin", G - 5, 10)).toEqual(content.slice(G - 5, G + 5));
+
+    api.corrupt((await fileRefOf("home/secret.bin")).hash, 100);
+    await expect(fs.getBytes("home/secret.bin")).rejects.toThrow(
+      "Bao verification failed for chunk group 0"
+    );
+  });
+
+  test("putStream builds the outboard while uploading", async () => {
+    const content = data(2 * G + 3);
+    await fs.putStream("home/stream.bin", new Blob([content]).stream(), { outboard: true });
+
+    expect((await fileRefOf("home/stream.bin")).extra.has("bao")).toBe(true);
+    expect(await fs.getBytes("home/stream.bin")).toEqual(content);
+  });
+
+  test("rotateKeys renews the outboard of re-encrypted files", async () => {
+    const content = data(2 * G);
+    await fs.put("home/team/secret.bin", content, {
+      outboard: true,
+      encryption: { algorithm: "xchacha20-poly1305" },
+    });
+    const before = await fileRefOf("home/team/secret.bin");
+
+    await fs.rotateKeys("home/team", { reencryptFiles: true });
+
+    const after = await fileRefOf("home/team/secret.bin");
+    expect(after.extra.get("bao")).not.toEqual(before.extra.get("bao"));
+    expect(await fs.getBytes("home/team/secret.bin")).toEqual(content);
+  });
+});
@@ -0,0 +1,100 @@
+import { describe, test, expect, beforeEach } from "vitest";
+import { FS5 } from "../../src/fs/fs5.js";
+import { PublicFS5 } from "../../src/fs/public-fs5.js";
+import { SimpleMockAPI, SimpleMockIdentity } from "../test-utils.js";
+
+describe("PublicFS5", () => {
+  let api: SimpleMockAPI;
+  let publisher: FS5;
+  let publicFs: PublicFS5;
+
+  beforeEach(async () => {
+    api = new SimpleMockAPI();
+    publisher = new FS5(api as any, new SimpleMockIdentity() as any);
+    await publisher.ensureIdentityInitialized();
+
+    await publisher.put("home/site/index.html", "<h1>Hello</h1>");
+    await publisher.put("home/site/posts/first.md", "# First post");
+    await publisher.put("home/site/posts/images/cover.png", new Uint8Array(64), {
+      mediaType: "image/png",
+    });
+
+    publicFs = new PublicFS5(api as any, await publisher.getPublicDirectoryKey("home/site"));
+  });
+
+  test("lists the public directory and its subdirectories", async () => {
+    const root: string[] = [];
+    for await (const item of publicFs.list("")) {
+      root.push(`${item.type}:${item.name}`);
+    }
+    expect(root.sort()).toEqual(["directory:posts", "file:index.html"]);
+
+    const posts: string[] = [];
+    for await (const item of publicFs.list("posts")) {
+      posts.push(item.name);
+    }
+    expect(posts.sort()).toEqual(["first.md", "images"]);
+  });
+
+  test("reads files", async () => {
+    expect(await publicFs.get("index.html")).toBe("<h1>Hello</h1>");
+    expect(await publicFs.get("posts/first.md")).toBe("# First post");
+    expect(await publicFs.getBytes("posts/images/cover.png")).toEqual(new Uint8Array(64));
+    expect(await publicFs.get("missing.txt")).toBeUndefined();
+  });
+
+  test("returns FileRef metadata and directory stats", async () => {
+    const file = await publicFs.getMetadata("posts/images/cover.png");
+    expect(file).toMatchObject({ type: "file", name: "cover.png", size: 64, mediaType: "image/png" });
+
+    const dir = await publicFs.getMetadata("posts");
+    expect(dir).toMatchObject({ type: "directory", name: "posts", fileCount: 1, directoryCount: 1 });
+
+    expect(await publicFs.getMetadata("missing")).toBeUndefined();
+  });
+
+  test("walks the tree with paths relative to the public directory", async () => {
+    const entries: string[] = [];
+    for await (const entry of publicFs.walk()) {
+      entries.push(entry.path);
+    }
+    expect(entries.sort()).toEqual([
+      "index.html",
+      "posts",
+      "posts/first.md",
+      "posts/images",
+      "posts/images/cover.png",
+    ]);
+
+    const files: string[] = [];
+    for await (const entry of publicFs.walk("posts", { includeDirectories: false })) {
+      files.push(entry.path);
+    }
+    expect(files.sort()).toEqual(["posts/first.md", "posts/images/cover.png"]);
+  });
+
+  test("counts files and sizes", async () => {
+    const stats = await publicFs.count();
+    expect(stats).toEqual({
+      files: 3,
+      directories: 2,
+      totalSize: "<h1>Hello</h1>".length + "# First post".length + 64,
+    });
+  });
+
+  test("sees updates made by the publisher", async () => {
+    await publisher.put("home/site/index.html", "<h1>Updated</h1>");
+    expect(await publicFs.get("index.html")).toBe("<h1>Updated</h1>");
+  });
+
+  test("is read-only and needs no identity", () => {
+    expect((publicFs as any).put).toBeUndefined();
+    expect((publicFs as any).fs5.identity).toBeUndefined();
+  });
+
+  test("rejects public keys that aren't 32 bytes", () => {
+    expect(() => new PublicFS5(api as any, new Uint8Array(33))).toThrow(
+      "publicKey must be exactly 32 bytes"
+    );
+  });
+});
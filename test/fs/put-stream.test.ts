@@ -0,0 +1,130 @@
+import { describe, test, expect, beforeEach } from "vitest";
+import { FS5 } from "../../src/fs/fs5.js";
+import { BlobIdentifier } from "../../src/identifier/blob.js";
+import { SimpleMockAPI, SimpleMockIdentity } from "../test-utils.js";
+
+// SimpleMockAPI that consumes uploaded streams chunk by chunk
+class StreamMockAPI extends SimpleMockAPI {
+  streamedChunkSizes: number[] = [];
+
+  async uploadBlobStream(stream: ReadableStream<Uint8Array>): Promise<BlobIdentifier> {
+    const hasher = this.crypto.newHasherBlake3();
+    const parts: Uint8Array[] = [];
+    let size = 0;
+    const reader = stream.getReader();
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) break;
+      this.streamedChunkSizes.push(value.length);
+      hasher.update(value);
+      parts.push(value);
+      size += value.length;
+    }
+    const hash = hasher.digest();
+    this.blobs.set(Buffer.from(hash).toString("hex"), new Uint8Array(Buffer.concat(parts)));
+    return new BlobIdentifier(new Uint8Array([0x1e, ...hash]), size);
+  }
+
+  async downloadBlobRange(hash: Uint8Array, offset: number, length: number): Promise<Uint8Array> {
+    const data = await this.downloadBlobAsBytes(hash);
+    return data.slice(offset, offset + length);
+  }
+}
+
+function patternBytes(size: number): Uint8Array {
+  const data = new Uint8Array(size);
+  for (let i = 0; i < size; i++) {
+    data[i] = (i * 31 + 7) % 251;
+  }
+  return data;
+}
+
+// Emits `data` lazily in pieces of `pieceSize` bytes
+function streamOf(data: Uint8Array, pieceSize: number): ReadableStream<Uint8Array> {
+  let offset = 0;
+  return new ReadableStream<Uint8Array>({
+    pull(controller) {
+      if (offset >= data.length) {
+        controller.close();
+        return;
+      }
+      controller.enqueue(data.slice(offset, offset + pieceSize));
+      offset += pieceSize;
+    },
+  });
+}
+
+const CHUNK = 262144;
+
+describe("FS5.putStream", () => {
+  let fs: FS5;
+  let api: StreamMockAPI;
+
+  beforeEach(async () => {
+    api = new StreamMockAPI();
+    fs = new FS5(api as any, new SimpleMockIdentity() as any);
+    await fs.ensureIdentityInitialized();
+  });
+
+  test("stores a plain stream that reads back unchanged", async () => {
+    const data = patternBytes(300000);
+    await fs.putStream("home/media/clip.bin", streamOf(data, 70000));
+
+    expect(await fs.get("home/media/clip.bin")).toEqual(data);
+    const metadata = await fs.getMetadata("home/media/clip.bin");
+    expect(metadata?.size).toBe(300000);
+    expect(metadata?.mediaType).toBe("application/octet-stream");
+  });
+
+  test("passes source chunks through without buffering the whole file", async () => {
+    await fs.putStream("home/clip.bin", streamOf(patternBytes(500000), 50000));
+    expect(api.streamedChunkSizes.length).toBe(10);
+    expect(Math.max(...api.streamedChunkSizes)).toBe(50000);
+  });
+
+  test("encrypts chunk by chunk in the layout get and getRange understand", async () => {
+    const data = patternBytes(CHUNK * 2 + 1000);
+    await fs.putStream("home/secret.bin", streamOf(data, 100000), {
+      encryption: { algorithm: "xchacha20-poly1305" },
+    });
+
+    expect(api.streamedChunkSizes).toEqual([CHUNK + 16, CHUNK + 16, 1000 + 16]);
+    expect(await fs.get("home/secret.bin")).toEqual(data);
+    expect(await fs.getRange("home/secret.bin", CHUNK - 10, 20)).toEqual(
+      data.slice(CHUNK - 10, CHUNK + 10)
+    );
+  });
+
+  test("records the plaintext size and hash for encrypted streams", async () => {
+    const data = patternBytes(5000);
+    const key = new Uint8Array(32).fill(7);
+    await fs.putStream("home/secret.bin", streamOf(data, 1024), {
+      encryption: { algorithm: "xchacha20-poly1305", key },
+    });
+
+    const fileRef = (await (fs as any)._loadDirectory("home")).files.get("secret.bin");
+    // Encryption metadata comes back from CBOR as a Map
+    const encryption = fileRef.extra.get("encryption") as Map<string, any>;
+    expect(Number(fileRef.size)).toBe(5000);
+    expect(new Uint8Array(encryption.get("key"))).toEqual(key);
+    expect(new Uint8Array(encryption.get("plaintextHash"))).toEqual(await api.crypto.hashBlake3(data));
+  });
+
+  test("uses the media type option over the file extension", async () => {
+    await fs.putStream("home/notes.txt", streamOf(patternBytes(10), 10), {
+      mediaType: "application/x-custom",
+    });
+    expect((await fs.getMetadata("home/notes.txt"))?.mediaType).toBe("application/x-custom");
+  });
+
+  test("stores an empty stream", async () => {
+    await fs.putStream("home/empty.bin", streamOf(new Uint8Array(0), 1));
+    expect((await fs.getMetadata("home/empty.bin"))?.size).toBe(0);
+  });
+
+  test("rejects the root path", async () => {
+    await expect(fs.putStream("", streamOf(patternBytes(1), 1))).rejects.toThrow(
+      "Cannot put data at root directory"
+    );
+  });
+});
@@ -0,0 +1,106 @@
+import { describe, test, expect, beforeEach } from "vitest";
+import { FS5 } from "../../src/fs/fs5.js";
+import { SimpleMockAPI, SimpleMockIdentity } from "../test-utils.js";
+
+// SimpleMockAPI with a range download that records the requested byte ranges
+class RangeMockAPI extends SimpleMockAPI {
+  rangeRequests: Array<{ offset: number; length: number }> = [];
+
+  async downloadBlobRange(hash: Uint8Array, offset: number, length: number): Promise<Uint8Array> {
+    this.rangeRequests.push({ offset, length });
+    const data = await this.downloadBlobAsBytes(hash);
+    return data.slice(offset, offset + length);
+  }
+}
+
+function patternBytes(size: number): Uint8Array {
+  const data = new Uint8Array(size);
+  for (let i = 0; i < size; i++) {
+    data[i] = (i * 31 + 7) % 251;
+  }
+  return data;
+}
+
+const CHUNK = 262144;
+
+describe("FS5.getRange", () => {
+  let fs: FS5;
+  let api: RangeMockAPI;
+
+  beforeEach(async () => {
+    api = new RangeMockAPI();
+    fs = new FS5(api as any, new SimpleMockIdentity() as any);
+    await fs.ensureIdentityInitialized();
+  });
+
+  test("reads a range of a plain file with a single range request", async () => {
+    const data = patternBytes(10000);
+    await fs.put("home/data.bin", data);
+
+    const result = await fs.getRange("home/data.bin", 1234, 500);
+    expect(result).toEqual(data.slice(1234, 1734));
+    expect(api.rangeRequests).toEqual([{ offset: 1234, length: 500 }]);
+  });
+
+  test("reads to the end of the file when length is omitted", async () => {
+    const data = patternBytes(2048);
+    await fs.put("home/data.bin", data);
+    expect(await fs.getRange("home/data.bin", 2000)).toEqual(data.slice(2000));
+  });
+
+  test("clamps ranges that extend past the end of the file", async () => {
+    const data = patternBytes(100);
+    await fs.put("home/data.bin", data);
+    expect(await fs.getRange("home/data.bin", 90, 50)).toEqual(data.slice(90));
+    expect(await fs.getRange("home/data.bin", 500, 10)).toEqual(new Uint8Array(0));
+  });
+
+  test("returns undefined for missing files", async () => {
+    expect(await fs.getRange("home/missing.bin", 0, 10)).toBeUndefined();
+  });
+
+  test("rejects negative offsets and lengths", async () => {
+    await fs.put("home/data.bin", patternBytes(10));
+    await expect(fs.getRange("home/data.bin", -1, 5)).rejects.toThrow("Invalid range offset");
+    await expect(fs.getRange("home/data.bin", 0, -5)).rejects.toThrow("Invalid range length");
+  });
+
+  describe("encrypted files", () => {
+    const size = CHUNK * 2 + 5000;
+    let data: Uint8Array;
+
+    beforeEach(async () => {
+      data = patternBytes(size);
+      await fs.put("home/video.bin", data, {
+        encryption: { algorithm: "xchacha20-poly1305" },
+      });
+      api.rangeRequests = [];
+    });
+
+    test("decrypts a range inside a single chunk", async () => {
+      const result = await fs.getRange("home/video.bin", CHUNK + 100, 1000);
+      expect(result).toEqual(data.slice(CHUNK + 100, CHUNK + 1100));
+      // Only the second encrypted chunk is fetched
+      expect(api.rangeRequests).toEqual([{ offset: CHUNK + 16, length: CHUNK + 16 }]);
+    });
+
+    test("decrypts a range spanning a chunk boundary", async () => {
+      const result = await fs.getRange("home/video.bin", CHUNK - 10, 20);
+      expect(result).toEqual(data.slice(CHUNK - 10, CHUNK + 10));
+      expect(api.rangeRequests).toEqual([{ offset: 0, length: 2 * (CHUNK + 16) }]);
+    });
+
+    test("decrypts a range in the short final chunk", async () => {
+      const result = await fs.getRange("home/video.bin", size - 300);
+      expect(result).toEqual(data.slice(size - 300));
+      expect(api.rangeRequests).toEqual([
+        { offset: 2 * (CHUNK + 16), length: 5000 + 16 },
+      ]);
+    });
+
+    test("matches a full get of the file", async () => {
+      const full = await fs.get("home/video.bin");
+      expect(await fs.getRange("home/video.bin", 0)).toEqual(full);
+    });
+  });
+});
@@ -0,0 +1,147 @@
+import { describe, test, expect, beforeEach } from "vitest";
+import { FS5 } from "../../src/fs/fs5.js";
+import { DirV1Serialiser } from "../../src/fs/dirv1/serialisation.js";
+import { DirectoryWalker } from "../../src/fs/utils/walker.js";
+import { SimpleMockAPI, SimpleMockIdentity } from "../test-utils.js";
+
+// SimpleMockAPI that records which registry keys were written, in order
+class RecordingMockAPI extends SimpleMockAPI {
+  registrySetKeys: string[] = [];
+
+  async registrySet(entry: any): Promise<void> {
+    this.registrySetKeys.push(Buffer.from(entry.pk).toString("hex"));
+    await super.registrySet(entry);
+  }
+}
+
+async function listNames(fs: FS5, path: string): Promise<string[]> {
+  const names: string[] = [];
+  for await (const item of fs.list(path)) {
+    names.push(item.name);
+  }
+  return names.sort();
+}
+
+describe("DirLink serialisation", () => {
+  test("keeps resolver and mutable registry links apart", () => {
+    const key = new Uint8Array(32).fill(9);
+    const resolver = DirV1Serialiser.serialiseDirLink({ type: "resolver_registry", publicKey: key });
+    const mutable = DirV1Serialiser.serialiseDirLink({ type: "mutable_registry_ed25519", publicKey: key });
+
+    expect(resolver[0]).toBe(0x25);
+    expect(mutable[0]).toBe(0xed);
+    expect(DirV1Serialiser.deserialiseDirLink(resolver)).toEqual({ type: "resolver_registry", publicKey: key });
+    expect(DirV1Serialiser.deserialiseDirLink(mutable)).toEqual({ type: "mutable_registry_ed25519", publicKey: key });
+  });
+});
+
+describe("Resolver links", () => {
+  let fs: FS5;
+  let api: RecordingMockAPI;
+
+  beforeEach(async () => {
+    api = new RecordingMockAPI();
+    fs = new FS5(api as any, new SimpleMockIdentity() as any);
+    await fs.ensureIdentityInitialized();
+    await fs.put("home/releases/v1/notes.txt", "Release one");
+    await fs.put("home/releases/v2/notes.txt", "Release two");
+    await fs.put("home/releases/v2/extra/changes.txt", "Changes");
+  });
+
+  test("are followed by get, list and getMetadata", async () => {
+    await fs.createResolverLink("home/current", "home/releases/v1");
+
+    expect(await fs.get("home/current/notes.txt")).toBe("Release one");
+    expect(await listNames(fs, "home/current")).toEqual(["notes.txt"]);
+    expect((await fs.getMetadata("home/current/notes.txt"))?.size).toBe(11);
+    expect((await fs.getMetadata("home/current"))?.type).toBe("directory");
+  });
+
+  test("are stored as resolver_registry links", async () => {
+    await fs.createResolverLink("home/current", "home/releases/v1");
+    const home = await (fs as any)._loadDirectory("home");
+    expect(home.dirs.get("current").link.type).toBe("resolver_registry");
+  });
+
+  test("can be retargeted without rewriting the parent directory", async () => {
+    await fs.createResolverLink("home/current", "home/releases/v1");
+    api.registrySetKeys = [];
+
+    await fs.updateResolverLink("home/current", "home/releases/v2");
+
+    expect(api.registrySetKeys.length).toBe(1);
+    expect(await fs.get("home/current/notes.txt")).toBe("Release two");
+    expect(await fs.get("home/current/extra/changes.txt")).toBe("Changes");
+  });
+
+  test("see later changes to a mutable target", async () => {
+    await fs.createResolverLink("home/current", "home/releases/v1");
+    await fs.put("home/releases/v1/hotfix.txt", "Hotfix");
+    expect(await listNames(fs, "home/current")).toEqual(["hotfix.txt", "notes.txt"]);
+  });
+
+  test("can point at a snapshot", async () => {
+    const hash = await fs.snapshot("home/releases/v2");
+    await fs.createResolverLink("home/stable", { type: "fixed_hash_blake3", hash });
+
+    await fs.put("home/releases/v2/notes.txt", "Release two, edited");
+    expect(await fs.get("home/stable/notes.txt")).toBe("Release two");
+  });
+
+  test("are walked by DirectoryWalker", async () => {
+    await fs.createResolverLink("home/current", "home/releases/v2");
+    const paths: string[] = [];
+    for await (const entry of new DirectoryWalker(fs, "home/current").walk()) {
+      paths.push(entry.path);
+    }
+    expect(paths.sort()).toEqual([
+      "home/current/extra",
+      "home/current/extra/changes.txt",
+      "home/current/notes.txt",
+    ]);
+  });
+
+  test("follow chains of resolver links", async () => {
+    await fs.createResolverLink("home/current", "home/releases/v1");
+    await fs.createResolverLink("home/alias", "home/current");
+
+    expect(await fs.get("home/alias/notes.txt")).toBe("Release one");
+    await fs.updateResolverLink("home/current", "home/releases/v2");
+    expect(await fs.get("home/alias/notes.txt")).toBe("Release two");
+  });
+
+  test("stay updatable after being moved", async () => {
+    await fs.createResolverLink("home/current", "home/releases/v1");
+    await fs.move("home/current", "home/releases/latest");
+
+    await fs.updateResolverLink("home/releases/latest", "home/releases/v2");
+    expect(await fs.get("home/releases/latest/notes.txt")).toBe("Release two");
+  });
+
+  test("are frozen at their current target by snapshot", async () => {
+    await fs.createResolverLink("home/releases/current", "home/releases/v1");
+    await fs.snapshot("home/releases", "archive/releases");
+    await fs.updateResolverLink("home/releases/current", "home/releases/v2");
+
+    const archive = await (fs as any)._loadDirectory("archive/releases");
+    expect(archive.dirs.get("current").link.type).toBe("fixed_hash_blake3");
+    expect(await fs.get("archive/releases/current/notes.txt")).toBe("Release one");
+  });
+
+  test("are read-only", async () => {
+    await fs.createResolverLink("home/current", "home/releases/v1");
+    await expect(fs.put("home/current/new.txt", "Nope")).rejects.toThrow("Missing write access");
+  });
+
+  test("reject existing names, unknown targets and non-resolver updates", async () => {
+    await expect(fs.createResolverLink("home/releases", "home/releases/v1")).rejects.toThrow(
+      "Destination already exists: home/releases"
+    );
+    await expect(fs.createResolverLink("home/current", "home/missing")).rejects.toThrow(
+      "Path not found: home/missing"
+    );
+    await expect(fs.updateResolverLink("home/releases/v1", "home/releases/v2")).rejects.toThrow(
+      "Not a resolver link: home/releases/v1"
+    );
+  });
+});
@@ -0,0 +1,207 @@
+import { describe, test, expect, beforeEach } from "vitest";
+import { FS5 } from "../../src/fs/fs5.js";
+import { SimpleMockAPI, SimpleMockIdentity } from "../test-utils.js";
+
+describe("FS5.rotateKeys", () => {
+  let api: SimpleMockAPI;
+  let owner: FS5;
+  let alice: FS5;
+
+  const names = async (list: AsyncIterable<{ name: string }>) => {
+    const result: string[] = [];
+    for await (const item of list) {
+      result.push(item.name);
+    }
+    return result.sort();
+  };
+  const dirRefOf = async (fs: FS5, path: string) => {
+    const segments = path.split("/");
+    const parent = await (fs as any)._loadDirectory(segments.slice(0, -1).join("/"));
+    return parent.dirs.get(segments[segments.length - 1]);
+  };
+  const fileRefOf = async (fs: FS5, path: string) => {
+    const segments = path.split("/");
+    const dir = await (fs as any)._loadDirectory(segments.slice(0, -1).join("/"));
+    return dir.files.get(segments[segments.length - 1]);
+  };
+
+  beforeEach(async () => {
+    api = new SimpleMockAPI();
+    owner = new FS5(api as any, new SimpleMockIdentity() as any);
+    await owner.ensureIdentityInitialized();
+    alice = new FS5(api as any, { fsRootKey: new Uint8Array(32).fill(1) } as any);
+    await alice.ensureIdentityInitialized();
+
+    await owner.put("home/team/notes.md", "Meeting notes");
+    await owner.put("home/team/specs/draft.md", "Draft");
+    await owner.put("home/team/specs/old/v1.md", "Version 1");
+  });
+
+  test("moves the directory to a new registry key and keeps its content", async () => {
+    const before = await dirRefOf(owner, "home/team");
+
+    await owner.rotateKeys("home/team");
+
+    const after = await dirRefOf(owner, "home/team");
+    expect(after.link.type).toBe("mutable_registry_ed25519");
+    expect(after.link.publicKey).not.toEqual(before.link.publicKey);
+    expect(after.extra.has("encryption_key")).toBe(false);
+    expect(after.extra.get("wrapped_encryption_key")).toBeInstanceOf(Uint8Array);
+    expect(await names(owner.list("home/team"))).toEqual(["notes.md", "specs"]);
+    expect(await owner.get("home/team/notes.md")).toBe("Meeting notes");
+    expect(await owner.get("home/team/specs/old/v1.md")).toBe("Version 1");
+  });
+
+  test("stores the rotated directory encrypted", async () => {
+    await owner.rotateKeys("home/team");
+
+    const publicKey = (await dirRefOf(owner, "home/team")).link.publicKey;
+    const entry = await api.registryGet(new Uint8Array([0xed, ...publicKey]));
+    const blob = await api.downloadBlobAsBytes(entry.data.subarray(1));
+    expect(blob[0]).toBe(0x8d);
+    expect(new TextDecoder().decode(blob)).not.toContain("notes.md");
+  });
+
+  test("old share links stop seeing new content", async () => {
+    const readLink = await owner.createShareLink("home/team");
+    const writeLink = await owner.grantWriteAccess("home/team");
+
+    await owner.rotateKeys("home/team");
+    await owner.put("home/team/after.md", "After rotation");
+
+    const oldRead = await alice.openShared(readLink);
+    expect(await names(oldRead.list(""))).toEqual(["notes.md", "specs"]);
+
+    const oldWrite = await alice.openShared(writeLink);
+    await oldWrite.put("intruder.md", "Should not appear");
+    expect(await names(owner.list("home/team"))).toEqual(["after.md", "notes.md", "specs"]);
+  });
+
+  test("new share links see the rotated directory", async () => {
+    await owner.rotateKeys("home/team");
+    await owner.put("home/team/after.md", "After rotation");
+
+    const shared = await alice.openShared(await owner.createShareLink("home/team"));
+    expect(await names(shared.list(""))).toEqual(["after.md", "notes.md", "specs"]);
+    expect(await shared.get("specs/draft.md")).toBe("Draft");
+
+    const writable = await alice.openShared(await owner.grantWriteAccess("home/team"));
+    await writable.put("specs/alice.md", "From Alice");
+    expect(await owner.get("home/team/specs/alice.md")).toBe("From Alice");
+  });
+
+  test("keeps the keys of subdirectories unless recursive", async () => {
+    const specs = await dirRefOf(owner, "home/team/specs");
+
+    await owner.rotateKeys("home/team");
+
+    expect((await dirRefOf(owner, "home/team/specs")).link.publicKey).toEqual(specs.link.publicKey);
+    await owner.put("home/team/specs/new.md", "New spec");
+    expect(await owner.get("home/team/specs/new.md")).toBe("New spec");
+  });
+
+  test("rotates the keys of all subdirectories when recursive", async () => {
+    const specs = await dirRefOf(owner, "home/team/specs");
+    const old = await dirRefOf(owner, "home/team/specs/old");
+    const specsLink = await owner.createShareLink("home/team/specs");
+
+    await owner.rotateKeys("home/team", { recursive: true });
+
+    expect((await dirRefOf(owner, "home/team/specs")).link.publicKey).not.toEqual(
+      specs.link.publicKey
+    );
+    expect((await dirRefOf(owner, "home/team/specs/old")).link.publicKey).not.toEqual(
+      old.link.publicKey
+    );
+    expect(await owner.get("home/team/specs/old/v1.md")).toBe("Version 1");
+
+    await owner.put("home/team/specs/old/v2.md", "Version 2");
+    expect(await owner.get("home/team/specs/old/v2.md")).toBe("Version 2");
+    const oldShared = await alice.openShared(specsLink);
+    expect(await names(oldShared.list("old"))).toEqual(["v1.md"]);
+  });
+
+  test("re-encrypts files with their own key when asked", async () => {
+    const secret = new Uint8Array([1, 2, 3, 4, 5]);
+    await owner.put("home/team/secret.bin", secret, {
+      encryption: { algorithm: "xchacha20-poly1305" },
+    });
+    const encrypted = await fileRefOf(owner, "home/team/secret.bin");
+    const plain = await fileRefOf(owner, "home/team/notes.md");
+
+    await owner.rotateKeys("home/team", { reencryptFiles: true });
+
+    const reencrypted = await fileRefOf(owner, "home/team/secret.bin");
+    expect(reencrypted.hash).not.toEqual(encrypted.hash);
+    expect(reencrypted.extra.get("encryption").get("key")).not.toEqual(
+      encrypted.extra.get("encryption").get("key")
+    );
+    expect((await fileRefOf(owner, "home/team/notes.md")).hash).toEqual(plain.hash);
+    expect(await owner.getBytes("home/team/secret.bin")).toEqual(secret);
+  });
+
+  test("leaves encrypted files alone by default", async () => {
+    await owner.put("home/team/secret.bin", new Uint8Array([1, 2, 3]), {
+      encryption: { algorithm: "xchacha20-poly1305" },
+    });
+    const encrypted = await fileRefOf(owner, "home/team/secret.bin");
+
+    await owner.rotateKeys("home/team", { recursive: true });
+
+    expect((await fileRefOf(owner, "home/team/secret.bin")).hash).toEqual(encrypted.hash);
+  });
+
+  test("mounts inside the directory keep working", async () => {
+    await alice.put("home/shared/readme.md", "Alice's readme");
+    await owner.mount("home/team/alice", await alice.createShareLink("home/shared"));
+
+    await owner.rotateKeys("home/team", { recursive: true });
+
+    expect(await owner.get("home/team/alice/readme.md")).toBe("Alice's readme");
+  });
+
+  test("rewraps the encryption key when the directory moves or its parent rotates", async () => {
+    await owner.rotateKeys("home/team/specs");
+    await owner.rotateKeys("home/team");
+    expect(await owner.get("home/team/specs/draft.md")).toBe("Draft");
+
+    await owner.move("home/team/specs", "home/projects/specs");
+    expect(await owner.get("home/projects/specs/old/v1.md")).toBe("Version 1");
+  });
+
+  test("fails instead of dropping writes made during the rotation", async () => {
+    const other = new FS5(api as any, new SimpleMockIdentity() as any);
+    const registrySet = api.registrySet.bind(api);
+    let wrote = false;
+    api.registrySet = async (entry: any) => {
+      await registrySet(entry);
+      if (!wrote) {
+        // The first registry write of the rotation publishes the copy
+        wrote = true;
+        await other.put("home/team/specs/late.md", "Written during rotation");
+      }
+    };
+
+    await expect(owner.rotateKeys("home/team", { recursive: true })).rejects.toThrow(
+      "Directory was modified during key rotation: home/team/specs"
+    );
+    api.registrySet = registrySet;
+    expect(await owner.get("home/team/specs/late.md")).toBe("Written during rotation");
+  });
+
+  test("rejects the root, top-level directories, missing paths and mounts", async () => {
+    await expect(owner.rotateKeys("")).rejects.toThrow(
+      "Cannot rotate keys of the root or top-level directories"
+    );
+    await expect(owner.rotateKeys("home")).rejects.toThrow(
+      "Cannot rotate keys of the root or top-level directories"
+    );
+    await expect(owner.rotateKeys("home/missing")).rejects.toThrow("Path not found: home/missing");
+
+    await alice.put("home/shared/readme.md", "Alice's readme");
+    await owner.mount("home/team/alice", await alice.createShareLink("home/shared"));
+    await expect(owner.rotateKeys("home/team/alice")).rejects.toThrow(
+      "Cannot rotate keys of a linked or mounted directory: home/team/alice"
+    );
+  });
+});
@@ -0,0 +1,129 @@
+import { describe, test, expect, beforeEach } from "vitest";
+import { FS5 } from "../../src/fs/fs5.js";
+import { SimpleMockAPI, SimpleMockIdentity } from "../test-utils.js";
+
+describe("Share links", () => {
+  let api: SimpleMockAPI;
+  let owner: FS5;
+  let teammate: FS5;
+
+  beforeEach(async () => {
+    api = new SimpleMockAPI();
+    owner = new FS5(api as any, new SimpleMockIdentity() as any);
+    await owner.ensureIdentityInitialized();
+    const otherIdentity = { fsRootKey: new Uint8Array(32).fill(7) };
+    teammate = new FS5(api as any, otherIdentity as any);
+    await teammate.ensureIdentityInitialized();
+
+    await owner.put("home/team/notes.md", "Meeting notes");
+    await owner.put("home/team/specs/api.json", { version: 2 });
+    await owner.put("home/private/diary.txt", "Secret");
+  });
+
+  test("creates read-only links without a write key", async () => {
+    const link = await owner.createShareLink("home/team");
+
+    expect(link).toMatch(/^fs5:\/\/b[a-z2-7]+$/);
+    expect(link).not.toContain("write:");
+  });
+
+  test("a teammate can read the shared tree", async () => {
+    const shared = await teammate.openShared(await owner.createShareLink("home/team"));
+
+    expect(shared.writable).toBe(false);
+    expect(await shared.get("notes.md")).toBe("Meeting notes");
+    expect(await shared.get("specs/api.json")).toEqual({ version: 2 });
+    expect(await shared.getText("notes.md")).toBe("Meeting notes");
+
+    const names: string[] = [];
+    for await (const item of shared.list("")) {
+      names.push(`${item.type}:${item.name}`);
+    }
+    expect(names.sort()).toEqual(["directory:specs", "file:notes.md"]);
+
+    const metadata = await shared.getMetadata("notes.md");
+    expect(metadata).toMatchObject({ type: "file", name: "notes.md" });
+    expect((await shared.getMetadata("specs"))?.type).toBe("directory");
+  });
+
+  test("the view only reaches the shared subtree", async () => {
+    const shared = await teammate.openShared(await owner.createShareLink("home/team"));
+
+    await expect(shared.get("../private/diary.txt")).rejects.toThrow();
+    expect(await shared.get("private/diary.txt").catch(() => undefined)).toBeUndefined();
+  });
+
+  test("sees changes made after the link was created", async () => {
+    const shared = await teammate.openShared(await owner.createShareLink("home/team"));
+
+    await owner.put("home/team/notes.md", "Updated notes");
+    expect(await shared.get("notes.md")).toBe("Updated notes");
+  });
+
+  test("read-only views reject writes", async () => {
+    const shared = await teammate.openShared(await owner.createShareLink("home/team"));
+
+    await expect(shared.put("new.txt", "x")).rejects.toThrow("Share link is read-only");
+    await expect(shared.delete("notes.md")).rejects.toThrow("Share link is read-only");
+    expect(await owner.get("home/team/notes.md")).toBe("Meeting notes");
+  });
+
+  test("writable links let a teammate change the shared tree", async () => {
+    const link = await owner.createShareLink("home/team", { writable: true });
+    expect(link).toMatch(/^fs5:\/\/write:u[\w-]+@b[a-z2-7]+$/);
+
+    const shared = await teammate.openShared(link);
+    expect(shared.writable).toBe(true);
+
+    await shared.put("todo.txt", "Review specs");
+    await shared.put("specs/draft.md", "Draft");
+    expect(await shared.delete("notes.md")).toBe(true);
+
+    expect(await owner.get("home/team/todo.txt")).toBe("Review specs");
+    expect(await owner.get("home/team/specs/draft.md")).toBe("Draft");
+    expect(await owner.get("home/team/notes.md")).toBeUndefined();
+  });
+
+  test("shares snapshots as read-only links", async () => {
+    await owner.snapshot("home/team", "archive/team-v1");
+
+    const link = await owner.createShareLink("archive/team-v1");
+    const shared = await teammate.openShared(link);
+    expect(await shared.get("notes.md")).toBe("Meeting notes");
+
+    await expect(
+      owner.createShareLink("archive/team-v1", { writable: true })
+    ).rejects.toThrow("Directory is read-only: archive/team-v1");
+  });
+
+  test("openShared works without an identity", async () => {
+    const anonymous = new FS5(api as any);
+    const shared = await anonymous.openShared(await owner.createShareLink("home/team"));
+
+    expect(await shared.get("notes.md")).toBe("Meeting notes");
+  });
+
+  test("rejects malformed links", async () => {
+    await expect(teammate.openShared("not a link")).rejects.toThrow("Invalid share link");
+    await expect(teammate.openShared("https://example.com")).rejects.toThrow(
+      "Invalid share link"
+    );
+    const link = await owner.createShareLink("home/team");
+    await expect(teammate.openShared(`${link}/notes.md`)).rejects.toThrow("Invalid share link");
+  });
+
+  test("rejects a write key that doesn't belong to the directory", async () => {
+    await teammate.put("home/mine/file.txt", "Mine");
+    const ownLink = await teammate.createShareLink("home/mine", { writable: true });
+    const foreign = await owner.createShareLink("home/team");
+    const forged = ownLink.replace(/@.*$/, `@${foreign.substring("fs5://".length)}`);
+
+    await expect(teammate.openShared(forged)).rejects.toThrow(
+      "Write key does not match the shared directory"
+    );
+  });
+
+  test("createShareLink throws for a missing directory", async () => {
+    await expect(owner.createShareLink("home/missing")).rejects.toThrow();
+  });
+});
@@ -0,0 +1,151 @@
+import { describe, test, expect, beforeEach } from "vitest";
+import { FS5 } from "../../src/fs/fs5.js";
+import { SimpleMockAPI, SimpleMockIdentity } from "../test-utils.js";
+
+async function listNames(fs: FS5, path: string): Promise<string[]> {
+  const names: string[] = [];
+  for await (const item of fs.list(path)) {
+    names.push(item.name);
+  }
+  return names.sort();
+}
+
+describe("FS5.snapshot", () => {
+  let fs: FS5;
+  let api: SimpleMockAPI;
+
+  beforeEach(async () => {
+    api = new SimpleMockAPI();
+    fs = new FS5(api as any, new SimpleMockIdentity() as any);
+    await fs.ensureIdentityInitialized();
+    await fs.put("home/project/README.md", "Project readme");
+    await fs.put("home/project/src/main.ts", "Main source");
+    await fs.put("home/project/src/lib/util.ts", "Util source");
+  });
+
+  test("returns the hash of the frozen root directory", async () => {
+    const hash = await fs.snapshot("home/project");
+    expect(hash).toBeInstanceOf(Uint8Array);
+    expect(hash.length).toBe(32);
+  });
+
+  test("is deterministic while the source is unchanged", async () => {
+    const first = await fs.snapshot("home/project");
+    const second = await fs.snapshot("home/project");
+    expect(second).toEqual(first);
+
+    await fs.put("home/project/src/lib/util.ts", "Util source v2");
+    expect(await fs.snapshot("home/project")).not.toEqual(first);
+  });
+
+  test("links the snapshot under archive/ and reads through it", async () => {
+    await fs.snapshot("home/project", "archive/project-backup");
+
+    expect(await listNames(fs, "archive/project-backup")).toEqual(["README.md", "src"]);
+    expect(await listNames(fs, "archive/project-backup/src")).toEqual(["lib", "main.ts"]);
+    expect(await fs.get("archive/project-backup/src/lib/util.ts")).toBe("Util source");
+  });
+
+  test("rewrites every subdirectory to a fixed_hash_blake3 link", async () => {
+    await fs.snapshot("home/project", "archive/frozen");
+
+    const archive = await (fs as any)._loadDirectory("archive");
+    expect(archive.dirs.get("frozen").link.type).toBe("fixed_hash_blake3");
+    const frozen = await (fs as any)._loadDirectory("archive/frozen");
+    expect(frozen.dirs.get("src").link.type).toBe("fixed_hash_blake3");
+    const src = await (fs as any)._loadDirectory("archive/frozen/src");
+    expect(src.dirs.get("lib").link.type).toBe("fixed_hash_blake3");
+  });
+
+  test("is not affected by later changes to the source", async () => {
+    await fs.snapshot("home/project", "archive/before");
+
+    await fs.put("home/project/src/main.ts", "Broken rewrite");
+    await fs.delete("home/project/README.md");
+    await fs.put("home/project/src/lib/new.ts", "New file");
+
+    expect(await fs.get("archive/before/src/main.ts")).toBe("Main source");
+    expect(await fs.get("archive/before/README.md")).toBe("Project readme");
+    expect(await listNames(fs, "archive/before/src/lib")).toEqual(["util.ts"]);
+  });
+
+  test("cannot be written to", async () => {
+    await fs.snapshot("home/project", "archive/readonly");
+    await expect(fs.put("archive/readonly/src/hack.ts", "Changed")).rejects.toThrow("Missing write access");
+    expect(await listNames(fs, "archive/readonly/src")).toEqual(["lib", "main.ts"]);
+  });
+
+  test("keeps encrypted files readable", async () => {
+    await fs.put("home/project/secret.txt", "Top secret", {
+      encryption: { algorithm: "xchacha20-poly1305" },
+    });
+    await fs.snapshot("home/project", "archive/with-secret");
+    expect(await fs.get("archive/with-secret/secret.txt")).toBe("Top secret");
+  });
+
+  test("keeps directories with their own encryption key encrypted", async () => {
+    await fs.rotateKeys("home/project/src");
+    await fs.snapshot("home", "archive/home");
+
+    expect(await fs.get("archive/home/project/src/lib/util.ts")).toBe("Util source");
+
+    const archive = await (fs as any)._loadDirectory("archive");
+    const entry = archive.dirs.get("home");
+    expect(entry.extra.get("wrapped_encryption_key")).toBeInstanceOf(Uint8Array);
+    const blob = await api.downloadBlobAsBytes(new Uint8Array([0x1e, ...entry.link.hash]));
+    expect(blob[0]).toBe(0x8d);
+  });
+
+  test("freezes encrypted mounts", async () => {
+    const other = new FS5(api as any, { fsRootKey: new Uint8Array(32).fill(7) } as any);
+    await other.ensureIdentityInitialized();
+    await other.put("home/team/rotated/plan.md", "The plan");
+    await other.rotateKeys("home/team/rotated");
+    await fs.mount("home/project/plan", await other.createShareLink("home/team/rotated"));
+
+    await fs.snapshot("home/project", "archive/with-mount");
+    await other.put("home/team/rotated/plan.md", "Changed plan");
+
+    expect(await fs.get("archive/with-mount/plan/plan.md")).toBe("The plan");
+  });
+
+  test("requires an archive/ link for trees with encrypted directories", async () => {
+    await fs.rotateKeys("home/project/src");
+    await expect(fs.snapshot("home/project")).rejects.toThrow(
+      "Snapshots of encrypted directories must be linked under archive/: home/project"
+    );
+  });
+
+  test("freezes HAMT-sharded directories", async () => {
+    for (let i = 0; i < 1000; i++) {
+      await fs.put(`home/big/file${i}.txt`, `Content ${i}`);
+    }
+    await fs.put("home/big/nested/inner.txt", "Inner");
+    await fs.snapshot("home/big", "archive/big");
+
+    await fs.put("home/big/nested/inner.txt", "Changed");
+
+    expect(await fs.get("archive/big/file42.txt")).toBe("Content 42");
+    expect(await fs.get("archive/big/nested/inner.txt")).toBe("Inner");
+  }, 120000);
+
+  test("rejects destinations outside archive/", async () => {
+    await expect(fs.snapshot("home/project", "home/backup")).rejects.toThrow(
+      "Snapshots can only be linked under archive/: home/backup"
+    );
+    await expect(fs.snapshot("home/project", "archive")).rejects.toThrow(
+      "Snapshots can only be linked under archive/: archive"
+    );
+  });
+
+  test("rejects an existing destination", async () => {
+    await fs.snapshot("home/project", "archive/taken");
+    await expect(fs.snapshot("home/project", "archive/taken")).rejects.toThrow(
+      "Destination already exists: archive/taken"
+    );
+  });
+
+  test("rejects missing source directories", async () => {
+    await expect(fs.snapshot("home/missing")).rejects.toThrow();
+  });
+});
@@ -0,0 +1,194 @@
+import { describe, test, expect, beforeEach } from "vitest";
+import { FS5 } from "../../src/fs/fs5.js";
+import { PreconditionFailedError } from "../../src/fs/errors.js";
+import { SimpleMockAPI, SimpleMockIdentity } from "../test-utils.js";
+
+describe("Directory transactions", () => {
+  let api: SimpleMockAPI;
+  let fs: FS5;
+
+  beforeEach(async () => {
+    api = new SimpleMockAPI();
+    fs = new FS5(api as any, new SimpleMockIdentity() as any);
+    await fs.ensureIdentityInitialized();
+    await fs.put("home/inbox/existing.txt", "Existing");
+  });
+
+  test("commits many puts with a single registry update", async () => {
+    const before = api.registrySetCount;
+
+    await fs.transaction("home/inbox", (tx) => {
+      for (let i = 0; i < 50; i++) {
+        tx.put(`file${i}.txt`, `Content ${i}`);
+      }
+    });
+
+    expect(api.registrySetCount - before).toBe(1);
+    expect(await fs.get("home/inbox/file0.txt")).toBe("Content 0");
+    expect(await fs.get("home/inbox/file49.txt")).toBe("Content 49");
+    expect(await fs.get("home/inbox/existing.txt")).toBe("Existing");
+  });
+
+  test("applies puts, deletes and new directories in order", async () => {
+    await fs.transaction("home/inbox", async (tx) => {
+      tx.put("config.json", { Mode: "dark" });
+      tx.delete("existing.txt");
+      tx.createDirectory("archive");
+      tx.put("draft.txt", "Temporary");
+      tx.delete("draft.txt");
+    });
+
+    expect(await fs.get("home/inbox/config.json")).toEqual({ Mode: "dark" });
+    expect(await fs.get("home/inbox/existing.txt")).toBeUndefined();
+    expect(await fs.get("home/inbox/draft.txt")).toBeUndefined();
+    expect(await fs.getMetadata("home/inbox/archive")).toMatchObject({ type: "directory" });
+
+    await fs.put("home/inbox/archive/old.txt", "Old");
+    expect(await fs.get("home/inbox/archive/old.txt")).toBe("Old");
+  });
+
+  test("publishes nothing when an operation fails", async () => {
+    const before = api.registrySetCount;
+
+    await expect(
+      fs.transaction("home/inbox", (tx) => {
+        tx.put("new.txt", "New");
+        tx.delete("existing.txt");
+        tx.delete("missing.txt");
+      })
+    ).rejects.toThrow("Path not found: home/inbox/missing.txt");
+
+    expect(api.registrySetCount).toBe(before);
+    expect(await fs.get("home/inbox/new.txt")).toBeUndefined();
+    expect(await fs.get("home/inbox/existing.txt")).toBe("Existing");
+  });
+
+  test("publishes nothing when the callback throws", async () => {
+    await expect(
+      fs.transaction("home/inbox", (tx) => {
+        tx.put("new.txt", "New");
+        throw new Error("Changed my mind");
+      })
+    ).rejects.toThrow("Changed my mind");
+
+    expect(await fs.get("home/inbox/new.txt")).toBeUndefined();
+  });
+
+  test("rejects deleting non-empty directories and creating existing entries", async () => {
+    await fs.put("home/inbox/sub/file.txt", "Nested");
+
+    await expect(
+      fs.transaction("home/inbox", (tx) => tx.delete("sub"))
+    ).rejects.toThrow("Directory is not empty: home/inbox/sub");
+    await expect(
+      fs.transaction("home/inbox", (tx) => tx.createDirectory("existing.txt"))
+    ).rejects.toThrow("Path already exists: home/inbox/existing.txt");
+    expect(await fs.get("home/inbox/sub/file.txt")).toBe("Nested");
+  });
+
+  test("deletes empty directories", async () => {
+    await fs.createDirectory("home/inbox", "empty");
+
+    await fs.transaction("home/inbox", (tx) => tx.delete("empty"));
+
+    expect(await fs.getMetadata("home/inbox/empty")).toBeUndefined();
+  });
+
+  test("rejects names with path separators", async () => {
+    await expect(
+      fs.transaction("home/inbox", (tx) => tx.put("nested/file.txt", "Data"))
+    ).rejects.toThrow('Invalid name: "nested/file.txt"');
+  });
+
+  test("checks put preconditions against the loaded directory", async () => {
+    await expect(
+      fs.transaction("home/inbox", (tx) => {
+        tx.put("other.txt", "Other");
+        tx.put("existing.txt", "Replaced", { ifNoneMatch: "*" });
+      })
+    ).rejects.toBeInstanceOf(PreconditionFailedError);
+
+    expect(await fs.get("home/inbox/existing.txt")).toBe("Existing");
+    expect(await fs.get("home/inbox/other.txt")).toBeUndefined();
+  });
+
+  test("keeps versions and attributes of replaced files", async () => {
+    await fs.setAttributes("home/inbox/existing.txt", { Label: "keep" });
+
+    await fs.transaction("home/inbox", (tx) => {
+      tx.put("existing.txt", "Updated", { keepVersions: 1 });
+    });
+
+    expect(await fs.get("home/inbox/existing.txt")).toBe("Updated");
+    expect(await fs.getVersion("home/inbox/existing.txt", 1)).toBe("Existing");
+    expect(await fs.getAttributes("home/inbox/existing.txt")).toEqual({ Label: "keep" });
+  });
+
+  test("cannot stage changes after the transaction committed", async () => {
+    let saved: any;
+    await fs.transaction("home/inbox", (tx) => {
+      saved = tx;
+      tx.put("a.txt", "A");
+    });
+
+    expect(() => saved.put("b.txt", "B")).toThrow("Transaction has already been committed");
+  });
+
+  test("writes to the root of a view for an empty path", async () => {
+    const link = await fs.createShareLink("home/inbox", { writable: true });
+    const view = new FS5(api as any, undefined, { root: link });
+
+    await view.transaction("", (tx) => {
+      tx.put("shared.txt", "Shared");
+    });
+
+    expect(await fs.get("home/inbox/shared.txt")).toBe("Shared");
+    expect(await fs.getMetadata("home/inbox/home")).toBeUndefined();
+  });
+
+  test("creates the directory if it doesn't exist yet", async () => {
+    await fs.transaction("home/new/folder", (tx) => {
+      tx.put("a.txt", "A");
+      tx.put("b.txt", "B");
+    });
+
+    expect(await fs.get("home/new/folder/a.txt")).toBe("A");
+    expect(await fs.get("home/new/folder/b.txt")).toBe("B");
+  });
+
+  test("shards the directory when a transaction crosses the threshold", async () => {
+    await fs.transaction("home/bulk", (tx) => {
+      for (let i = 0; i < 1005; i++) {
+        tx.put(`item${i}.txt`, `Item ${i}`);
+      }
+    });
+
+    const dir = await (fs as any)._loadDirectory("home/bulk");
+    expect(dir.header.sharding?.root?.totalEntries).toBe(1005);
+    expect(await fs.get("home/bulk/item0.txt")).toBe("Item 0");
+    expect(await fs.get("home/bulk/item1004.txt")).toBe("Item 1004");
+  });
+
+  test("uploads the HAMT of a sharded directory once per commit", async () => {
+    await fs.transaction("home/bulk", (tx) => {
+      for (let i = 0; i < 1005; i++) {
+        tx.put(`item${i}.txt`, `Item ${i}`);
+      }
+    });
+
+    api.uploadCount = 0;
+    await fs.transaction("home/bulk", (tx) => {
+      for (let i = 0; i < 20; i++) {
+        tx.put(`new${i}.txt`, `New ${i}`);
+      }
+      tx.delete("item0.txt");
+    });
+
+    // 20 file blobs, the HAMT and the directory
+    expect(api.uploadCount).toBe(22);
+    const dir = await (fs as any)._loadDirectory("home/bulk");
+    expect(dir.header.sharding?.root?.totalEntries).toBe(1024);
+    expect(await fs.get("home/bulk/new19.txt")).toBe("New 19");
+    expect(await fs.get("home/bulk/item0.txt")).toBeUndefined();
+  });
+});
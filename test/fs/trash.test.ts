@@ -0,0 +1,224 @@
+import { describe, test, expect, beforeEach, vi } from "vitest";
+import { FS5 } from "../../src/fs/fs5.js";
+import { BatchOperations } from "../../src/fs/utils/batch.js";
+import { PreconditionFailedError } from "../../src/fs/errors.js";
+import { SimpleMockAPI, SimpleMockIdentity } from "../test-utils.js";
+
+describe("Trash", () => {
+  let api: SimpleMockAPI;
+  let fs: FS5;
+
+  beforeEach(async () => {
+    api = new SimpleMockAPI();
+    fs = new FS5(api as any, new SimpleMockIdentity() as any);
+    await fs.ensureIdentityInitialized();
+    await fs.put("home/docs/report.txt", "Quarterly report");
+    await fs.put("home/docs/drafts/idea.txt", "Idea");
+  });
+
+  test("delete removes entries permanently unless soft delete is requested", async () => {
+    expect(await fs.delete("home/docs/report.txt")).toBe(true);
+    expect(await fs.listTrash()).toEqual([]);
+  });
+
+  test("soft delete moves a file to the trash with its original path", async () => {
+    const before = Date.now();
+    expect(await fs.delete("home/docs/report.txt", { soft: true })).toBe(true);
+
+    expect(await fs.get("home/docs/report.txt")).toBeUndefined();
+    const trash = await fs.listTrash();
+    expect(trash).toHaveLength(1);
+    expect(trash[0]).toMatchObject({
+      path: "home/docs/report.txt",
+      type: "file",
+      size: "Quarterly report".length,
+    });
+    expect(trash[0].deletedAt).toBeGreaterThanOrEqual(before);
+    expect(await fs.get(`home/.trash/${trash[0].id}`)).toBe("Quarterly report");
+  });
+
+  test("soft delete checks ifMatch where it unlinks the entry", async () => {
+    const [{ hash }] = (await fs.listVersions("home/docs/report.txt"))!;
+    const move = (fs as any)._move.bind(fs);
+    vi.spyOn(fs as any, "_move").mockImplementation(async (...args: any[]) => {
+      await fs.put("home/docs/report.txt", "Changed meanwhile");
+      return move(...args);
+    });
+
+    await expect(
+      fs.delete("home/docs/report.txt", { soft: true, ifMatch: hash })
+    ).rejects.toThrow(PreconditionFailedError);
+    expect(await fs.get("home/docs/report.txt")).toBe("Changed meanwhile");
+    expect(await fs.listTrash()).toEqual([]);
+  });
+
+  test("find, du and diff leave the trash out", async () => {
+    await fs.snapshot("home", "archive/before");
+    await fs.delete("home/docs/report.txt", { soft: true });
+
+    const found: string[] = [];
+    for await (const result of fs.find("home")) {
+      found.push(result.path);
+    }
+    expect(found).toEqual(["home/docs/drafts/idea.txt"]);
+
+    const usage = await fs.du("home");
+    expect(usage.files).toBe(1);
+    expect(Object.keys(usage.subdirectories)).toEqual(["docs"]);
+
+    expect(await fs.diff("archive/before", "home")).toEqual([
+      expect.objectContaining({ type: "removed", path: "docs/report.txt" }),
+    ]);
+
+    const [entry] = await fs.listTrash();
+    const inTrash: string[] = [];
+    for await (const result of fs.find("home/.trash")) {
+      inTrash.push(result.path);
+    }
+    expect(inTrash).toEqual([`home/.trash/${entry.id}`]);
+  });
+
+  test("soft delete of a missing path returns false", async () => {
+    expect(await fs.delete("home/docs/missing.txt", { soft: true })).toBe(false);
+    expect(await fs.listTrash()).toEqual([]);
+  });
+
+  test("restores a file to its original path", async () => {
+    await fs.delete("home/docs/report.txt", { soft: true });
+    const [entry] = await fs.listTrash();
+
+    expect(await fs.restore(entry.id)).toBe("home/docs/report.txt");
+
+    expect(await fs.get("home/docs/report.txt")).toBe("Quarterly report");
+    expect(await fs.listTrash()).toEqual([]);
+    const metadata = await fs.getMetadata("home/docs/report.txt");
+    expect(metadata?.custom?.trash).toBeUndefined();
+  });
+
+  test("soft deletes and restores non-empty directories", async () => {
+    expect(await fs.delete("home/docs/drafts", { soft: true })).toBe(true);
+    const [entry] = await fs.listTrash();
+    expect(entry).toMatchObject({ path: "home/docs/drafts", type: "directory" });
+    expect(entry.size).toBeUndefined();
+
+    await fs.restore(entry.id);
+    expect(await fs.get("home/docs/drafts/idea.txt")).toBe("Idea");
+  });
+
+  test("restore recreates missing parent directories", async () => {
+    await fs.delete("home/docs/drafts/idea.txt", { soft: true });
+    await fs.delete("home/docs/drafts");
+    const [entry] = await fs.listTrash();
+
+    await fs.restore(entry.id);
+    expect(await fs.get("home/docs/drafts/idea.txt")).toBe("Idea");
+  });
+
+  test("restore refuses to overwrite a new file at the original path", async () => {
+    await fs.delete("home/docs/report.txt", { soft: true });
+    await fs.put("home/docs/report.txt", "New report");
+    const [entry] = await fs.listTrash();
+
+    await expect(fs.restore(entry.id)).rejects.toThrow(
+      "Destination already exists: home/docs/report.txt"
+    );
+    expect(await fs.listTrash()).toHaveLength(1);
+  });
+
+  test("restore throws for an unknown trash id", async () => {
+    await expect(fs.restore("missing")).rejects.toThrow("Trash entry not found: missing");
+    await expect(fs.restore("../docs")).rejects.toThrow("Trash entry not found");
+  });
+
+  test("keeps several deletions of the same path apart", async () => {
+    await fs.delete("home/docs/report.txt", { soft: true });
+    await fs.put("home/docs/report.txt", "Second report");
+    await fs.delete("home/docs/report.txt", { soft: true });
+
+    const trash = await fs.listTrash();
+    expect(trash).toHaveLength(2);
+    expect(trash[0].id).not.toBe(trash[1].id);
+    expect(trash.every((entry) => entry.path === "home/docs/report.txt")).toBe(true);
+  });
+
+  test("emptyTrash removes everything or only expired entries", async () => {
+    await fs.delete("home/docs/report.txt", { soft: true });
+    await fs.delete("home/docs/drafts", { soft: true });
+
+    expect(await fs.emptyTrash({ olderThan: 60_000 })).toBe(0);
+    expect(await fs.listTrash()).toHaveLength(2);
+
+    expect(await fs.emptyTrash()).toBe(2);
+    expect(await fs.listTrash()).toEqual([]);
+  });
+
+  test("emptyTrash uses the recorded deletion time", async () => {
+    vi.useFakeTimers({ toFake: ["Date"] });
+    try {
+      vi.setSystemTime(new Date("2026-01-01T00:00:00Z"));
+      await fs.delete("home/docs/report.txt", { soft: true });
+      vi.setSystemTime(new Date("2026-01-20T00:00:00Z"));
+      await fs.delete("home/docs/drafts", { soft: true });
+      vi.setSystemTime(new Date("2026-02-05T00:00:00Z"));
+
+      expect(await fs.emptyTrash({ olderThan: 30 * 24 * 3600 * 1000 })).toBe(1);
+      expect((await fs.listTrash()).map((entry) => entry.path)).toEqual(["home/docs/drafts"]);
+    } finally {
+      vi.useRealTimers();
+    }
+  });
+
+  test("soft delete can be the default for an instance", async () => {
+    const softFs = new FS5(api as any, new SimpleMockIdentity() as any, { softDelete: true });
+
+    await softFs.delete("home/docs/report.txt");
+    expect((await softFs.listTrash()).map((entry) => entry.path)).toEqual([
+      "home/docs/report.txt",
+    ]);
+
+    await softFs.put("home/docs/scratch.txt", "Scratch");
+    await softFs.delete("home/docs/scratch.txt", { soft: false });
+    expect(await softFs.listTrash()).toHaveLength(1);
+  });
+
+  test("deleting inside the trash is permanent", async () => {
+    const softFs = new FS5(api as any, new SimpleMockIdentity() as any, { softDelete: true });
+    await softFs.delete("home/docs/report.txt");
+    const [entry] = await softFs.listTrash();
+
+    expect(await softFs.delete(`home/.trash/${entry.id}`)).toBe(true);
+    expect(await softFs.listTrash()).toEqual([]);
+  });
+
+  test("trashRetention expires old entries on soft delete", async () => {
+    const softFs = new FS5(api as any, new SimpleMockIdentity() as any, {
+      softDelete: true,
+      trashRetention: 1000,
+    });
+    vi.useFakeTimers({ toFake: ["Date"] });
+    try {
+      vi.setSystemTime(new Date("2026-01-01T00:00:00Z"));
+      await softFs.delete("home/docs/report.txt");
+      vi.setSystemTime(new Date("2026-01-01T00:00:05Z"));
+      await softFs.delete("home/docs/drafts/idea.txt");
+
+      expect((await softFs.listTrash()).map((entry) => entry.path)).toEqual([
+        "home/docs/drafts/idea.txt",
+      ]);
+    } finally {
+      vi.useRealTimers();
+    }
+  });
+
+  test("BatchOperations.deleteDirectory moves the whole tree to the trash", async () => {
+    const batch = new BatchOperations(fs);
+
+    const result = await batch.deleteDirectory("home/docs", { soft: true });
+
+    expect(result.success).toBe(1);
+    const [entry] = await fs.listTrash();
+    expect(entry).toMatchObject({ path: "home/docs", type: "directory" });
+    await fs.restore(entry.id);
+    expect(await fs.get("home/docs/drafts/idea.txt")).toBe("Idea");
+  });
+});
@@ -0,0 +1,118 @@
+import { describe, test, expect, beforeEach } from "vitest";
+import { FS5 } from "../../src/fs/fs5.js";
+import { SimpleMockAPI, SimpleMockIdentity } from "../test-utils.js";
+
+describe("Typed reads and writes", () => {
+  let fs: FS5;
+
+  beforeEach(async () => {
+    const api = new SimpleMockAPI();
+    fs = new FS5(api as any, new SimpleMockIdentity() as any);
+    await fs.ensureIdentityInitialized();
+  });
+
+  test("strings that look like JSON or CBOR round-trip as text", async () => {
+    await fs.put("home/number.txt", "123");
+    await fs.put("home/object.txt", '{"a":1}');
+    await fs.put("home/word.txt", "code");
+
+    expect(await fs.get("home/number.txt")).toBe("123");
+    expect(await fs.get("home/object.txt")).toBe('{"a":1}');
+    expect(await fs.get("home/word.txt")).toBe("code");
+  });
+
+  test("putJSON stores JSON text with the JSON media type", async () => {
+    const value = { name: "Config", retries: 3, tags: ["a", "b"], nested: { on: true } };
+    await fs.putJSON("home/config", value);
+
+    expect(await fs.get("home/config")).toEqual(value);
+    expect(await fs.getJSON("home/config")).toEqual(value);
+    expect(await fs.getText("home/config")).toBe(JSON.stringify(value));
+
+    const metadata = await fs.getMetadata("home/config");
+    expect(metadata?.mediaType).toBe("application/json");
+  });
+
+  test("putJSON rejects values JSON cannot represent", async () => {
+    await expect(fs.putJSON("home/nothing.json", undefined)).rejects.toThrow(
+      "Value cannot be serialized as JSON"
+    );
+  });
+
+  test("putText stores text with a media type from the extension", async () => {
+    await fs.putText("home/readme.md", "# Title");
+    await fs.putText("home/notes", "Plain notes");
+
+    expect(await fs.get("home/readme.md")).toBe("# Title");
+    expect(await fs.getText("home/notes")).toBe("Plain notes");
+    expect((await fs.getMetadata("home/readme.md"))?.mediaType).toBe("text/markdown");
+    expect((await fs.getMetadata("home/notes"))?.mediaType).toBe("text/plain");
+  });
+
+  test("binary data round-trips as bytes whatever the media type", async () => {
+    const bytes = new TextEncoder().encode('{"looks":"like json"}');
+    await fs.put("home/data.json", bytes, { mediaType: "application/json" });
+
+    const result = await fs.get("home/data.json");
+    expect(result).toBeInstanceOf(Uint8Array);
+    expect(result).toEqual(bytes);
+    expect(await fs.getJSON("home/data.json")).toEqual({ looks: "like json" });
+  });
+
+  test("getBytes returns the stored bytes for every encoding", async () => {
+    await fs.put("home/text.txt", "Hello");
+    await fs.put("home/object", { a: 1 });
+
+    expect(await fs.getBytes("home/text.txt")).toEqual(new TextEncoder().encode("Hello"));
+    const cbor = await fs.getBytes("home/object");
+    expect(cbor).toBeInstanceOf(Uint8Array);
+    expect(cbor!.length).toBeGreaterThan(0);
+  });
+
+  test("getCBOR decodes objects written with put", async () => {
+    const value = { title: "Doc", count: 2, items: [1, 2, 3] };
+    await fs.put("home/state", value);
+
+    expect(await fs.get("home/state")).toEqual(value);
+    expect(await fs.getCBOR("home/state")).toEqual(value);
+  });
+
+  test("typed reads reject files stored in an incompatible encoding", async () => {
+    await fs.put("home/state", { a: 1 });
+    await fs.putText("home/text.txt", "Hello");
+
+    await expect(fs.getJSON("home/state")).rejects.toThrow(
+      "File is stored as CBOR, not JSON: home/state"
+    );
+    await expect(fs.getCBOR("home/text.txt")).rejects.toThrow(
+      "File is stored as text, not CBOR: home/text.txt"
+    );
+  });
+
+  test("typed reads return undefined for missing files", async () => {
+    expect(await fs.getBytes("home/missing")).toBeUndefined();
+    expect(await fs.getText("home/missing")).toBeUndefined();
+    expect(await fs.getJSON("home/missing")).toBeUndefined();
+    expect(await fs.getCBOR("home/missing")).toBeUndefined();
+  });
+
+  test("encrypted files keep their encoding", async () => {
+    await fs.putJSON("home/secret.json", { pin: "0042" }, {
+      encryption: { algorithm: "xchacha20-poly1305" },
+    });
+    await fs.put("home/secret.txt", "456", {
+      encryption: { algorithm: "xchacha20-poly1305" },
+    });
+
+    expect(await fs.get("home/secret.json")).toEqual({ pin: "0042" });
+    expect(await fs.get("home/secret.txt")).toBe("456");
+  });
+
+  test("old versions are decoded with their own encoding", async () => {
+    await fs.put("home/value", "42");
+    await fs.putJSON("home/value", 42, { keepVersions: 1 });
+
+    expect(await fs.get("home/value")).toBe(42);
+    expect(await fs.getVersion("home/value", 1)).toBe("42");
+  });
+});
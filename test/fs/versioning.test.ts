@@ -0,0 +1,114 @@
+import { describe, test, expect, beforeEach } from "vitest";
+import { FS5 } from "../../src/fs/fs5.js";
+import { SimpleMockAPI, SimpleMockIdentity } from "../test-utils.js";
+
+describe("File versioning", () => {
+  let fs: FS5;
+  let api: SimpleMockAPI;
+
+  beforeEach(async () => {
+    api = new SimpleMockAPI();
+    fs = new FS5(api as any, new SimpleMockIdentity() as any);
+    await fs.ensureIdentityInitialized();
+  });
+
+  test("does not keep history unless keepVersions is set", async () => {
+    await fs.put("home/notes.txt", "First draft");
+    await fs.put("home/notes.txt", "Second draft");
+
+    const versions = await fs.listVersions("home/notes.txt");
+    expect(versions?.length).toBe(1);
+    expect(await fs.getVersion("home/notes.txt", 1)).toBeUndefined();
+  });
+
+  test("chains previous versions newest first", async () => {
+    await fs.put("home/notes.txt", "First draft");
+    await fs.put("home/notes.txt", "Second draft!", { keepVersions: 5 });
+    await fs.put("home/notes.txt", "Third draft!!", { keepVersions: 5 });
+
+    const versions = await fs.listVersions("home/notes.txt");
+    expect(versions?.map((v) => v.version)).toEqual([0, 1, 2]);
+    expect(versions?.map((v) => v.size)).toEqual([13, 13, 11]);
+
+    expect(await fs.get("home/notes.txt")).toBe("Third draft!!");
+    expect(await fs.getVersion("home/notes.txt", 0)).toBe("Third draft!!");
+    expect(await fs.getVersion("home/notes.txt", 1)).toBe("Second draft!");
+    expect(await fs.getVersion("home/notes.txt", 2)).toBe("First draft");
+    expect(await fs.getVersion("home/notes.txt", 3)).toBeUndefined();
+  });
+
+  test("drops the oldest versions beyond keepVersions", async () => {
+    for (let i = 1; i <= 5; i++) {
+      await fs.put("home/counter.json", { value: i }, { keepVersions: 2 });
+    }
+
+    const versions = await fs.listVersions("home/counter.json");
+    expect(versions?.length).toBe(3);
+    expect(await fs.getVersion("home/counter.json", 2)).toEqual({ value: 3 });
+  });
+
+  test("keeps existing history when a later put omits keepVersions", async () => {
+    await fs.put("home/notes.txt", "First draft");
+    await fs.put("home/notes.txt", "Second draft!", { keepVersions: 2 });
+    await fs.put("home/notes.txt", "Third draft!!");
+
+    expect((await fs.listVersions("home/notes.txt"))?.length).toBe(2);
+    expect(await fs.getVersion("home/notes.txt", 1)).toBe("Second draft!");
+
+    await fs.put("home/notes.txt", "Fresh start", { keepVersions: 0 });
+    expect((await fs.listVersions("home/notes.txt"))?.length).toBe(1);
+  });
+
+  test("keeps encrypted versions readable", async () => {
+    const encryption = { algorithm: "xchacha20-poly1305" as const };
+    await fs.put("home/secret.txt", "Old secret", { encryption });
+    await fs.put("home/secret.txt", "New secret", { encryption, keepVersions: 3 });
+
+    expect(await fs.getVersion("home/secret.txt", 1)).toBe("Old secret");
+  });
+
+  test("restores an old version and keeps the replaced one in history", async () => {
+    await fs.put("home/notes.txt", "First draft");
+    await fs.put("home/notes.txt", "Broken edit", { keepVersions: 3 });
+
+    await fs.restoreVersion("home/notes.txt", 1);
+
+    expect(await fs.get("home/notes.txt")).toBe("First draft");
+    expect(await fs.getVersion("home/notes.txt", 1)).toBe("Broken edit");
+    expect((await fs.listVersions("home/notes.txt"))?.length).toBe(2);
+  });
+
+  test("history survives reloading the directory from the network", async () => {
+    await fs.put("home/notes.txt", "First draft");
+    await fs.put("home/notes.txt", "Second draft!", { keepVersions: 3 });
+
+    const otherDevice = new FS5(api as any, new SimpleMockIdentity() as any);
+    expect(await otherDevice.getVersion("home/notes.txt", 1)).toBe("First draft");
+  });
+
+  test("keeps history for files in sharded directories", async () => {
+    for (let i = 0; i < 1000; i++) {
+      await fs.put(`home/big/file${i}.txt`, `Content ${i}`);
+    }
+    await fs.put("home/big/file7.txt", "Changed", { keepVersions: 2 });
+
+    expect(await fs.get("home/big/file7.txt")).toBe("Changed");
+    expect(await fs.getVersion("home/big/file7.txt", 1)).toBe("Content 7");
+  }, 120000);
+
+  test("rejects restoring a version that does not exist", async () => {
+    await fs.put("home/notes.txt", "First draft");
+    await expect(fs.restoreVersion("home/notes.txt", 2)).rejects.toThrow(
+      "Version 2 not found for home/notes.txt"
+    );
+    await expect(fs.restoreVersion("home/missing.txt", 1)).rejects.toThrow(
+      "Version 1 not found for home/missing.txt"
+    );
+    await expect(fs.getVersion("home/notes.txt", -1)).rejects.toThrow("Invalid version: -1");
+  });
+
+  test("returns undefined for missing files", async () => {
+    expect(await fs.listVersions("home/missing.txt")).toBeUndefined();
+    expect(await fs.getVersion("home/missing.txt", 0)).toBeUndefined();
+  });
+});
@@ -0,0 +1,159 @@
+import { describe, test, expect, beforeEach } from "vitest";
+import { FS5 } from "../../src/fs/fs5.js";
+import { WatchEvent } from "../../src/fs/dirv1/types.js";
+import { SimpleMockAPI, SimpleMockIdentity } from "../test-utils.js";
+
+// SimpleMockAPI with registry subscriptions, shared between "devices"
+class WatchMockAPI extends SimpleMockAPI {
+  private listeners: Map<string, Set<(entry: any) => void>> = new Map();
+
+  async registrySet(entry: any): Promise<void> {
+    await super.registrySet(entry);
+    for (const listener of this.listeners.get(Buffer.from(entry.pk).toString("hex")) ?? []) {
+      listener(entry);
+    }
+  }
+
+  registryListen(publicKey: Uint8Array): AsyncIterator<any> {
+    const key = Buffer.from(publicKey).toString("hex");
+    const queue: any[] = [];
+    let pending: ((result: IteratorResult<any>) => void) | undefined;
+    const listener = (entry: any) => {
+      if (pending) {
+        pending({ value: entry, done: false });
+        pending = undefined;
+      } else {
+        queue.push(entry);
+      }
+    };
+    if (!this.listeners.has(key)) this.listeners.set(key, new Set());
+    this.listeners.get(key)!.add(listener);
+    const listeners = this.listeners;
+
+    return {
+      next: () =>
+        queue.length > 0
+          ? Promise.resolve({ value: queue.shift(), done: false })
+          : new Promise((resolve) => (pending = resolve)),
+      return: async () => {
+        listeners.get(key)!.delete(listener);
+        pending?.({ value: undefined, done: true });
+        return { value: undefined, done: true };
+      },
+    };
+  }
+
+  listenerCount(): number {
+    let count = 0;
+    for (const set of this.listeners.values()) count += set.size;
+    return count;
+  }
+}
+
+// Collects `count` events from a watcher, then stops it
+async function collect(watcher: AsyncIterableIterator<WatchEvent>, count: number): Promise<WatchEvent[]> {
+  const events: WatchEvent[] = [];
+  for await (const event of watcher) {
+    events.push(event);
+    if (events.length >= count) break;
+  }
+  return events;
+}
+
+describe("FS5.watch", () => {
+  let api: WatchMockAPI;
+  let fs: FS5;
+  let otherDevice: FS5;
+
+  beforeEach(async () => {
+    api = new WatchMockAPI();
+    fs = new FS5(api as any, new SimpleMockIdentity() as any);
+    await fs.ensureIdentityInitialized();
+    await fs.put("home/docs/readme.txt", "Hello");
+    otherDevice = new FS5(api as any, new SimpleMockIdentity() as any);
+  });
+
+  test("reports files added by another device", async () => {
+    const events = collect(fs.watch("home/docs"), 1);
+    await new Promise((resolve) => setTimeout(resolve, 10));
+    await otherDevice.put("home/docs/new.txt", "New file");
+
+    const [event] = await events;
+    expect(event).toMatchObject({
+      type: "added",
+      name: "new.txt",
+      path: "home/docs/new.txt",
+      entryType: "file",
+    });
+    expect(event.revision).toBeGreaterThan(0);
+  });
+
+  test("reports modified and removed entries", async () => {
+    await fs.put("home/docs/old.txt", "Old");
+    const events = collect(fs.watch("home/docs"), 2);
+    await new Promise((resolve) => setTimeout(resolve, 10));
+
+    await otherDevice.put("home/docs/readme.txt", "Hello again");
+    await otherDevice.delete("home/docs/old.txt");
+
+    expect((await events).map((e) => [e.type, e.name])).toEqual([
+      ["modified", "readme.txt"],
+      ["removed", "old.txt"],
+    ]);
+  });
+
+  test("reports new subdirectories", async () => {
+    const events = collect(fs.watch("home/docs"), 1);
+    await new Promise((resolve) => setTimeout(resolve, 10));
+    await otherDevice.createDirectory("home/docs", "photos");
+
+    expect(await events).toMatchObject([{ type: "added", name: "photos", entryType: "directory" }]);
+  });
+
+  test("diffs HAMT-sharded directories", async () => {
+    for (let i = 0; i < 1000; i++) {
+      await fs.put(`home/big/file${i}.txt`, `Content ${i}`);
+    }
+    const events = collect(fs.watch("home/big"), 2);
+    await new Promise((resolve) => setTimeout(resolve, 10));
+
+    await otherDevice.put("home/big/extra.txt", "Extra");
+    await otherDevice.put("home/big/file5.txt", "Changed");
+
+    expect((await events).map((e) => [e.type, e.name])).toEqual([
+      ["added", "extra.txt"],
+      ["modified", "file5.txt"],
+    ]);
+  }, 120000);
+
+  test("ignores du() cache writes", async () => {
+    await fs.put("home/docs/notes/todo.txt", "Todo");
+    const events = collect(fs.watch("home/docs"), 1);
+    await new Promise((resolve) => setTimeout(resolve, 10));
+
+    await otherDevice.du("home/docs/notes", { cache: true });
+    await otherDevice.put("home/docs/new.txt", "New file");
+
+    expect((await events).map((e) => [e.type, e.name])).toEqual([["added", "new.txt"]]);
+  });
+
+  test("stops and unsubscribes when the signal is aborted", async () => {
+    const controller = new AbortController();
+    const events = collect(fs.watch("home/docs", { signal: controller.signal }), 10);
+    await new Promise((resolve) => setTimeout(resolve, 10));
+
+    controller.abort();
+
+    expect(await events).toEqual([]);
+    expect(api.listenerCount()).toBe(0);
+  });
+
+  test("unsubscribes when the consumer stops iterating", async () => {
+    const events = collect(fs.watch("home/docs"), 1);
+    await new Promise((resolve) => setTimeout(resolve, 10));
+    await otherDevice.put("home/docs/new.txt", "New file");
+    await events;
+
+    expect(api.listenerCount()).toBe(0);
+  });
+});
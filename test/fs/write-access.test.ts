@@ -0,0 +1,106 @@
+import { describe, test, expect, beforeEach } from "vitest";
+import { FS5 } from "../../src/fs/fs5.js";
+import { SimpleMockAPI, SimpleMockIdentity } from "../test-utils.js";
+
+describe("FS5.grantWriteAccess", () => {
+  let api: SimpleMockAPI;
+  let owner: FS5;
+  let alice: FS5;
+  let bob: FS5;
+
+  const names = async (list: AsyncIterable<{ name: string }>) => {
+    const result: string[] = [];
+    for await (const item of list) {
+      result.push(item.name);
+    }
+    return result.sort();
+  };
+  const writeKeyOf = (link: string) => link.substring("fs5://write:".length, link.indexOf("@"));
+
+  beforeEach(async () => {
+    api = new SimpleMockAPI();
+    owner = new FS5(api as any, new SimpleMockIdentity() as any);
+    await owner.ensureIdentityInitialized();
+    alice = new FS5(api as any, { fsRootKey: new Uint8Array(32).fill(1) } as any);
+    await alice.ensureIdentityInitialized();
+    bob = new FS5(api as any, { fsRootKey: new Uint8Array(32).fill(2) } as any);
+    await bob.ensureIdentityInitialized();
+
+    await owner.put("home/projects/website/index.html", "<h1>Home</h1>");
+    await owner.put("home/projects/secret/plans.txt", "Plans");
+  });
+
+  test("returns a writable link for the directory", async () => {
+    const grant = await owner.grantWriteAccess("home/projects/website");
+
+    expect(grant).toMatch(/^fs5:\/\/write:u[\w-]+@b[a-z2-7]+$/);
+    expect(grant).toBe(
+      await owner.createShareLink("home/projects/website", { writable: true })
+    );
+  });
+
+  test("a collaborator writes to the tree from their own identity", async () => {
+    const project = await alice.openShared(await owner.grantWriteAccess("home/projects/website"));
+
+    await project.put("pages/about.md", "# About");
+    await project.createDirectory("", "assets");
+    await project.put("draft.md", "Draft");
+    await project.move("draft.md", "pages/contact.md");
+    await project.rename("index.html", "home.html");
+    expect(await project.delete("pages/about.md")).toBe(true);
+
+    expect(await names(owner.list("home/projects/website"))).toEqual([
+      "assets",
+      "home.html",
+      "pages",
+    ]);
+    expect(await owner.get("home/projects/website/pages/contact.md")).toBe("Draft");
+    expect(await owner.get("home/projects/website/home.html")).toBe("<h1>Home</h1>");
+  });
+
+  test("the grant exposes nothing above the directory", async () => {
+    const grant = await owner.grantWriteAccess("home/projects/website");
+    const parentGrant = await owner.grantWriteAccess("home/projects");
+    expect(writeKeyOf(grant)).not.toBe(writeKeyOf(parentGrant));
+
+    const project = await alice.openShared(grant);
+    expect(await names(project.list(""))).toEqual(["index.html"]);
+    expect(await project.get("../secret/plans.txt").catch(() => undefined)).toBeUndefined();
+  });
+
+  test("several collaborators and the owner edit the same tree", async () => {
+    const grant = await owner.grantWriteAccess("home/projects/website");
+    const aliceView = await alice.openShared(grant);
+    const bobView = await bob.openShared(grant);
+
+    await aliceView.put("alice.txt", "From Alice");
+    await bobView.put("bob.txt", "From Bob");
+    await owner.put("home/projects/website/owner.txt", "From owner");
+
+    expect(await names(aliceView.list(""))).toEqual([
+      "alice.txt",
+      "bob.txt",
+      "index.html",
+      "owner.txt",
+    ]);
+  });
+
+  test("collaborators can mount the grant into their own tree", async () => {
+    await alice.mount("home/work/website", await owner.grantWriteAccess("home/projects/website"));
+
+    await alice.put("home/work/website/news.md", "News");
+    expect(await owner.get("home/projects/website/news.md")).toBe("News");
+  });
+
+  test("throws without write access to the directory", async () => {
+    await owner.snapshot("home/projects/website", "archive/website-v1");
+    await expect(owner.grantWriteAccess("archive/website-v1")).rejects.toThrow(
+      "Directory is read-only: archive/website-v1"
+    );
+
+    await alice.mount("home/readonly", await owner.createShareLink("home/projects/website"));
+    await expect(alice.grantWriteAccess("home/readonly")).rejects.toThrow(
+      "Directory is read-only: home/readonly"
+    );
+  });
+});
@@ -363,6 +363,44 @@ describe("HAMT Serialisation", () => {
         expect(retrieved).toEqual(ref);
       }
     });
+
+    test("should preserve registry links, timestamps and extra fields", async () => {
+      const dirRef: DirRef = {
+        link: {
+          type: "mutable_registry_ed25519",
+          publicKey: new Uint8Array(32).fill(7)
+        },
+        ts_seconds: 1700000000,
+        extra: new Map([["wrapped_write_key", new Uint8Array([1, 2, 3])]])
+      };
+      const fileRef: FileRef = {
+        hash: new Uint8Array(32).fill(3),
+        size: 42,
+        media_type: "text/plain",
+        timestamp: 1700000001,
+        extra: new Map([["tag", "keep"]]),
+        prev: {
+          hash: new Uint8Array(32).fill(4),
+          size: 40,
+          timestamp: 1700000000
+        }
+      };
+
+      await hamt.insert("d:linked", dirRef);
+      await hamt.insert("f:versioned.txt", fileRef);
+
+      const hamt2 = await HAMT.deserialise(hamt.serialise(), api as any);
+      const retrievedDir = await hamt2.get("d:linked") as DirRef;
+      expect(retrievedDir.link.publicKey).toEqual(dirRef.link.publicKey);
+      expect(retrievedDir.ts_seconds).toBe(1700000000);
+      expect(retrievedDir.extra?.get("wrapped_write_key")).toEqual(new Uint8Array([1, 2, 3]));
+
+      const retrievedFile = await hamt2.get("f:versioned.txt") as FileRef;
+      expect(retrievedFile.media_type).toBe("text/plain");
+      expect(retrievedFile.timestamp).toBe(1700000001);
+      expect(retrievedFile.extra?.get("tag")).toBe("keep");
+      expect(retrievedFile.prev?.size).toBe(40);
+    });
   });
 
   describe("Node caching", () => {
@@ -0,0 +1,62 @@
+import { describe, test, expect, beforeEach } from "vitest";
+import { S5Node } from "../src/node/node.js";
+import { S5RegistryService } from "../src/node/registry.js";
+import { JSCryptoImplementation } from "../src/api/crypto/js.js";
+import { MemoryLevelStore } from "../src/kv/memory_level.js";
+import { createRegistryEntry } from "../src/registry/entry.js";
+import { KeyPairEd25519 } from "../src/api/crypto.js";
+
+describe("S5Node.registryListen", () => {
+  const crypto = new JSCryptoImplementation();
+  let node: S5Node;
+  let keyPair: KeyPairEd25519;
+
+  beforeEach(async () => {
+    node = new S5Node(crypto);
+    const p2p = { crypto, peers: new Map() } as any;
+    node.registry = new S5RegistryService(p2p, await MemoryLevelStore.open());
+    keyPair = await crypto.newKeyPairEd25519(new Uint8Array(32).fill(3));
+  });
+
+  async function setRevision(revision: number) {
+    const entry = await createRegistryEntry(keyPair, new Uint8Array([revision]), revision, crypto);
+    await node.registrySet(entry);
+  }
+
+  test("yields entries set after subscribing, in order", async () => {
+    const updates = node.registryListen(keyPair.publicKey);
+    await setRevision(1);
+    await setRevision(2);
+
+    expect((await updates.next()).value.revision).toBe(1);
+    expect((await updates.next()).value.revision).toBe(2);
+    await updates.return!();
+  });
+
+  test("resolves a pending next() when an entry arrives", async () => {
+    const updates = node.registryListen(keyPair.publicKey);
+    const next = updates.next();
+    await setRevision(5);
+    expect((await next).value.data).toEqual(new Uint8Array([5]));
+    await updates.return!();
+  });
+
+  test("ends the iteration on return()", async () => {
+    const updates = node.registryListen(keyPair.publicKey);
+    const pending = updates.next();
+    await updates.return!();
+
+    expect(await pending).toEqual({ value: undefined, done: true });
+    await setRevision(1);
+    expect((await updates.next()).done).toBe(true);
+  });
+
+  test("works with for await", async () => {
+    const updates = node.registryListen(keyPair.publicKey);
+    setTimeout(() => setRevision(1), 0);
+    for await (const entry of updates) {
+      expect(entry.revision).toBe(1);
+      break;
+    }
+  });
+});
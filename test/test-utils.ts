@@ -133,4 +133,48 @@ export async function setupMockS5() {
   const identity = new MockIdentity();
   
   return { s5, identity };
-}
\ No newline at end of file
+}
+
+// In-memory S5 API for FS5 tests. Blobs are stored under their real BLAKE3
+// hash and registry entries under their public key, tests can count uploads
+// and registry updates or extend the class for streams, ranges and listeners.
+export class SimpleMockAPI {
+  crypto: JSCryptoImplementation;
+  blobs: Map<string, Uint8Array> = new Map();
+  protected registry: Map<string, any> = new Map();
+  uploadCount = 0;
+  registrySetCount = 0;
+
+  constructor() {
+    this.crypto = new JSCryptoImplementation();
+  }
+
+  async uploadBlob(blob: Blob): Promise<{ hash: Uint8Array; size: number }> {
+    this.uploadCount++;
+    const data = new Uint8Array(await blob.arrayBuffer());
+    const hash = await this.crypto.hashBlake3(data);
+    this.blobs.set(Buffer.from(hash).toString("hex"), data);
+    return { hash: new Uint8Array([0x1e, ...hash]), size: blob.size };
+  }
+
+  async downloadBlobAsBytes(hash: Uint8Array): Promise<Uint8Array> {
+    const actualHash = hash[0] === 0x1e ? hash.slice(1) : hash;
+    const key = Buffer.from(actualHash).toString("hex");
+    const data = this.blobs.get(key);
+    if (!data) throw new Error(`Blob not found: ${key}`);
+    return data;
+  }
+
+  async registryGet(publicKey: Uint8Array): Promise<any> {
+    return this.registry.get(Buffer.from(publicKey).toString("hex"));
+  }
+
+  async registrySet(entry: any): Promise<void> {
+    this.registrySetCount++;
+    this.registry.set(Buffer.from(entry.pk).toString("hex"), entry);
+  }
+}
+
+export class SimpleMockIdentity {
+  fsRootKey = new Uint8Array(32).fill(42);
+}
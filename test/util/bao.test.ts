@@ -0,0 +1,86 @@
+import { describe, test, expect } from "vitest";
+import { blake3 } from "@noble/hashes/blake3";
+import {
+  BAO_CHUNK_GROUP_SIZE,
+  BaoOutboardBuilder,
+  BaoVerifier,
+  createBaoOutboard,
+} from "../../src/util/bao.js";
+
+describe("Bao outboards", () => {
+  const G = BAO_CHUNK_GROUP_SIZE;
+  const blob = (size: number) => new Uint8Array(size).map((_, i) => (i * 31 + (i >> 10)) % 251);
+  const groupOf = (data: Uint8Array, index: number) => data.subarray(index * G, (index + 1) * G);
+
+  test("outboards of blobs up to one chunk group only hold the size", () => {
+    expect(createBaoOutboard(new Uint8Array(0))).toEqual(new Uint8Array(8));
+    expect(createBaoOutboard(blob(G))).toHaveLength(8);
+    expect(createBaoOutboard(blob(G + 1))).toHaveLength(8 + 64);
+    expect(createBaoOutboard(blob(5 * G))).toHaveLength(8 + 4 * 64);
+  });
+
+  test("verifies every chunk group against the BLAKE3 hash", () => {
+    for (const size of [0, 1, 1024, 1025, 70000, G, G + 1, 3 * G - 5, 4 * G, 5 * G + 1000]) {
+      const data = blob(size);
+      const verifier = new BaoVerifier(blake3(data), createBaoOutboard(data));
+
+      expect(verifier.size).toBe(size);
+      for (let i = 0; i < verifier.groups; i++) {
+        verifier.verifyGroup(i, groupOf(data, i));
+      }
+    }
+  });
+
+  test("builds the same outboard from pieces of any size", () => {
+    const data = blob(3 * G + 12345);
+    const builder = new BaoOutboardBuilder();
+    for (let offset = 0; offset < data.length; offset += 100000) {
+      builder.update(data.subarray(offset, offset + 100000));
+    }
+
+    expect(builder.finish()).toEqual(createBaoOutboard(data));
+  });
+
+  test("rejects corrupted chunk groups", () => {
+    const data = blob(3 * G + 100);
+    const verifier = new BaoVerifier(blake3(data), createBaoOutboard(data));
+    const corrupted = groupOf(data, 1).slice();
+    corrupted[500] ^= 1;
+
+    expect(() => verifier.verifyGroup(1, corrupted)).toThrow(
+      "Bao verification failed for chunk group 1"
+    );
+    expect(() => verifier.verifyGroup(3, groupOf(data, 3).subarray(1))).toThrow(
+      "Bao verification failed for chunk group 3"
+    );
+    expect(() => verifier.verifyGroup(2, groupOf(data, 1))).toThrow(
+      "Bao verification failed for chunk group 2"
+    );
+  });
+
+  test("rejects outboards that don't belong to the hash", () => {
+    const data = blob(2 * G + 1);
+    const outboard = createBaoOutboard(data);
+    const tampered = outboard.slice();
+    tampered[20] ^= 1;
+
+    expect(() => new BaoVerifier(blake3(data), tampered)).toThrow(
+      "Bao outboard does not match the blob hash"
+    );
+    expect(() => new BaoVerifier(blake3(blob(2 * G + 2)), outboard)).toThrow(
+      "Bao outboard does not match the blob hash"
+    );
+    expect(() => new BaoVerifier(blake3(data), outboard.subarray(0, 40))).toThrow(
+      "Invalid Bao outboard"
+    );
+  });
+
+  test("a single chunk group is checked against the hash itself", () => {
+    const data = blob(5000);
+    const verifier = new BaoVerifier(blake3(data), createBaoOutboard(data));
+
+    expect(() => verifier.verifyGroup(0, blob(4999))).toThrow(
+      "Bao verification failed for chunk group 0"
+    );
+  });
+});